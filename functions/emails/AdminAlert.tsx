@@ -0,0 +1,16 @@
+// Preview wrapper for AdminAlert
+import { AdminAlertEmail } from "../src/emails/templates/AdminAlert";
+
+const sampleData = {
+  title: "Reconciliation found 3 discrepancies",
+  message: "The nightly Stripe reconciliation for 2024-11-29 found records that don't match Stripe.",
+  details: [
+    { label: "Missing donations", value: "2" },
+    { label: "Amount mismatches", value: "1" },
+    { label: "Report ID", value: "Xk3p9QeR2mTz" },
+  ],
+};
+
+export default function AdminAlertPreview() {
+  return <AdminAlertEmail data={sampleData} />;
+}
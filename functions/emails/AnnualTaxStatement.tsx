@@ -0,0 +1,45 @@
+// Preview wrapper for AnnualTaxStatement
+import { AnnualTaxStatementEmail } from "../src/emails/templates/AnnualTaxStatement";
+
+const sampleData = {
+  donorName: "Ahmed Khan",
+  financialYear: "2024-25",
+  periodStart: "1 July 2024",
+  periodEnd: "30 June 2025",
+  currency: "aud",
+  totalAmount: 32500, // $325.00
+  donations: [
+    {
+      date: "12 August 2024",
+      receiptNumber: "RCP-2024-00123",
+      donationType: "General Donation",
+      amount: 5000,
+    },
+    {
+      date: "20 March 2025",
+      receiptNumber: "RCP-2025-00456",
+      donationType: "Masjid Expansion Fund",
+      amount: 25000,
+    },
+    {
+      date: "1 June 2025",
+      receiptNumber: "RCP-2025-00789",
+      donationType: "General Donation",
+      amount: 2500,
+    },
+  ],
+  adjustments: [
+    {
+      date: "1 June 2025",
+      receiptNumber: "RCP-2025-00789",
+      description: "Partial refund",
+      amount: 2500,
+    },
+  ],
+  abn: "12 345 678 901",
+  dgrEndorsed: true,
+};
+
+export default function AnnualTaxStatementPreview() {
+  return <AnnualTaxStatementEmail data={sampleData} />;
+}
@@ -0,0 +1,15 @@
+// Preview wrapper for DedicationNotification
+import { DedicationNotificationEmail } from "../src/emails/templates/DedicationNotification";
+
+const sampleData = {
+  dedicationType: "in_memory_of" as const,
+  honoreeName: "Fatima Rahman",
+  donorName: "Yusuf Rahman",
+  donationType: "Sadaqah Jariyah",
+  date: "29 November 2024",
+  message: "For our beloved grandmother, who taught us to give.",
+};
+
+export default function DedicationNotificationPreview() {
+  return <DedicationNotificationEmail data={sampleData} />;
+}
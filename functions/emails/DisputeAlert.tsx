@@ -2,7 +2,7 @@
 import { DisputeAlertEmail } from "../src/emails/templates/DisputeAlert";
 
 const sampleData = {
-  disputeAmount: "150.00",
+  disputeAmount: "$150.00 AUD",
   disputeDueDate: "15 December 2024",
   disputeReason: "fraudulent",
   donorEmail: "donor@example.com",
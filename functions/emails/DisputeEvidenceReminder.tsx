@@ -0,0 +1,17 @@
+// Preview wrapper for DisputeEvidenceReminder
+import { DisputeEvidenceReminderEmail } from "../src/emails/templates/DisputeEvidenceReminder";
+
+const sampleData = {
+  disputeId: "dp_1QabcDEF123456",
+  disputeAmount: "$50.00 AUD",
+  disputeReason: "fraudulent",
+  disputeDueDate: "06/12/2024 10:59",
+  hoursRemaining: 24,
+  donorName: "Ahmed Hassan",
+  receiptNumber: "AA-2024-001234",
+  hasEvidence: false,
+};
+
+export default function DisputeEvidenceReminderPreview() {
+  return <DisputeEvidenceReminderEmail data={sampleData} />;
+}
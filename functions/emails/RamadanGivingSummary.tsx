@@ -0,0 +1,21 @@
+// Preview wrapper for RamadanGivingSummary
+import { RamadanGivingSummaryEmail } from "../src/emails/templates/RamadanGivingSummary";
+
+const sampleData = {
+  donorName: "Maryam Hassan",
+  currency: "aud",
+  donationType: "General Donation",
+  hijriYear: 1447,
+  nights: [
+    { night: 21, date: "9 March 2026", amount: 1000, receiptNumber: "RCP-2026-000412" },
+    { night: 22, date: "10 March 2026", amount: 1000, receiptNumber: "RCP-2026-000431" },
+    { night: 23, date: "11 March 2026", amount: 1000, receiptNumber: "RCP-2026-000457" },
+    { night: 25, date: "13 March 2026", amount: 1000, receiptNumber: "RCP-2026-000502" },
+  ],
+  totalAmount: 4000, // $40.00
+  missedNights: 1,
+};
+
+export default function RamadanGivingSummaryPreview() {
+  return <RamadanGivingSummaryEmail data={sampleData} />;
+}
@@ -0,0 +1,16 @@
+// Preview wrapper for RecurringLapsed
+import { RecurringLapsedEmail } from "../src/emails/templates/RecurringLapsed";
+
+const sampleData = {
+  donorName: "Yusuf Ibrahim",
+  amount: 2500, // $25.00
+  currency: "aud",
+  frequency: "monthly",
+  donationType: "General Donation",
+  totalDonated: 30000, // $300.00 total
+  startDate: "March 2024",
+};
+
+export default function RecurringLapsedPreview() {
+  return <RecurringLapsedEmail data={sampleData} />;
+}
@@ -0,0 +1,16 @@
+// Preview wrapper for SubscriptionPaused
+import { SubscriptionPausedEmail } from "../src/emails/templates/SubscriptionPaused";
+
+const sampleData = {
+  donorName: "Fatima Ali",
+  amount: 5000, // $50.00
+  currency: "aud",
+  frequency: "monthly",
+  donationType: "General Donation",
+  resumed: false,
+  resumeDate: "1 May 2025",
+};
+
+export default function SubscriptionPausedPreview() {
+  return <SubscriptionPausedEmail data={sampleData} />;
+}
@@ -10,6 +10,7 @@ const sampleData = {
   nextPaymentDate: "6 December 2024",
   newAmount: 5000, // $50.00
   newFrequency: "weekly",
+  currency: "aud",
 };
 
 export default function SubscriptionUpdatedPreview() {
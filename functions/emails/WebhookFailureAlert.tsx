@@ -0,0 +1,27 @@
+// Preview wrapper for WebhookFailureAlert
+import { WebhookFailureAlertEmail } from "../src/emails/templates/WebhookFailureAlert";
+
+const sampleData = {
+  thresholdHours: 2,
+  events: [
+    {
+      eventId: "evt_1QabcDEF123456",
+      eventType: "invoice.payment_succeeded",
+      status: "failed" as const,
+      attemptCount: 4,
+      errorMessage: "Recurring donation record not found",
+      firstSeen: "29/11/2024 14:05",
+    },
+    {
+      eventId: "evt_1QxyzUVW654321",
+      eventType: "charge.refunded",
+      status: "stuck" as const,
+      attemptCount: 1,
+      firstSeen: "29/11/2024 15:30",
+    },
+  ],
+};
+
+export default function WebhookFailureAlertPreview() {
+  return <WebhookFailureAlertEmail data={sampleData} />;
+}
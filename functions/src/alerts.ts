@@ -0,0 +1,644 @@
+// ============================================================================
+// CLOUD FUNCTIONS: ADMIN ALERT ROUTING
+// Location: mosque_app_functions/src/alerts.ts
+// ============================================================================
+// Operational alerts (disputes, repeated payment failures, webhook failures,
+// reconciliation mismatches) are routed to the recipients in `alertRecipients`.
+//
+// alertRecipients/{id}:
+//   channel: "email" | "push" | "webhook"
+//   alert_types: AlertType[]
+//   enabled: boolean
+//   label: string
+//   email: string                 // channel "email"
+//   uid: string                   // channel "push" - admin whose devices get the push
+//   device_ids: string[]          //   fcmTokens linked via linkAlertDevice
+//   url: string                   // channel "webhook" - HTTPS endpoint
+//   secret: string                //   HMAC-SHA256 key for the X-Alert-Signature header
+//   last_delivered_at, last_error, created_by, created_at, updated_at
+//
+// If no enabled recipient is subscribed to an alert type, or none of them
+// could be reached, the alert falls back to an email to DEFAULT_ALERT_EMAIL so
+// it is never silently dropped.
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import * as crypto from "crypto";
+import { Permission } from "./utils/roles";
+import { requirePermission, userHasAnyPermission } from "./utils/authorization";
+import { buildNotificationMessage } from "./utils/messagingHelpers";
+import { sendMulticast } from "./utils/notificationDelivery";
+import {
+  adminAlertEmail,
+  isValidEmail,
+  normalizeEmail,
+  sendEmail,
+} from "./utils/emailTemplates";
+import type { AdminAlertDetail } from "./emails/index.js";
+
+const db = admin.firestore();
+
+const DEFAULT_ALERT_EMAIL = "donations@alansar.app";
+const ALERT_FROM = "Al Ansar Alerts <donations@alansar.app>";
+
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+// Push alerts carry donation details, so only admins who can see donations get them
+const PUSH_RECIPIENT_PERMISSIONS = [Permission.MANAGE_ALERTS, Permission.VIEW_DONATIONS];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const ALERT_TYPES = [
+  "dispute",
+  "payment_failure_repeated",
+  "webhook_failure",
+  "reconciliation_mismatch",
+] as const;
+
+export type AlertType = typeof ALERT_TYPES[number];
+
+type AlertChannel = "email" | "push" | "webhook";
+
+const ALERT_CHANNELS: AlertChannel[] = ["email", "push", "webhook"];
+
+export interface AdminAlert {
+  type: AlertType;
+  title: string;
+  message: string;
+  details?: AdminAlertDetail[];
+  // Pre-rendered email (e.g. DisputeAlert) - defaults to the generic AdminAlert template
+  email?: { subject: string; html: string };
+  // Identifiers included in push and webhook payloads
+  data?: Record<string, string>;
+}
+
+interface SaveAlertRecipientRequest {
+  id?: string; // Omit to create
+  channel: AlertChannel;
+  alertTypes: AlertType[];
+  enabled?: boolean;
+  label?: string;
+  email?: string;
+  uid?: string;
+  url?: string;
+}
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+async function deliverEmail(email: string, alert: AdminAlert): Promise<boolean> {
+  const emailData = alert.email || await adminAlertEmail({
+    title: alert.title,
+    message: alert.message,
+    details: alert.details,
+  });
+
+  return sendEmail({
+    from: ALERT_FROM,
+    to: email,
+    subject: emailData.subject,
+    html: emailData.html,
+  });
+}
+
+async function deliverPush(deviceIds: string[], alert: AdminAlert): Promise<boolean> {
+  if (deviceIds.length === 0) {
+    logger.warn("Push alert recipient has no linked devices", { type: alert.type });
+    return false;
+  }
+
+  const tokenDocs = await db.getAll(
+    ...deviceIds.map((id) => db.collection("fcmTokens").doc(id))
+  );
+
+  const tokens: string[] = [];
+  const activeDeviceIds: string[] = [];
+  tokenDocs.forEach((doc) => {
+    const fcmToken = doc.data()?.fcmToken;
+    if (fcmToken) {
+      tokens.push(fcmToken);
+      activeDeviceIds.push(doc.id);
+    }
+  });
+
+  if (tokens.length === 0) {
+    logger.warn("No registered tokens for alert devices", { deviceIds });
+    return false;
+  }
+
+  const message = buildNotificationMessage(
+    alert.title,
+    alert.message,
+    { type: "admin_alert", alert_type: alert.type, ...(alert.data || {}) },
+    tokens
+  );
+
+  const response = await sendMulticast(message, activeDeviceIds, { label: "admin_alert" });
+
+  if (response.queued) {
+    logger.info("📬 Admin alert push queued", { jobId: response.jobId });
+  }
+
+  return response.queued || response.successCount > 0;
+}
+
+async function deliverWebhook(url: string, secret: string, alert: AdminAlert): Promise<boolean> {
+  const body = JSON.stringify({
+    type: alert.type,
+    title: alert.title,
+    message: alert.message,
+    details: alert.details || [],
+    data: alert.data || {},
+    sent_at: new Date().toISOString(),
+  });
+
+  const signature = crypto.createHmac("sha256", secret).update(body).digest("hex");
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Alert-Signature": `sha256=${signature}`,
+    },
+    body,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Webhook responded with HTTP ${response.status}`);
+  }
+  return true;
+}
+
+/**
+ * Deliver an alert to one recipient. Never throws - the failure is recorded
+ * on the recipient as `last_error`.
+ */
+async function deliverToRecipient(
+  recipient: FirebaseFirestore.DocumentSnapshot,
+  alert: AdminAlert
+): Promise<boolean> {
+  const data = recipient.data() || {};
+  let delivered = false;
+  let errorMessage: string | null = null;
+
+  try {
+    switch (data.channel as AlertChannel) {
+      case "email":
+        delivered = await deliverEmail(data.email, alert);
+        break;
+      case "push":
+        delivered = await deliverPush(data.device_ids || [], alert);
+        break;
+      case "webhook":
+        delivered = await deliverWebhook(data.url, data.secret, alert);
+        break;
+    }
+    if (!delivered) {
+      errorMessage = "Delivery failed";
+    }
+  } catch (error: any) {
+    errorMessage = error.message || String(error);
+  }
+
+  if (!delivered) {
+    logger.error("❌ Alert delivery failed", {
+      recipientId: recipient.id,
+      channel: data.channel,
+      type: alert.type,
+      error: errorMessage,
+    });
+  }
+
+  try {
+    await recipient.ref.update(
+      delivered
+        ? { last_delivered_at: admin.firestore.FieldValue.serverTimestamp(), last_error: null }
+        : { last_error: errorMessage, last_error_at: admin.firestore.FieldValue.serverTimestamp() }
+    );
+  } catch (error: any) {
+    // Status is only bookkeeping - the delivery result still counts
+    logger.error("❌ Error recording alert delivery status", {
+      recipientId: recipient.id,
+      error: error.message,
+    });
+  }
+
+  return delivered;
+}
+
+/**
+ * Route an operational alert to every enabled recipient subscribed to its type
+ * @returns Whether at least one recipient received it
+ */
+export async function sendAdminAlert(alert: AdminAlert): Promise<boolean> {
+  const snapshot = await db
+    .collection("alertRecipients")
+    .where("alert_types", "array-contains", alert.type)
+    .get();
+
+  const recipients = snapshot.docs.filter((doc) => doc.data().enabled !== false);
+
+  if (recipients.length === 0) {
+    logger.warn("No alert recipients configured - using default email", { type: alert.type });
+    return deliverEmail(DEFAULT_ALERT_EMAIL, alert);
+  }
+
+  const results = await Promise.all(
+    recipients.map((recipient) => deliverToRecipient(recipient, alert))
+  );
+  const deliveredCount = results.filter(Boolean).length;
+
+  if (deliveredCount === 0) {
+    logger.error("❌ Alert not delivered to any recipient - using default email", {
+      type: alert.type,
+      title: alert.title,
+      recipients: recipients.length,
+    });
+    return deliverEmail(DEFAULT_ALERT_EMAIL, alert);
+  }
+
+  logger.info("🚨 Admin alert delivered", {
+    type: alert.type,
+    title: alert.title,
+    recipients: recipients.length,
+    delivered: deliveredCount,
+  });
+
+  return true;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function validateAlertTypes(alertTypes: unknown): AlertType[] {
+  if (!Array.isArray(alertTypes) || alertTypes.length === 0 ||
+    !alertTypes.every((type) => ALERT_TYPES.includes(type))) {
+    throw new HttpsError(
+      "invalid-argument",
+      `alertTypes must be a non-empty list of: ${ALERT_TYPES.join(", ")}`
+    );
+  }
+  return Array.from(new Set(alertTypes as AlertType[]));
+}
+
+function toRecipientResponse(doc: FirebaseFirestore.DocumentSnapshot) {
+  const data = doc.data() || {};
+  return {
+    id: doc.id,
+    channel: data.channel,
+    alertTypes: data.alert_types || [],
+    enabled: data.enabled !== false,
+    label: data.label || "",
+    email: data.email || null,
+    uid: data.uid || null,
+    deviceCount: (data.device_ids || []).length,
+    url: data.url || null,
+    lastDeliveredAt: data.last_delivered_at?.toDate()?.toISOString() ?? null,
+    lastError: data.last_error || null,
+    updatedAt: data.updated_at?.toDate()?.toISOString() ?? null,
+  };
+}
+
+// ============================================================================
+// FUNCTION 1: List Alert Recipients (Admin Dashboard)
+// ============================================================================
+
+export const listAlertRecipients = onCall(
+  {
+    region: "australia-southeast1",
+    cors: true,
+  },
+  async (request) => {
+    requirePermission(
+      request,
+      Permission.MANAGE_ALERTS,
+      "You do not have permission to manage alerts"
+    );
+
+    try {
+      const snapshot = await db.collection("alertRecipients").get();
+
+      return {
+        alertTypes: ALERT_TYPES,
+        recipients: snapshot.docs.map(toRecipientResponse),
+      };
+    } catch (error: any) {
+      logger.error("❌ Error listing alert recipients:", error);
+      throw new HttpsError("internal", "Failed to list alert recipients");
+    }
+  }
+);
+
+// ============================================================================
+// FUNCTION 2: Create / Update Alert Recipient (Admin Dashboard)
+// ============================================================================
+// Webhook secrets are generated here and only returned when a webhook
+// recipient is created.
+
+export const saveAlertRecipient = onCall(
+  {
+    region: "australia-southeast1",
+    cors: true,
+  },
+  async (request) => {
+    const auth = requirePermission(
+      request,
+      Permission.MANAGE_ALERTS,
+      "You do not have permission to manage alerts"
+    );
+
+    const {
+      id,
+      channel,
+      alertTypes,
+      enabled = true,
+      label,
+      email,
+      uid,
+      url,
+    } = (request.data || {}) as SaveAlertRecipientRequest;
+
+    if (!ALERT_CHANNELS.includes(channel)) {
+      throw new HttpsError("invalid-argument", `channel must be one of: ${ALERT_CHANNELS.join(", ")}`);
+    }
+
+    const validAlertTypes = validateAlertTypes(alertTypes);
+
+    if (typeof enabled !== "boolean") {
+      throw new HttpsError("invalid-argument", "enabled must be a boolean");
+    }
+
+    const recipientData: Record<string, any> = {
+      channel,
+      alert_types: validAlertTypes,
+      enabled,
+      label: typeof label === "string" ? label.trim().slice(0, 100) : "",
+      updated_at: admin.firestore.FieldValue.serverTimestamp(),
+    };
+
+    if (channel === "email") {
+      if (!email || !isValidEmail(email)) {
+        throw new HttpsError("invalid-argument", "A valid email address is required");
+      }
+      recipientData.email = normalizeEmail(email);
+    } else if (channel === "push") {
+      if (!uid || typeof uid !== "string") {
+        throw new HttpsError("invalid-argument", "uid is required for push alerts");
+      }
+      let user: admin.auth.UserRecord;
+      try {
+        user = await admin.auth().getUser(uid);
+      } catch (error) {
+        throw new HttpsError("not-found", "User not found");
+      }
+      if (!userHasAnyPermission(user.customClaims, PUSH_RECIPIENT_PERMISSIONS)) {
+        throw new HttpsError(
+          "failed-precondition",
+          "Push alerts can only be sent to admins who can view donations or manage alerts"
+        );
+      }
+      recipientData.uid = uid;
+    } else {
+      let parsedUrl: URL;
+      try {
+        parsedUrl = new URL(url || "");
+      } catch (error) {
+        throw new HttpsError("invalid-argument", "A valid webhook URL is required");
+      }
+      if (parsedUrl.protocol !== "https:") {
+        throw new HttpsError("invalid-argument", "Webhook URL must use HTTPS");
+      }
+      recipientData.url = parsedUrl.toString();
+    }
+
+    try {
+      let recipientRef: FirebaseFirestore.DocumentReference;
+      let secret: string | undefined;
+
+      if (id) {
+        recipientRef = db.collection("alertRecipients").doc(id);
+        const existing = await recipientRef.get();
+        if (!existing.exists) {
+          throw new HttpsError("not-found", "Alert recipient not found");
+        }
+        if (existing.data()?.channel !== channel) {
+          throw new HttpsError("invalid-argument", "A recipient's channel can't be changed");
+        }
+        await recipientRef.update(recipientData);
+      } else {
+        recipientRef = db.collection("alertRecipients").doc();
+        if (channel === "webhook") {
+          secret = crypto.randomBytes(32).toString("hex");
+          recipientData.secret = secret;
+        }
+        if (channel === "push") {
+          recipientData.device_ids = [];
+        }
+        await recipientRef.set({
+          ...recipientData,
+          created_by: auth.uid,
+          created_at: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      }
+
+      await db.collection("adminLogs").add({
+        action: id ? "alert_recipient_updated" : "alert_recipient_created",
+        recipientId: recipientRef.id,
+        channel,
+        alertTypes: validAlertTypes,
+        enabled,
+        performedBy: auth.uid,
+        performedByEmail: auth.token.email || "unknown",
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      logger.info("✅ Alert recipient saved", {
+        recipientId: recipientRef.id,
+        channel,
+        created: !id,
+      });
+
+      return {
+        success: true,
+        recipient: toRecipientResponse(await recipientRef.get()),
+        ...(secret ? { secret } : {}),
+      };
+    } catch (error: any) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      logger.error("❌ Error saving alert recipient:", error);
+      throw new HttpsError("internal", "Failed to save alert recipient");
+    }
+  }
+);
+
+// ============================================================================
+// FUNCTION 3: Delete Alert Recipient (Admin Dashboard)
+// ============================================================================
+
+export const deleteAlertRecipient = onCall(
+  {
+    region: "australia-southeast1",
+    cors: true,
+  },
+  async (request) => {
+    const auth = requirePermission(
+      request,
+      Permission.MANAGE_ALERTS,
+      "You do not have permission to manage alerts"
+    );
+
+    const { id } = (request.data || {}) as { id?: string };
+
+    if (!id || typeof id !== "string") {
+      throw new HttpsError("invalid-argument", "Recipient ID is required");
+    }
+
+    try {
+      const recipientRef = db.collection("alertRecipients").doc(id);
+      const existing = await recipientRef.get();
+      if (!existing.exists) {
+        throw new HttpsError("not-found", "Alert recipient not found");
+      }
+
+      await recipientRef.delete();
+
+      await db.collection("adminLogs").add({
+        action: "alert_recipient_deleted",
+        recipientId: id,
+        channel: existing.data()?.channel,
+        performedBy: auth.uid,
+        performedByEmail: auth.token.email || "unknown",
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      return { success: true };
+    } catch (error: any) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      logger.error("❌ Error deleting alert recipient:", error);
+      throw new HttpsError("internal", "Failed to delete alert recipient");
+    }
+  }
+);
+
+// ============================================================================
+// FUNCTION 4: Send Test Alert (Admin Dashboard)
+// ============================================================================
+
+export const sendTestAlert = onCall(
+  {
+    region: "australia-southeast1",
+    cors: true,
+    secrets: ["RESEND_API_KEY"],
+  },
+  async (request) => {
+    requirePermission(
+      request,
+      Permission.MANAGE_ALERTS,
+      "You do not have permission to manage alerts"
+    );
+
+    const { id } = (request.data || {}) as { id?: string };
+
+    if (!id || typeof id !== "string") {
+      throw new HttpsError("invalid-argument", "Recipient ID is required");
+    }
+
+    const recipient = await db.collection("alertRecipients").doc(id).get();
+    if (!recipient.exists) {
+      throw new HttpsError("not-found", "Alert recipient not found");
+    }
+
+    const alertTypes: AlertType[] = recipient.data()?.alert_types || [];
+    const delivered = await deliverToRecipient(recipient, {
+      type: alertTypes[0] || "webhook_failure",
+      title: "Test alert",
+      message: "This is a test alert. If you received it, alert delivery is working.",
+      data: { test: "true" },
+    });
+
+    return { success: delivered };
+  }
+);
+
+// ============================================================================
+// FUNCTION 5: Link / Unlink Alert Device (Admin Mobile App)
+// ============================================================================
+// Links the caller's registered device (fcmTokens/{deviceId}) to their push
+// alert subscriptions. Only admins who still hold a push recipient permission
+// and have been added as push recipients can link devices.
+
+export const linkAlertDevice = onCall(
+  {
+    region: "australia-southeast1",
+  },
+  async (request) => {
+    const auth = requirePermission(
+      request,
+      PUSH_RECIPIENT_PERMISSIONS,
+      "You do not have permission to receive alerts"
+    );
+
+    const { deviceId, unlink = false } = (request.data || {}) as {
+      deviceId?: string;
+      unlink?: boolean;
+    };
+
+    if (!deviceId || typeof deviceId !== "string" || !/^[a-zA-Z0-9._-]{1,128}$/.test(deviceId)) {
+      throw new HttpsError("invalid-argument", "A valid deviceId is required");
+    }
+
+    try {
+      const snapshot = await db
+        .collection("alertRecipients")
+        .where("channel", "==", "push")
+        .where("uid", "==", auth.uid)
+        .get();
+
+      if (snapshot.empty) {
+        throw new HttpsError("permission-denied", "You are not subscribed to push alerts");
+      }
+
+      if (!unlink) {
+        const tokenDoc = await db.collection("fcmTokens").doc(deviceId).get();
+        if (!tokenDoc.exists) {
+          throw new HttpsError("not-found", "Device is not registered for notifications");
+        }
+      }
+
+      const batch = db.batch();
+      snapshot.docs.forEach((doc) => {
+        batch.update(doc.ref, {
+          device_ids: unlink
+            ? admin.firestore.FieldValue.arrayRemove(deviceId)
+            : admin.firestore.FieldValue.arrayUnion(deviceId),
+          updated_at: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      });
+      await batch.commit();
+
+      logger.info(unlink ? "Alert device unlinked" : "🔗 Alert device linked", {
+        uid: auth.uid,
+        deviceId,
+        subscriptions: snapshot.size,
+      });
+
+      return { success: true, subscriptions: snapshot.size };
+    } catch (error: any) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      logger.error("❌ Error linking alert device:", error);
+      throw new HttpsError("internal", "Failed to link alert device");
+    }
+  }
+);
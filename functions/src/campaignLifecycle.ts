@@ -0,0 +1,203 @@
+// ============================================================================
+// CLOUD FUNCTIONS: Campaign Lifecycle (start/end dates)
+// Location: functions/src/campaignLifecycle.ts
+// ============================================================================
+// Campaigns can set `starts_at` / `ends_at` as either a Firestore Timestamp or
+// a wall-clock string in the mosque timezone:
+//   starts_at: "2025-03-01"        // Midnight at the start of that day
+//   ends_at: "2025-03-30"          // Midnight at the end of that day
+//   ends_at: "2025-03-30T21:00"    // Exact local time
+//
+// Status flow: "scheduled" -> "active" (also made visible in the app) -> "completed"
+// "completed" is also used when a campaign auto-closes on reaching its goal.
+
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { HttpsError } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import { getMosqueTimezone, zonedTimeToUtc } from "./utils/timezone";
+import { sendCampaignEndingSoonNotification } from "./notifications/campaignEndingSoon";
+
+const db = admin.firestore();
+
+const ENDING_SOON_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Resolve a campaign start/end value to an instant.
+ * Date-only strings resolve to the start of the day, or the end of the day
+ * when `endOfDay` is set, in the mosque timezone.
+ */
+export function resolveCampaignDate(
+  value: unknown,
+  timeZone: string,
+  endOfDay: boolean
+): Date | null {
+  if (!value) return null;
+
+  if (value instanceof admin.firestore.Timestamp) {
+    return value.toDate();
+  }
+
+  if (typeof value !== "string") return null;
+
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2}))?$/);
+  if (!match) {
+    logger.warn("Invalid campaign date", { value });
+    return null;
+  }
+
+  const [, year, month, day, hour, minute] = match;
+  if (hour === undefined) {
+    return zonedTimeToUtc(+year, +month, +day + (endOfDay ? 1 : 0), 0, 0, timeZone);
+  }
+  return zonedTimeToUtc(+year, +month, +day, +hour, +minute, timeZone);
+}
+
+/**
+ * Why a campaign can't accept donations right now, or null if it can.
+ * Dates are checked directly so donations are rejected even between
+ * scheduler runs.
+ */
+function getCampaignClosedReason(
+  campaignData: FirebaseFirestore.DocumentData,
+  now: Date,
+  timeZone: string
+): string | null {
+  if (campaignData.is_visible_in_app === false) {
+    return "This campaign is not currently accepting donations";
+  }
+
+  // Campaigns created before the lifecycle existed may not have a status
+  if (campaignData.status && campaignData.status !== "active" && campaignData.status !== "scheduled") {
+    return "This campaign has closed";
+  }
+
+  const startsAt = resolveCampaignDate(campaignData.starts_at, timeZone, false);
+  if ((startsAt && now < startsAt) || (!startsAt && campaignData.status === "scheduled")) {
+    return "This campaign has not started yet";
+  }
+
+  const endsAt = resolveCampaignDate(campaignData.ends_at, timeZone, true);
+  if (endsAt && now >= endsAt) {
+    return "This campaign has closed";
+  }
+
+  return null;
+}
+
+/**
+ * Throws if donations to the campaign aren't allowed (used by createPaymentIntent)
+ */
+export async function assertCampaignAcceptingDonations(campaignId: string) {
+  const campaignDoc = await db.collection("campaigns").doc(campaignId).get();
+
+  if (!campaignDoc.exists) {
+    throw new HttpsError("not-found", "Campaign not found");
+  }
+
+  const reason = getCampaignClosedReason(
+    campaignDoc.data() || {},
+    new Date(),
+    await getMosqueTimezone()
+  );
+
+  if (reason) {
+    logger.info("⏭️ SKIP: Donation rejected for closed campaign", { campaignId, reason });
+    throw new HttpsError("failed-precondition", reason);
+  }
+}
+
+// ============================================================================
+// SCHEDULED FUNCTION: Activate, Remind & Close Campaigns
+// ============================================================================
+
+export const processCampaignLifecycle = onSchedule({
+  schedule: "*/15 * * * *", // Every 15 minutes
+  timeZone: "Australia/Sydney",
+  region: "australia-southeast1",
+}, async () => {
+  try {
+    logger.info("💚 Processing campaign lifecycle...");
+
+    const timeZone = await getMosqueTimezone();
+    const now = new Date();
+
+    const snapshot = await db
+      .collection("campaigns")
+      .where("status", "in", ["scheduled", "active"])
+      .get();
+
+    let activated = 0;
+    let closed = 0;
+    let reminded = 0;
+
+    for (const doc of snapshot.docs) {
+      const campaign = doc.data();
+      const startsAt = resolveCampaignDate(campaign.starts_at, timeZone, false);
+      const endsAt = resolveCampaignDate(campaign.ends_at, timeZone, true);
+
+      // Close campaigns past their end date (including ones that never activated)
+      if (endsAt && now >= endsAt) {
+        await doc.ref.update({
+          status: "completed",
+          closed_at: admin.firestore.FieldValue.serverTimestamp(),
+          closed_reason: "ended",
+          updated_at: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        closed++;
+        logger.info("✅ Campaign closed", { campaignId: doc.id, endsAt: endsAt.toISOString() });
+        continue;
+      }
+
+      if (campaign.status === "scheduled") {
+        if (!startsAt || now < startsAt) continue;
+
+        await doc.ref.update({
+          status: "active",
+          is_visible_in_app: true,
+          activated_at: admin.firestore.FieldValue.serverTimestamp(),
+          updated_at: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        activated++;
+        logger.info("✅ Campaign activated", { campaignId: doc.id, startsAt: startsAt.toISOString() });
+      }
+
+      // "Last 24 hours" reminder - claimed in a transaction so it only goes out once
+      if (
+        endsAt &&
+        endsAt.getTime() - now.getTime() <= ENDING_SOON_WINDOW_MS &&
+        campaign.is_visible_in_app !== false &&
+        !campaign.ending_reminder_sent_at
+      ) {
+        const claimed = await db.runTransaction(async (transaction) => {
+          const current = await transaction.get(doc.ref);
+          if (current.data()?.ending_reminder_sent_at) {
+            return false;
+          }
+          transaction.update(doc.ref, {
+            ending_reminder_sent_at: admin.firestore.FieldValue.serverTimestamp(),
+          });
+          return true;
+        });
+
+        if (claimed) {
+          await sendCampaignEndingSoonNotification(doc.id, campaign, endsAt);
+          reminded++;
+        }
+      }
+    }
+
+    logger.info("✅ Campaign lifecycle processed", {
+      checked: snapshot.size,
+      activated,
+      closed,
+      reminded,
+    });
+  } catch (error: any) {
+    logger.error("❌ Error processing campaign lifecycle:", error);
+  }
+});
@@ -5,6 +5,7 @@
 
 import { onDocumentDeleted } from "firebase-functions/v2/firestore";
 import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
 import { deleteFolderContents, parseStorageRef } from "../utils/imageHelpers";
 
 export const onNotificationLogDeleted = onDocumentDeleted(
@@ -27,6 +28,11 @@ export const onNotificationLogDeleted = onDocumentDeleted(
         title: logData.title,
       });
 
+      // Engagement receipts (notificationEngagement.ts) aren't deleted with the log
+      if (event.data) {
+        await admin.firestore().recursiveDelete(event.data.ref.collection("receipts"));
+      }
+
       // Check if the notification had an image
       const imageUrl: string | undefined =
         (logData.data?.imageUrl as string | undefined) ?? (logData.imageUrl as string | undefined);
@@ -0,0 +1,544 @@
+// ============================================================================
+// CLOUD FUNCTIONS: DISPUTE (CHARGEBACK) EVIDENCE WORKFLOW
+// Location: mosque_app_functions/src/disputes.ts
+// ============================================================================
+// Every Stripe dispute is mirrored to `disputes/{disputeId}` by the
+// charge.dispute.* webhooks (see webhooks.ts). Admins are reminded before
+// `evidence_details.due_by` and can submit evidence from the dashboard.
+//
+// donationSettings/config.disputes:
+//   pause_subscriptions: "never" | "always" | "fraudulent"   // Default "never"
+//   resume_on_win: true              // Resume subscriptions paused by a won dispute
+//   reminder_hours: [72, 24]         // Hours before due_by to remind admins
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import Stripe from "stripe";
+import { Permission } from "./utils/roles";
+import { requirePermission } from "./utils/authorization";
+import { timestampToString } from "./utils/messagingHelpers";
+import { getMosqueTimezone, toZonedDateString } from "./utils/timezone";
+import { disputeEvidenceReminderEmail } from "./utils/emailTemplates";
+import { sendAdminAlert } from "./alerts";
+import { buildDonationReceiptPdf } from "./receipts";
+import { formatAmount } from "./emails/index.js";
+
+const db = admin.firestore();
+
+// Statuses where Stripe is still waiting on evidence from us
+const AWAITING_EVIDENCE_STATUSES = ["needs_response", "warning_needs_response"];
+
+const CLOSED_STATUSES = ["won", "lost", "warning_closed"];
+
+const DEFAULT_REMINDER_HOURS = [72, 24];
+
+// Stripe's limit for each evidence text field
+const MAX_EVIDENCE_TEXT_LENGTH = 20000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type SubscriptionPausePolicy = "never" | "always" | "fraudulent";
+
+interface DisputeSettings {
+  pauseSubscriptions: SubscriptionPausePolicy;
+  resumeOnWin: boolean;
+  reminderHours: number[];
+}
+
+interface SubmitDisputeEvidenceRequest {
+  disputeId: string;
+  uncategorizedText?: string;
+  productDescription?: string;
+  customerCommunication?: string;
+  refundPolicyDisclosure?: string;
+  attachReceipt?: boolean; // Default true - upload the donation receipt PDF
+  submit?: boolean; // Default true - false saves the evidence as a draft in Stripe
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function getDisputeSettings(): Promise<DisputeSettings> {
+  const settingsDoc = await db.collection("donationSettings").doc("config").get();
+  const config = settingsDoc.data()?.disputes || {};
+
+  const pauseSubscriptions: SubscriptionPausePolicy =
+    config.pause_subscriptions === "always" || config.pause_subscriptions === "fraudulent"
+      ? config.pause_subscriptions
+      : "never";
+
+  const reminderHours = Array.isArray(config.reminder_hours)
+    ? config.reminder_hours.filter((h: unknown) => typeof h === "number" && h > 0)
+    : DEFAULT_REMINDER_HOURS;
+
+  return {
+    pauseSubscriptions,
+    resumeOnWin: config.resume_on_win !== false,
+    reminderHours,
+  };
+}
+
+function getId(value: string | { id: string } | null | undefined): string | null {
+  if (!value) return null;
+  return typeof value === "string" ? value : value.id;
+}
+
+/**
+ * Upsert disputes/{disputeId} from a Stripe dispute.
+ * The linked donation is passed in on charge.dispute.created; later events
+ * reuse the donation id already stored on the dispute record.
+ * @returns The linked donation id, if any
+ */
+export async function recordDispute(
+  dispute: Stripe.Dispute,
+  donationDoc?: FirebaseFirestore.DocumentSnapshot | null
+): Promise<string | null> {
+  const disputeRef = db.collection("disputes").doc(dispute.id);
+  const existing = await disputeRef.get();
+  const existingData = existing.data();
+
+  const updates: Record<string, any> = {
+    id: dispute.id,
+    charge_id: getId(dispute.charge),
+    payment_intent_id: getId(dispute.payment_intent),
+    amount: dispute.amount,
+    currency: dispute.currency.toUpperCase(),
+    reason: dispute.reason,
+    status: dispute.status,
+    evidence_due_by: dispute.evidence_details.due_by
+      ? admin.firestore.Timestamp.fromMillis(dispute.evidence_details.due_by * 1000)
+      : null,
+    has_evidence: dispute.evidence_details.has_evidence,
+    past_due: dispute.evidence_details.past_due,
+    submission_count: dispute.evidence_details.submission_count,
+    is_charge_refundable: dispute.is_charge_refundable,
+    updated_at: admin.firestore.FieldValue.serverTimestamp(),
+  };
+
+  if (!existing.exists) {
+    updates.reminders_sent = [];
+    updates.disputed_at = admin.firestore.Timestamp.fromMillis(dispute.created * 1000);
+    updates.created_at = admin.firestore.FieldValue.serverTimestamp();
+  }
+
+  if (CLOSED_STATUSES.includes(dispute.status) && !existingData?.closed_at) {
+    updates.closed_at = admin.firestore.FieldValue.serverTimestamp();
+  }
+
+  if (donationDoc?.exists) {
+    const donation = donationDoc.data()!;
+    updates.donation_id = donationDoc.id;
+    updates.receipt_number = donation.receipt_number || null;
+    updates.donor_name = donation.donor_name || null;
+    updates.donor_email = donation.donor_email || null;
+    updates.stripe_subscription_id = donation.stripe_subscription_id || null;
+  }
+
+  await disputeRef.set(updates, { merge: true });
+
+  return updates.donation_id || existingData?.donation_id || null;
+}
+
+/**
+ * Pause the subscription behind a disputed recurring donation, if the
+ * configured policy says so. Collection is paused (not cancelled) so the
+ * subscription can be resumed if the dispute is won.
+ */
+export async function applyDisputeSubscriptionPolicy(
+  dispute: Stripe.Dispute,
+  subscriptionId: string,
+  stripe: Stripe
+) {
+  const settings = await getDisputeSettings();
+
+  const shouldPause =
+    settings.pauseSubscriptions === "always" ||
+    (settings.pauseSubscriptions === "fraudulent" && dispute.reason === "fraudulent");
+
+  if (!shouldPause) {
+    logger.warn("⚠️ Subscription related to dispute - consider manual review", {
+      subscriptionId,
+      disputeId: dispute.id,
+      policy: settings.pauseSubscriptions,
+    });
+    return;
+  }
+
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+  if (subscription.status === "canceled" || subscription.pause_collection) {
+    logger.info("⏭️ SKIP: Subscription already cancelled or paused", {
+      subscriptionId,
+      status: subscription.status,
+    });
+    return;
+  }
+
+  await stripe.subscriptions.update(subscriptionId, {
+    pause_collection: { behavior: "mark_uncollectible" },
+    metadata: { paused_by_dispute_id: dispute.id },
+  });
+
+  await db.collection("recurringDonations").doc(subscriptionId).update({
+    paused_by_dispute_id: dispute.id,
+    updated_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  await db.collection("disputes").doc(dispute.id).update({
+    subscription_paused: true,
+    subscription_paused_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  logger.info("⏸️ Subscription paused due to dispute", {
+    subscriptionId,
+    disputeId: dispute.id,
+  });
+}
+
+/**
+ * Resume a subscription this dispute paused, once the dispute is won
+ */
+export async function resumeDisputePausedSubscription(
+  dispute: Stripe.Dispute,
+  stripe: Stripe
+) {
+  const disputeDoc = await db.collection("disputes").doc(dispute.id).get();
+  const disputeData = disputeDoc.data();
+  const subscriptionId = disputeData?.stripe_subscription_id;
+
+  if (!subscriptionId || !disputeData?.subscription_paused || disputeData.subscription_resumed_at) {
+    return;
+  }
+
+  const settings = await getDisputeSettings();
+  if (!settings.resumeOnWin) {
+    logger.info("⏭️ SKIP: Resuming subscriptions after won disputes is disabled", {
+      subscriptionId,
+      disputeId: dispute.id,
+    });
+    return;
+  }
+
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+
+  // Only undo our own pause - an admin or donor may have paused it since
+  if (subscription.status === "canceled" ||
+    subscription.metadata?.paused_by_dispute_id !== dispute.id) {
+    return;
+  }
+
+  await stripe.subscriptions.update(subscriptionId, {
+    pause_collection: "",
+    metadata: { paused_by_dispute_id: "" },
+  });
+
+  await db.collection("recurringDonations").doc(subscriptionId).update({
+    paused_by_dispute_id: admin.firestore.FieldValue.delete(),
+    updated_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  await disputeDoc.ref.update({
+    subscription_resumed_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  logger.info("▶️ Subscription resumed after dispute won", {
+    subscriptionId,
+    disputeId: dispute.id,
+  });
+}
+
+// ============================================================================
+// FUNCTION 1: List Disputes (Admin Dashboard)
+// ============================================================================
+
+export const listDisputes = onCall(
+  {
+    region: "australia-southeast1",
+    cors: true,
+  },
+  async (request) => {
+    requirePermission(
+      request,
+      [Permission.VIEW_DONATIONS, Permission.MANAGE_DISPUTES],
+      "You do not have permission to view disputes"
+    );
+
+    const { status } = (request.data || {}) as { status?: "open" | "closed" };
+
+    if (status !== undefined && status !== "open" && status !== "closed") {
+      throw new HttpsError("invalid-argument", "Status must be open or closed");
+    }
+
+    try {
+      const snapshot = await db
+        .collection("disputes")
+        .orderBy("disputed_at", "desc")
+        .limit(200)
+        .get();
+
+      const disputes = snapshot.docs
+        .map((doc) => {
+          const data = doc.data();
+          return {
+            id: doc.id,
+            status: data.status,
+            reason: data.reason,
+            amount: data.amount,
+            currency: data.currency,
+            donationId: data.donation_id || null,
+            receiptNumber: data.receipt_number || null,
+            donorName: data.donor_name || null,
+            donorEmail: data.donor_email || null,
+            evidenceDueBy: data.evidence_due_by?.toDate()?.toISOString() ?? null,
+            hasEvidence: !!data.has_evidence,
+            awaitingEvidence: AWAITING_EVIDENCE_STATUSES.includes(data.status),
+            subscriptionId: data.stripe_subscription_id || null,
+            subscriptionPaused: !!data.subscription_paused,
+            disputedAt: data.disputed_at?.toDate()?.toISOString() ?? null,
+            closedAt: data.closed_at?.toDate()?.toISOString() ?? null,
+          };
+        })
+        .filter((dispute) => {
+          if (!status) return true;
+          const closed = CLOSED_STATUSES.includes(dispute.status);
+          return status === "closed" ? closed : !closed;
+        });
+
+      return { disputes };
+    } catch (error: any) {
+      logger.error("❌ Error listing disputes:", error);
+      throw new HttpsError("internal", "Failed to list disputes");
+    }
+  }
+);
+
+// ============================================================================
+// FUNCTION 2: Submit Dispute Evidence (Admin Dashboard)
+// ============================================================================
+// Donor name/email, service date and the receipt PDF are filled in from the
+// donation record; admins add the explanatory text.
+
+export const submitDisputeEvidence = onCall(
+  {
+    region: "australia-southeast1",
+    cors: true,
+    timeoutSeconds: 120,
+    secrets: ["STRIPE_SECRET_KEY"],
+  },
+  async (request) => {
+    const auth = requirePermission(
+      request,
+      Permission.MANAGE_DISPUTES,
+      "You do not have permission to respond to disputes"
+    );
+
+    const {
+      disputeId,
+      uncategorizedText,
+      productDescription,
+      customerCommunication,
+      refundPolicyDisclosure,
+      attachReceipt = true,
+      submit = true,
+    } = (request.data || {}) as SubmitDisputeEvidenceRequest;
+
+    if (!disputeId || typeof disputeId !== "string" || !disputeId.startsWith("dp_")) {
+      throw new HttpsError("invalid-argument", "A valid dispute ID is required");
+    }
+
+    const textFields = { uncategorizedText, productDescription, customerCommunication, refundPolicyDisclosure };
+    for (const [field, value] of Object.entries(textFields)) {
+      if (value !== undefined && (typeof value !== "string" || value.length > MAX_EVIDENCE_TEXT_LENGTH)) {
+        throw new HttpsError(
+          "invalid-argument",
+          `${field} must be text of at most ${MAX_EVIDENCE_TEXT_LENGTH} characters`
+        );
+      }
+    }
+
+    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "", {
+      apiVersion: "2023-10-16",
+    });
+
+    try {
+      const disputeDoc = await db.collection("disputes").doc(disputeId).get();
+      if (!disputeDoc.exists) {
+        throw new HttpsError("not-found", "Dispute not found");
+      }
+
+      const dispute = await stripe.disputes.retrieve(disputeId);
+      if (!AWAITING_EVIDENCE_STATUSES.includes(dispute.status)) {
+        throw new HttpsError(
+          "failed-precondition",
+          `Evidence can't be submitted for a dispute with status "${dispute.status}"`
+        );
+      }
+
+      const donationId: string | undefined = disputeDoc.data()?.donation_id;
+      const donationDoc = donationId
+        ? await db.collection("donations").doc(donationId).get()
+        : null;
+      const donation = donationDoc?.data();
+
+      const evidence: Stripe.DisputeUpdateParams.Evidence = {};
+
+      if (donation) {
+        evidence.customer_name = donation.donor_name || undefined;
+        evidence.customer_email_address = donation.donor_email || undefined;
+        // Webhook-written donations store a Timestamp, older ones a YYYY-MM-DD string
+        evidence.service_date = typeof donation.date === "string"
+          ? donation.date
+          : donation.date?.toDate
+            ? toZonedDateString(donation.date.toDate(), await getMosqueTimezone())
+            : undefined;
+        evidence.product_description = `Charitable donation - ${donation.donation_type_label || "General Donation"}` +
+          (donation.receipt_number ? ` (receipt ${donation.receipt_number})` : "");
+      }
+
+      if (productDescription) evidence.product_description = productDescription;
+      if (uncategorizedText) evidence.uncategorized_text = uncategorizedText;
+      if (customerCommunication) evidence.customer_communication = customerCommunication;
+      if (refundPolicyDisclosure) evidence.refund_policy_disclosure = refundPolicyDisclosure;
+
+      if (attachReceipt && donationId) {
+        const receipt = await buildDonationReceiptPdf(donationId);
+        if (receipt) {
+          const file = await stripe.files.create({
+            purpose: "dispute_evidence",
+            file: {
+              data: receipt.content,
+              name: receipt.filename,
+              type: "application/pdf",
+            },
+          });
+          evidence.receipt = file.id;
+        }
+      }
+
+      const updated = await stripe.disputes.update(disputeId, { evidence, submit });
+      await recordDispute(updated);
+
+      await disputeDoc.ref.update({
+        evidence_submitted_at: submit ? admin.firestore.FieldValue.serverTimestamp() : null,
+        evidence_updated_by: auth.uid,
+      });
+
+      await db.collection("adminLogs").add({
+        action: submit ? "dispute_evidence_submitted" : "dispute_evidence_saved",
+        disputeId,
+        donationId: donationId || null,
+        receiptAttached: !!evidence.receipt,
+        performedBy: auth.uid,
+        performedByEmail: auth.token.email || "unknown",
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      logger.info("✅ Dispute evidence sent to Stripe", {
+        disputeId,
+        submitted: submit,
+        receiptAttached: !!evidence.receipt,
+      });
+
+      return {
+        success: true,
+        status: updated.status,
+        submitted: submit,
+        receiptAttached: !!evidence.receipt,
+      };
+    } catch (error: any) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      logger.error("❌ Error submitting dispute evidence:", error);
+      throw new HttpsError("internal", error.message || "Failed to submit dispute evidence");
+    }
+  }
+);
+
+// ============================================================================
+// SCHEDULED FUNCTION: Remind Admins Before Evidence Is Due
+// ============================================================================
+
+export const sendDisputeEvidenceReminders = onSchedule({
+  schedule: "0 * * * *", // Every hour
+  timeZone: "Australia/Sydney",
+  region: "australia-southeast1",
+  secrets: ["RESEND_API_KEY"],
+}, async () => {
+  try {
+    logger.info("⏰ Checking dispute evidence deadlines...");
+
+    const settings = await getDisputeSettings();
+    const snapshot = await db
+      .collection("disputes")
+      .where("status", "in", AWAITING_EVIDENCE_STATUSES)
+      .get();
+
+    const now = Date.now();
+    let sent = 0;
+
+    for (const doc of snapshot.docs) {
+      const data = doc.data();
+      const dueBy: Date | undefined = data.evidence_due_by?.toDate?.();
+      if (!dueBy) continue;
+
+      const hoursRemaining = (dueBy.getTime() - now) / (60 * 60 * 1000);
+      if (hoursRemaining <= 0) continue;
+
+      // Send one reminder for the tightest window reached, and mark every
+      // window reached so a late first run doesn't send several at once
+      const remindersSent: number[] = data.reminders_sent || [];
+      const due = settings.reminderHours.filter(
+        (hours) => hoursRemaining <= hours && !remindersSent.includes(hours)
+      );
+      if (due.length === 0) continue;
+
+      const emailData = await disputeEvidenceReminderEmail({
+        disputeId: doc.id,
+        disputeAmount: formatAmount(data.amount || 0, data.currency || "AUD"),
+        disputeReason: data.reason || "unknown",
+        disputeDueDate: await timestampToString(data.evidence_due_by),
+        hoursRemaining: Math.max(Math.floor(hoursRemaining), 1),
+        donorName: data.donor_name || "Unknown",
+        receiptNumber: data.receipt_number || "N/A",
+        hasEvidence: !!data.has_evidence,
+      });
+
+      const alertSent = await sendAdminAlert({
+        type: "dispute",
+        title: `Dispute evidence due in ${Math.max(Math.floor(hoursRemaining), 1)} hours`,
+        message: `Evidence for the ${formatAmount(data.amount || 0, data.currency || "AUD")} dispute on receipt ${data.receipt_number || "N/A"} is due soon.`,
+        email: emailData,
+        data: { disputeId: doc.id },
+      });
+
+      if (!alertSent) {
+        // Leave reminders_sent unchanged so the next run tries again
+        logger.error("❌ Failed to send dispute evidence reminder", { disputeId: doc.id });
+        continue;
+      }
+
+      await doc.ref.update({
+        reminders_sent: admin.firestore.FieldValue.arrayUnion(...due),
+        last_reminder_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      sent++;
+
+      logger.info("✅ Dispute evidence reminder sent", {
+        disputeId: doc.id,
+        hoursRemaining: Math.floor(hoursRemaining),
+      });
+    }
+
+    logger.info("✅ Dispute evidence reminders processed", {
+      awaitingEvidence: snapshot.size,
+      sent,
+    });
+  } catch (error: any) {
+    logger.error("❌ Error sending dispute evidence reminders:", error);
+  }
+});
@@ -3,10 +3,28 @@
 // Location: mosque_app_functions/src/donations.ts
 // ============================================================================
 
-import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onCall, HttpsError, CallableRequest } from "firebase-functions/v2/https";
 import { logger } from "firebase-functions";
 import * as admin from "firebase-admin";
 import Stripe from "stripe";
+import { Permission } from "./utils/roles";
+import { callerHasPermission, requireAuth } from "./utils/authorization";
+import {
+  getAllowedCurrencies,
+  getDefaultCurrency,
+  resolveDonationCurrency,
+  toMajorUnits,
+} from "./utils/currency";
+import {
+  buildCoveredFeeMetadata,
+  calculateCoveredFee,
+  getProcessingFeeSettings,
+} from "./utils/fees";
+import { isValidEmail, normalizeEmail } from "./utils/emailTemplates";
+import { type DonationFund, resolveDonationFund } from "./zakat";
+import { assertCampaignAcceptingDonations } from "./campaignLifecycle";
+import { callerOwnsDonationRecord, linkDonorCustomer } from "./donorProfiles";
+import { getMosqueTimezone, zonedTimeToUtc } from "./utils/timezone";
 
 // NOTE: Stripe is initialized lazily in each function to ensure secrets are available
 const db = admin.firestore();
@@ -114,8 +132,55 @@ async function getOrCreateAnonymousCustomer(
 // FUNCTION 1: Create Payment Intent (One-Time Donation)
 // ============================================================================
 
+interface DonationDedication {
+  type: "in_memory_of" | "on_behalf_of";
+  honoree_name: string;
+  recipient_email?: string; // Sent a DedicationNotification email
+  message?: string;
+}
+
+const DEDICATION_TYPES = ["in_memory_of", "on_behalf_of"];
+
+/**
+ * Validates a dedication and converts it to Stripe metadata (values max 500 chars)
+ */
+function buildDedicationMetadata(dedication?: DonationDedication): Record<string, string> {
+  if (!dedication) {
+    return {};
+  }
+
+  if (!DEDICATION_TYPES.includes(dedication.type)) {
+    throw new HttpsError("invalid-argument", "Dedication type must be in_memory_of or on_behalf_of");
+  }
+
+  const honoreeName = typeof dedication.honoree_name === "string" ? dedication.honoree_name.trim() : "";
+  if (!honoreeName || honoreeName.length > 100) {
+    throw new HttpsError("invalid-argument", "Dedication honoree name is required (max 100 characters)");
+  }
+
+  if (dedication.recipient_email && !isValidEmail(dedication.recipient_email)) {
+    throw new HttpsError("invalid-argument", "Invalid dedication recipient email");
+  }
+
+  if (dedication.message !== undefined &&
+    (typeof dedication.message !== "string" || dedication.message.length > 500)) {
+    throw new HttpsError("invalid-argument", "Dedication message must be at most 500 characters");
+  }
+
+  return {
+    dedication_type: dedication.type,
+    dedication_honoree_name: honoreeName,
+    dedication_recipient_email: dedication.recipient_email
+      ? normalizeEmail(dedication.recipient_email)
+      : "",
+    dedication_message: dedication.message?.trim() || "",
+  };
+}
+
 interface CreatePaymentIntentRequest {
   amount: number; // In cents
+  currency?: string; // ISO code from donationSettings/config currencies (defaults to default_currency)
+  cover_fees?: boolean; // Donor pays the processing fee on top of `amount`
   donor_name: string;
   donor_email: string;
   donor_phone?: string;
@@ -123,6 +188,8 @@ interface CreatePaymentIntentRequest {
   donation_type_label: string;
   campaign_id?: string;
   donor_message?: string;
+  dedication?: DonationDedication; // "In memory of" / "on behalf of"
+  fund?: DonationFund; // "zakat" is kept separate from general donations
 }
 
 export const createPaymentIntent = onCall(
@@ -146,14 +213,26 @@ export const createPaymentIntent = onCall(
         .doc("config")
         .get();
       const settingsData = settings.data();
-      const minAmount = (settingsData?.minimum_amount ?? 1) * 100; // Convert to cents, default 1 if not set
-
-      if (data.amount < minAmount) {
-        throw new HttpsError(
-          "invalid-argument",
-          `Minimum donation is $${(minAmount / 100).toFixed(2)}`
-        );
+      const currency = resolveDonationCurrency(settingsData, data.currency, data.amount);
+
+      // `amount` is the intended gift - gross it up when the donor covers fees
+      const coveredFee = data.cover_fees === true
+        ? calculateCoveredFee(
+          data.amount,
+          getProcessingFeeSettings(settingsData, currency.code)
+        )
+        : null;
+      const chargeAmount = coveredFee?.grossAmount ?? data.amount;
+      const dedicationMetadata = buildDedicationMetadata(data.dedication);
+      if (data.campaign_id) {
+        await assertCampaignAcceptingDonations(data.campaign_id);
       }
+      const fund = await resolveDonationFund(
+        settingsData,
+        data.fund,
+        data.donation_type_id,
+        data.campaign_id
+      );
 
       // Determine if donation is anonymous using robust helper
       const isAnonymous = isAnonymousDonation(data.donor_email, data.donor_name);
@@ -187,12 +266,15 @@ export const createPaymentIntent = onCall(
           customerId = customer.id;
           logger.info("Created new customer", { customerId });
         }
+
+        // Signed-in donors get this customer linked to their donor profile
+        await linkDonorCustomer(request.auth, data.donor_email, customerId);
       }
 
       // Create payment intent
       const paymentIntent = await stripe.paymentIntents.create({
-        amount: data.amount,
-        currency: "aud",
+        amount: chargeAmount,
+        currency: currency.code.toLowerCase(),
         customer: customerId,
         metadata: {
           donor_name: data.donor_name,
@@ -201,9 +283,13 @@ export const createPaymentIntent = onCall(
           donation_type_id: data.donation_type_id,
           donation_type_label: data.donation_type_label,
           campaign_id: data.campaign_id || "",
+          fund,
           donor_message: data.donor_message || "",
           is_recurring: "false",
           is_anonymous: isAnonymous.toString(),
+          donor_uid: (!isAnonymous && request.auth?.uid) || "", // Anonymous gifts stay unlinked
+          ...buildCoveredFeeMetadata(coveredFee),
+          ...dedicationMetadata,
         },
         description: `Donation to ${data.donation_type_label}`,
         receipt_email: isAnonymous ? undefined : data.donor_email,
@@ -211,16 +297,23 @@ export const createPaymentIntent = onCall(
 
       logger.info("Payment intent created", {
         paymentIntentId: paymentIntent.id,
-        amount: data.amount,
+        amount: chargeAmount,
+        giftAmount: data.amount,
+        currency: currency.code,
         donor: data.donor_email,
       });
 
       return {
         clientSecret: paymentIntent.client_secret,
         paymentIntentId: paymentIntent.id,
+        amount: chargeAmount,
+        feeAmount: coveredFee?.feeAmount ?? 0,
       };
     } catch (error: any) {
       logger.error("Error creating payment intent", error);
+      if (error instanceof HttpsError) {
+        throw error;
+      }
       throw new HttpsError("internal", error.message);
     }
   }
@@ -230,15 +323,31 @@ export const createPaymentIntent = onCall(
 // FUNCTION 2: Create Subscription (Recurring Donation)
 // ============================================================================
 
+type SubscriptionFrequency = "weekly" | "fortnightly" | "monthly" | "yearly";
+
+// Map frequency to Stripe interval
+const FREQUENCY_INTERVALS: Record<
+  SubscriptionFrequency,
+  { interval: Stripe.Price.Recurring.Interval; interval_count: number }
+> = {
+  weekly: { interval: "week", interval_count: 1 },
+  fortnightly: { interval: "week", interval_count: 2 },
+  monthly: { interval: "month", interval_count: 1 },
+  yearly: { interval: "year", interval_count: 1 },
+};
+
 interface CreateSubscriptionRequest {
   amount: number; // In cents
-  frequency: "weekly" | "fortnightly" | "monthly" | "yearly";
+  currency?: string; // ISO code from donationSettings/config currencies (defaults to default_currency)
+  cover_fees?: boolean; // Donor pays the processing fee on top of `amount`
+  frequency: SubscriptionFrequency;
   donor_name: string;
   donor_email: string;
   donor_phone?: string;
   donation_type_id: string;
   donation_type_label: string;
   campaign_id?: string;
+  fund?: DonationFund; // "zakat" is kept separate from general donations
 }
 
 export const createSubscription = onCall(
@@ -262,14 +371,25 @@ export const createSubscription = onCall(
         .doc("config")
         .get();
       const settingsData = settings.data();
-      const minAmount = (settingsData?.minimum_amount ?? 1) * 100; // Convert to cents, default 1 if not set
-
-      if (data.amount < minAmount) {
-        throw new HttpsError(
-          "invalid-argument",
-          `Minimum donation is $${(minAmount / 100).toFixed(2)}`
-        );
+      const currency = resolveDonationCurrency(settingsData, data.currency, data.amount);
+
+      // `amount` is the intended gift - gross it up when the donor covers fees
+      const coveredFee = data.cover_fees === true
+        ? calculateCoveredFee(
+          data.amount,
+          getProcessingFeeSettings(settingsData, currency.code)
+        )
+        : null;
+      const chargeAmount = coveredFee?.grossAmount ?? data.amount;
+      if (data.campaign_id) {
+        await assertCampaignAcceptingDonations(data.campaign_id);
       }
+      const fund = await resolveDonationFund(
+        settingsData,
+        data.fund,
+        data.donation_type_id,
+        data.campaign_id
+      );
 
       // Determine if donation is anonymous using robust helper
       const isAnonymous = isAnonymousDonation(data.donor_email, data.donor_name);
@@ -311,25 +431,17 @@ export const createSubscription = onCall(
             customerId,
           });
         }
-      }
 
-      // Map frequency to Stripe interval
-      const intervalMap: Record<
-        string,
-        { interval: Stripe.Price.Recurring.Interval; interval_count: number }
-      > = {
-        weekly: { interval: "week", interval_count: 1 },
-        fortnightly: { interval: "week", interval_count: 2 },
-        monthly: { interval: "month", interval_count: 1 },
-        yearly: { interval: "year", interval_count: 1 },
-      };
+        // Signed-in donors get this customer linked to their donor profile
+        await linkDonorCustomer(request.auth, data.donor_email, customerId);
+      }
 
-      const { interval, interval_count } = intervalMap[data.frequency];
+      const { interval, interval_count } = FREQUENCY_INTERVALS[data.frequency];
 
       // Create price
       const price = await stripe.prices.create({
-        currency: "aud",
-        unit_amount: data.amount,
+        currency: currency.code.toLowerCase(),
+        unit_amount: chargeAmount,
         recurring: {
           interval,
           interval_count,
@@ -353,9 +465,12 @@ export const createSubscription = onCall(
           donation_type_id: data.donation_type_id,
           donation_type_label: data.donation_type_label,
           campaign_id: data.campaign_id || "",
+          fund,
           frequency: data.frequency,
           is_recurring: "true",
           is_anonymous: isAnonymous.toString(),
+          donor_uid: (!isAnonymous && request.auth?.uid) || "", // Anonymous gifts stay unlinked
+          ...buildCoveredFeeMetadata(coveredFee),
         },
       });
 
@@ -365,7 +480,9 @@ export const createSubscription = onCall(
 
       logger.info("Subscription created", {
         subscriptionId: subscription.id,
-        amount: data.amount,
+        amount: chargeAmount,
+        giftAmount: data.amount,
+        currency: currency.code,
         frequency: data.frequency,
         donor: data.donor_email,
       });
@@ -374,14 +491,56 @@ export const createSubscription = onCall(
         clientSecret: paymentIntent.client_secret,
         subscriptionId: subscription.id,
         customerId: customerId,
+        amount: chargeAmount,
+        feeAmount: coveredFee?.feeAmount ?? 0,
       };
     } catch (error: any) {
       logger.error("Error creating subscription", error);
+      if (error instanceof HttpsError) {
+        throw error;
+      }
       throw new HttpsError("internal", error.message);
     }
   }
 );
 
+// ============================================================================
+// HELPER: Load a Recurring Donation the Caller May Manage
+// ============================================================================
+
+const MAX_PAUSE_DAYS = 365;
+
+/**
+ * Donors may only manage their own subscriptions (linked uid or verified
+ * email); admins with EDIT_DONATION_SETTINGS may manage any.
+ */
+async function getManagedRecurringDonation(
+  auth: NonNullable<CallableRequest["auth"]>,
+  subscriptionId: unknown,
+  action: string
+) {
+  if (!subscriptionId || typeof subscriptionId !== "string") {
+    throw new HttpsError("invalid-argument", "Subscription ID is required");
+  }
+
+  const recurringRef = db.collection("recurringDonations").doc(subscriptionId);
+  const recurringDoc = await recurringRef.get();
+
+  if (!recurringDoc.exists) {
+    throw new HttpsError("not-found", "Subscription not found");
+  }
+
+  const isAdmin = callerHasPermission(auth, Permission.EDIT_DONATION_SETTINGS);
+  if (!isAdmin && !(await callerOwnsDonationRecord(auth, recurringDoc.data() || {}))) {
+    throw new HttpsError(
+      "permission-denied",
+      `You do not have permission to ${action} this subscription`
+    );
+  }
+
+  return { recurringRef, recurringData: recurringDoc.data() || {}, isAdmin };
+}
+
 // ============================================================================
 // FUNCTION 3: Cancel Subscription
 // ============================================================================
@@ -393,9 +552,7 @@ export const cancelSubscription = onCall(
   },
   async (request) => {
     // Verify authenticated user (admin or donor)
-    if (!request.auth) {
-      throw new HttpsError("unauthenticated", "User must be authenticated");
-    }
+    const auth = requireAuth(request);
 
     try {
       // Initialize Stripe with secret from Secret Manager
@@ -405,24 +562,19 @@ export const cancelSubscription = onCall(
 
       const { subscriptionId } = request.data;
 
-      if (!subscriptionId) {
-        throw new HttpsError("invalid-argument", "Subscription ID is required");
-      }
+      const { recurringRef } = await getManagedRecurringDonation(auth, subscriptionId, "cancel");
 
       // Cancel subscription in Stripe
       const subscription = await stripe.subscriptions.cancel(subscriptionId);
 
       // Update Firestore record
-      const recurringRef = db
-        .collection("recurringDonations")
-        .doc(subscriptionId);
       await recurringRef.update({
         status: "cancelled",
         cancelled_at: admin.firestore.FieldValue.serverTimestamp(),
         updated_at: admin.firestore.FieldValue.serverTimestamp(),
       });
 
-      logger.info("Subscription cancelled", { subscriptionId });
+      logger.info("Subscription cancelled", { subscriptionId, cancelledBy: auth.uid });
 
       return {
         success: true,
@@ -430,6 +582,313 @@ export const cancelSubscription = onCall(
       };
     } catch (error: any) {
       logger.error("Error cancelling subscription", error);
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      throw new HttpsError("internal", error.message);
+    }
+  }
+);
+
+// ============================================================================
+// FUNCTION 3b: Pause Subscription
+// ============================================================================
+// Pauses collection with an optional resume date (YYYY-MM-DD, mosque
+// timezone). Invoices during the pause are voided, so nothing is owed when it
+// resumes. Calling again on a paused subscription changes the resume date.
+// The confirmation email is sent by handleSubscriptionUpdated (webhooks.ts).
+
+export const pauseSubscription = onCall(
+  {
+    region: "australia-southeast1",
+    secrets: ["STRIPE_SECRET_KEY"],
+  },
+  async (request) => {
+    const auth = requireAuth(request);
+
+    try {
+      const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "", {
+        apiVersion: "2023-10-16",
+      });
+
+      const { subscriptionId, resumeDate } = request.data as {
+        subscriptionId: string;
+        resumeDate?: string;
+      };
+
+      const { recurringRef, isAdmin } = await getManagedRecurringDonation(
+        auth,
+        subscriptionId,
+        "pause"
+      );
+
+      let resumesAt: Date | null = null;
+      if (resumeDate !== undefined && resumeDate !== null) {
+        const match = typeof resumeDate === "string"
+          ? resumeDate.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+          : null;
+        if (!match) {
+          throw new HttpsError("invalid-argument", "Resume date must be in format YYYY-MM-DD");
+        }
+
+        resumesAt = zonedTimeToUtc(+match[1], +match[2], +match[3], 0, 0, await getMosqueTimezone());
+        const daysAhead = (resumesAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+        if (daysAhead <= 0 || daysAhead > MAX_PAUSE_DAYS) {
+          throw new HttpsError(
+            "invalid-argument",
+            `Resume date must be in the future and within ${MAX_PAUSE_DAYS} days`
+          );
+        }
+      }
+
+      const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+
+      if (subscription.status !== "active" && subscription.status !== "trialing") {
+        throw new HttpsError(
+          "failed-precondition",
+          `A ${subscription.status} subscription can't be paused`
+        );
+      }
+
+      // Dispute holds (disputes.ts) can only be lifted by an admin
+      if (subscription.metadata?.paused_by_dispute_id && !isAdmin) {
+        throw new HttpsError("failed-precondition", "This subscription is on hold - please contact us");
+      }
+
+      const updated = await stripe.subscriptions.update(subscriptionId, {
+        pause_collection: {
+          behavior: "void",
+          ...(resumesAt ? { resumes_at: Math.floor(resumesAt.getTime() / 1000) } : {}),
+        },
+      });
+
+      await recurringRef.update({
+        status: "paused",
+        paused: true,
+        paused_at: admin.firestore.FieldValue.serverTimestamp(),
+        paused_by: auth.uid,
+        pause_resumes_at: resumesAt ? admin.firestore.Timestamp.fromDate(resumesAt) : null,
+        updated_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      logger.info("⏸️ Subscription paused", {
+        subscriptionId,
+        resumesAt: resumesAt?.toISOString() ?? null,
+        pausedBy: auth.uid,
+      });
+
+      return {
+        success: true,
+        subscriptionId: updated.id,
+        resumesAt: resumesAt?.toISOString() ?? null,
+      };
+    } catch (error: any) {
+      logger.error("Error pausing subscription", error);
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      throw new HttpsError("internal", error.message);
+    }
+  }
+);
+
+// ============================================================================
+// FUNCTION 3c: Resume Subscription
+// ============================================================================
+
+export const resumeSubscription = onCall(
+  {
+    region: "australia-southeast1",
+    secrets: ["STRIPE_SECRET_KEY"],
+  },
+  async (request) => {
+    const auth = requireAuth(request);
+
+    try {
+      const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "", {
+        apiVersion: "2023-10-16",
+      });
+
+      const { subscriptionId } = request.data as { subscriptionId: string };
+
+      const { recurringRef, isAdmin } = await getManagedRecurringDonation(
+        auth,
+        subscriptionId,
+        "resume"
+      );
+
+      const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+
+      if (!subscription.pause_collection) {
+        throw new HttpsError("failed-precondition", "This subscription is not paused");
+      }
+
+      if (subscription.metadata?.paused_by_dispute_id && !isAdmin) {
+        throw new HttpsError("failed-precondition", "This subscription is on hold - please contact us");
+      }
+
+      await stripe.subscriptions.update(subscriptionId, {
+        pause_collection: "",
+        ...(subscription.metadata?.paused_by_dispute_id
+          ? { metadata: { paused_by_dispute_id: "" } }
+          : {}),
+      });
+
+      await recurringRef.update({
+        status: subscription.status,
+        paused: false,
+        pause_resumes_at: null,
+        resumed_at: admin.firestore.FieldValue.serverTimestamp(),
+        updated_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      logger.info("▶️ Subscription resumed", { subscriptionId, resumedBy: auth.uid });
+
+      return {
+        success: true,
+        subscriptionId,
+      };
+    } catch (error: any) {
+      logger.error("Error resuming subscription", error);
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      throw new HttpsError("internal", error.message);
+    }
+  }
+);
+
+// ============================================================================
+// FUNCTION 3d: Update Subscription (Amount / Frequency)
+// ============================================================================
+// The billing portal can't edit our ad-hoc prices, so a new price is created
+// and swapped onto the subscription item without proration. The Firestore
+// record and the SubscriptionUpdated email are handled by
+// handleSubscriptionUpdated (webhooks.ts).
+// Note: Stripe resets the billing cycle (and invoices immediately) when the
+// interval changes; amount-only changes apply from the next invoice.
+
+interface UpdateSubscriptionRequest {
+  subscriptionId: string;
+  amount?: number; // Intended gift in cents (defaults to the current gift)
+  frequency?: SubscriptionFrequency;
+  cover_fees?: boolean; // Defaults to the subscription's current choice
+}
+
+export const updateSubscription = onCall(
+  {
+    region: "australia-southeast1",
+    secrets: ["STRIPE_SECRET_KEY"],
+  },
+  async (request) => {
+    const auth = requireAuth(request);
+
+    try {
+      const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "", {
+        apiVersion: "2023-10-16",
+      });
+
+      const data = request.data as UpdateSubscriptionRequest;
+
+      if (data.amount === undefined && data.frequency === undefined && data.cover_fees === undefined) {
+        throw new HttpsError("invalid-argument", "Provide a new amount and/or frequency");
+      }
+      if (data.frequency !== undefined && !FREQUENCY_INTERVALS[data.frequency]) {
+        throw new HttpsError(
+          "invalid-argument",
+          `Frequency must be one of: ${Object.keys(FREQUENCY_INTERVALS).join(", ")}`
+        );
+      }
+
+      await getManagedRecurringDonation(auth, data.subscriptionId, "update");
+
+      const subscription = await stripe.subscriptions.retrieve(data.subscriptionId);
+
+      if (subscription.status !== "active" && subscription.status !== "trialing") {
+        throw new HttpsError(
+          "failed-precondition",
+          `A ${subscription.status} subscription can't be changed`
+        );
+      }
+
+      const item = subscription.items.data[0];
+      const metadata = subscription.metadata || {};
+      const currentFrequency = (metadata.frequency || "monthly") as SubscriptionFrequency;
+      const currentCoverFees = metadata.cover_fees === "true";
+      const currentGift = currentCoverFees && metadata.gift_amount
+        ? parseInt(metadata.gift_amount, 10)
+        : item.price.unit_amount || 0;
+
+      const frequency = data.frequency ?? currentFrequency;
+      const giftAmount = data.amount ?? currentGift;
+      const coverFees = data.cover_fees ?? currentCoverFees;
+
+      if (
+        frequency === currentFrequency &&
+        giftAmount === currentGift &&
+        coverFees === currentCoverFees
+      ) {
+        throw new HttpsError("invalid-argument", "The subscription already has these settings");
+      }
+
+      const settings = await db
+        .collection("donationSettings")
+        .doc("config")
+        .get();
+      const settingsData = settings.data();
+      const currency = resolveDonationCurrency(settingsData, subscription.currency, giftAmount);
+
+      const coveredFee = coverFees
+        ? calculateCoveredFee(
+          giftAmount,
+          getProcessingFeeSettings(settingsData, currency.code)
+        )
+        : null;
+      const chargeAmount = coveredFee?.grossAmount ?? giftAmount;
+
+      const { interval, interval_count } = FREQUENCY_INTERVALS[frequency];
+
+      const price = await stripe.prices.create({
+        currency: currency.code.toLowerCase(),
+        unit_amount: chargeAmount,
+        recurring: {
+          interval,
+          interval_count,
+        },
+        product_data: {
+          name: `Recurring Donation - ${metadata.donation_type_label || "General Donation"}`,
+        },
+      });
+
+      const updated = await stripe.subscriptions.update(data.subscriptionId, {
+        items: [{ id: item.id, price: price.id }],
+        proration_behavior: "none",
+        metadata: {
+          frequency,
+          ...buildCoveredFeeMetadata(coveredFee),
+        },
+      });
+
+      logger.info("🔄 Subscription updated", {
+        subscriptionId: data.subscriptionId,
+        amount: chargeAmount,
+        giftAmount,
+        frequency,
+        updatedBy: auth.uid,
+      });
+
+      return {
+        success: true,
+        subscriptionId: updated.id,
+        amount: chargeAmount,
+        feeAmount: coveredFee?.feeAmount ?? 0,
+        frequency,
+      };
+    } catch (error: any) {
+      logger.error("Error updating subscription", error);
+      if (error instanceof HttpsError) {
+        throw error;
+      }
       throw new HttpsError("internal", error.message);
     }
   }
@@ -511,7 +970,17 @@ export const getDonationSettings = onCall(
         throw new HttpsError("not-found", "Donation settings not found");
       }
 
-      return settingsDoc.data();
+      const settingsData = settingsDoc.data();
+
+      // Always return the resolved currency list so older configs work in the app
+      return {
+        ...settingsData,
+        default_currency: getDefaultCurrency(settingsData),
+        currencies: getAllowedCurrencies(settingsData).map((option) => ({
+          code: option.code,
+          minimum_amount: toMajorUnits(option.minimumAmount, option.code),
+        })),
+      };
     } catch (error: any) {
       logger.error("Error getting donation settings", error);
       throw new HttpsError("internal", error.message);
@@ -0,0 +1,213 @@
+// ============================================================================
+// CLOUD FUNCTIONS: DONOR PROFILES
+// Location: mosque_app_functions/src/donorProfiles.ts
+// ============================================================================
+// Links a signed-in Firebase user to their Stripe customers and verified
+// email addresses, so donation history and subscription management don't
+// rely on whatever email or customer id the client sends.
+//
+// donorProfiles/{uid}:
+//   uid: string
+//   emails: string[]               // Verified, normalized (lowercase)
+//   stripe_customer_ids: string[]
+//   created_at, updated_at
+
+import { onCall, HttpsError, CallableRequest } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import Stripe from "stripe";
+import { requireAuth } from "./utils/authorization";
+import { normalizeEmail } from "./utils/emailTemplates";
+
+const db = admin.firestore();
+
+type AuthData = NonNullable<CallableRequest["auth"]>;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * The caller's email if Firebase Auth has verified it, otherwise null
+ */
+function getVerifiedEmail(auth: AuthData): string | null {
+  return auth.token.email && auth.token.email_verified === true
+    ? normalizeEmail(auth.token.email)
+    : null;
+}
+
+/**
+ * Add verified emails / Stripe customers to a donor profile (creates it if needed)
+ */
+async function addToDonorProfile(
+  uid: string,
+  fields: { email?: string | null; customerId?: string | null }
+) {
+  const updates: Record<string, any> = {
+    uid,
+    updated_at: admin.firestore.FieldValue.serverTimestamp(),
+  };
+
+  if (fields.email) {
+    updates.emails = admin.firestore.FieldValue.arrayUnion(fields.email);
+  }
+  if (fields.customerId) {
+    updates.stripe_customer_ids = admin.firestore.FieldValue.arrayUnion(fields.customerId);
+  }
+
+  const profileRef = db.collection("donorProfiles").doc(uid);
+  await db.runTransaction(async (transaction) => {
+    const profile = await transaction.get(profileRef);
+    if (!profile.exists) {
+      updates.created_at = admin.firestore.FieldValue.serverTimestamp();
+    }
+    transaction.set(profileRef, updates, { merge: true });
+  });
+}
+
+/**
+ * Links a donation's Stripe customer to the signed-in donor (used by
+ * createPaymentIntent / createSubscription). Only links when the donation
+ * email is the caller's own verified email - otherwise anyone could claim
+ * another donor's customer by donating with their address.
+ * Never throws, so a linking failure can't block a donation.
+ */
+export async function linkDonorCustomer(
+  auth: AuthData | undefined,
+  donorEmail: string,
+  customerId: string
+) {
+  if (!auth) return;
+
+  try {
+    const verifiedEmail = getVerifiedEmail(auth);
+
+    if (!verifiedEmail || normalizeEmail(donorEmail) !== verifiedEmail) {
+      logger.info("⏭️ SKIP: Donation email is not the donor's verified email", {
+        uid: auth.uid,
+      });
+      return;
+    }
+
+    await addToDonorProfile(auth.uid, { email: verifiedEmail, customerId });
+
+    logger.info("🔗 Stripe customer linked to donor profile", {
+      uid: auth.uid,
+      customerId,
+    });
+  } catch (error) {
+    logger.error("Error linking donor customer", error);
+  }
+}
+
+/**
+ * Verified emails linked to the caller (including their current verified email)
+ */
+export async function getDonorEmails(auth: AuthData): Promise<string[]> {
+  const profile = await db.collection("donorProfiles").doc(auth.uid).get();
+  const emails = new Set<string>(profile.data()?.emails || []);
+
+  const verifiedEmail = getVerifiedEmail(auth);
+  if (verifiedEmail) {
+    emails.add(verifiedEmail);
+  }
+
+  return Array.from(emails);
+}
+
+/**
+ * Whether the caller owns a Stripe customer. A customer not yet linked is
+ * claimed when its Stripe email matches the caller's verified email.
+ */
+export async function callerOwnsCustomer(
+  auth: AuthData,
+  customerId: string,
+  stripe: Stripe
+): Promise<boolean> {
+  const profile = await db.collection("donorProfiles").doc(auth.uid).get();
+  const linkedCustomers: string[] = profile.data()?.stripe_customer_ids || [];
+
+  if (linkedCustomers.includes(customerId)) {
+    return true;
+  }
+
+  const verifiedEmail = getVerifiedEmail(auth);
+  if (!verifiedEmail) {
+    return false;
+  }
+
+  let customer: Stripe.Customer | Stripe.DeletedCustomer;
+  try {
+    customer = await stripe.customers.retrieve(customerId);
+  } catch (error) {
+    logger.warn("Stripe customer not found", { customerId });
+    return false;
+  }
+
+  // The shared anonymous customer has no email, but never link it regardless
+  if (customer.deleted || customer.metadata?.type === "anonymous" || !customer.email) {
+    return false;
+  }
+
+  if (normalizeEmail(customer.email) !== verifiedEmail) {
+    return false;
+  }
+
+  await addToDonorProfile(auth.uid, { email: verifiedEmail, customerId });
+  logger.info("🔗 Stripe customer claimed by verified email", {
+    uid: auth.uid,
+    customerId,
+  });
+
+  return true;
+}
+
+/**
+ * Whether a donation or recurring donation record belongs to the caller -
+ * linked to their uid, or made with one of their verified emails
+ */
+export async function callerOwnsDonationRecord(
+  auth: AuthData,
+  record: FirebaseFirestore.DocumentData
+): Promise<boolean> {
+  if (record.donor_uid && record.donor_uid === auth.uid) {
+    return true;
+  }
+
+  const donorEmail = record.donor_email ? normalizeEmail(record.donor_email) : null;
+  return !!donorEmail && (await getDonorEmails(auth)).includes(donorEmail);
+}
+
+// ============================================================================
+// FUNCTION: Get Donor Profile (mobile app)
+// ============================================================================
+
+export const getDonorProfile = onCall(
+  {
+    region: "australia-southeast1",
+  },
+  async (request) => {
+    const auth = requireAuth(request);
+
+    try {
+      // Record the caller's verified email so donations made before sign-in show up
+      const verifiedEmail = getVerifiedEmail(auth);
+      if (verifiedEmail) {
+        await addToDonorProfile(auth.uid, { email: verifiedEmail });
+      }
+
+      const profile = await db.collection("donorProfiles").doc(auth.uid).get();
+      const data = profile.data() || {};
+
+      return {
+        uid: auth.uid,
+        emails: data.emails || [],
+        emailVerified: verifiedEmail !== null,
+        stripeCustomerIds: data.stripe_customer_ids || [],
+      };
+    } catch (error: any) {
+      logger.error("Error getting donor profile", error);
+      throw new HttpsError("internal", "Failed to retrieve donor profile");
+    }
+  }
+);
@@ -0,0 +1,163 @@
+// ============================================================================
+// CLOUD FUNCTIONS: DUNNING (FAILED RECURRING DONATIONS)
+// Location: mosque_app_functions/src/dunning.ts
+// ============================================================================
+// Stripe Smart Retries re-attempts failed invoices; invoice.payment_failed
+// (webhooks.ts) records each failure on recurringDonations and emails the donor
+// an escalating PaymentFailed template. This module warns the donor before the
+// final retry. When Stripe gives up and cancels, the subscription is marked
+// "lapsed" and a win-back email is sent.
+//
+// recurringDonations dunning fields:
+//   past_due: boolean
+//   attempts: number                 // Stripe invoice attempt_count
+//   last_failure_reason: string
+//   last_failure_at, next_retry_at
+//   final_retry_at: Timestamp|null   // Set when the next retry is the last one
+//   final_warning_sent_at
+//   dunning_stage: DunningStage
+//
+// donationSettings/config.dunning:
+//   max_attempts: 4                  // Must match Stripe's Smart Retries setting
+//   final_warning_hours: 48          // Warn the donor this long before the final retry
+//   winback_email: true              // Send RecurringLapsed when Stripe cancels
+
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import { paymentFailedEmail, sendEmail } from "./utils/emailTemplates";
+import { formatDisplayDate, getMosqueTimezone } from "./utils/timezone";
+import type { DunningStage } from "./emails/index.js";
+
+const db = admin.firestore();
+
+const DEFAULT_MAX_ATTEMPTS = 4;
+const DEFAULT_FINAL_WARNING_HOURS = 48;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export interface DunningSettings {
+  maxAttempts: number;
+  finalWarningHours: number;
+  winbackEmail: boolean;
+}
+
+export async function getDunningSettings(): Promise<DunningSettings> {
+  const settingsDoc = await db.collection("donationSettings").doc("config").get();
+  const config = settingsDoc.data()?.dunning || {};
+
+  return {
+    maxAttempts: typeof config.max_attempts === "number" && config.max_attempts > 0
+      ? config.max_attempts
+      : DEFAULT_MAX_ATTEMPTS,
+    finalWarningHours: typeof config.final_warning_hours === "number" && config.final_warning_hours > 0
+      ? config.final_warning_hours
+      : DEFAULT_FINAL_WARNING_HOURS,
+    winbackEmail: config.winback_email !== false,
+  };
+}
+
+/**
+ * Dunning stage for a failed invoice attempt.
+ * When the final retry is already inside the warning window, the failure
+ * email doubles as the final warning.
+ */
+export function getDunningStage(
+  attemptCount: number,
+  nextRetryAt: Date | null,
+  settings: DunningSettings,
+  now: Date = new Date()
+): DunningStage {
+  if (!nextRetryAt) {
+    return "final_notice";
+  }
+
+  const nextIsFinal = attemptCount + 1 >= settings.maxAttempts;
+  const warningWindowMs = settings.finalWarningHours * 60 * 60 * 1000;
+  if (nextIsFinal && nextRetryAt.getTime() - now.getTime() <= warningWindowMs) {
+    return "final_warning";
+  }
+
+  return attemptCount <= 1 ? "first_failure" : "retry_failed";
+}
+
+// ============================================================================
+// SCHEDULED FUNCTION: Warn Donors Before the Final Retry
+// ============================================================================
+
+export const sendFinalRetryWarnings = onSchedule({
+  schedule: "0 * * * *", // Every hour
+  timeZone: "Australia/Sydney",
+  region: "australia-southeast1",
+  secrets: ["RESEND_API_KEY"],
+}, async () => {
+  try {
+    logger.info("🔁 Checking for upcoming final payment retries...");
+
+    const settings = await getDunningSettings();
+    const now = new Date();
+    const windowEnd = new Date(now.getTime() + settings.finalWarningHours * 60 * 60 * 1000);
+
+    const snapshot = await db
+      .collection("recurringDonations")
+      .where("final_retry_at", "<=", admin.firestore.Timestamp.fromDate(windowEnd))
+      .get();
+
+    const timezone = await getMosqueTimezone();
+    let sent = 0;
+
+    for (const doc of snapshot.docs) {
+      const data = doc.data();
+      const finalRetryAt: Date | undefined = data.final_retry_at?.toDate?.();
+
+      if (!finalRetryAt || finalRetryAt <= now || data.final_warning_sent_at || !data.past_due) {
+        continue;
+      }
+
+      if (!data.donor_email) {
+        logger.info("⏭️ SKIP: No donor email for final retry warning", { subscriptionId: doc.id });
+        continue;
+      }
+
+      const emailData = await paymentFailedEmail({
+        donorName: data.donor_name || "Donor",
+        amount: data.amount || 0,
+        currency: data.currency || "aud",
+        frequency: data.frequency || "monthly",
+        attemptCount: data.attempts || 0,
+        nextRetryDate: formatDisplayDate(finalRetryAt, timezone),
+        stage: "final_warning",
+        failureReason: data.last_failure_reason || undefined,
+      });
+
+      const emailSent = await sendEmail({
+        to: data.donor_email,
+        subject: emailData.subject,
+        html: emailData.html,
+      });
+
+      if (!emailSent) {
+        // Leave final_warning_sent_at unset so the next run tries again
+        logger.error("❌ Failed to send final retry warning", { subscriptionId: doc.id });
+        continue;
+      }
+
+      await doc.ref.update({
+        final_warning_sent_at: admin.firestore.FieldValue.serverTimestamp(),
+        dunning_stage: "final_warning",
+      });
+      sent++;
+
+      logger.info("✅ Final retry warning sent", {
+        subscriptionId: doc.id,
+        finalRetryAt: finalRetryAt.toISOString(),
+      });
+    }
+
+    logger.info("✅ Final retry warnings processed", { checked: snapshot.size, sent });
+  } catch (error: any) {
+    logger.error("❌ Error sending final retry warnings:", error);
+  }
+});
@@ -0,0 +1,36 @@
+// ============================================================================
+// CURRENCY FORMATTING
+// Amounts are stored in the currency's smallest unit (cents for AUD/USD)
+// ============================================================================
+
+// Currencies Stripe charges in whole units (no cents)
+// https://stripe.com/docs/currencies#zero-decimal
+const ZERO_DECIMAL_CURRENCIES = new Set([
+  "BIF", "CLP", "DJF", "GNF", "JPY", "KMF", "KRW", "MGA",
+  "PYG", "RWF", "UGX", "VND", "VUV", "XAF", "XOF", "XPF",
+]);
+
+/**
+ * Number of decimal places a currency's smallest unit represents
+ */
+export function getCurrencyDecimals(currency: string): number {
+  return ZERO_DECIMAL_CURRENCIES.has(currency.toUpperCase()) ? 0 : 2;
+}
+
+/**
+ * Format an amount in the currency's smallest unit for display,
+ * always including the currency code (e.g. "$50.00 AUD", "£20.00 GBP")
+ */
+export function formatAmount(amount: number, currency: string): string {
+  const code = (currency || "AUD").toUpperCase();
+  const decimals = getCurrencyDecimals(code);
+  const formatted = new Intl.NumberFormat("en-AU", {
+    style: "currency",
+    currency: code,
+    currencyDisplay: "narrowSymbol",
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  }).format(amount / Math.pow(10, decimals));
+
+  return `${formatted} ${code}`;
+}
@@ -22,6 +22,9 @@ export {
   Signature,
 } from "./components/SharedComponents.js";
 
+// Currency Formatting
+export { formatAmount, getCurrencyDecimals } from "./components/currency.js";
+
 // Email Templates
 export {
   OneTimeDonationReceiptEmail,
@@ -45,6 +48,7 @@ export {
   PaymentFailedEmail,
   getPaymentFailedEmail,
   type PaymentFailedData,
+  type DunningStage,
 } from "./templates/PaymentFailed.js";
 
 export {
@@ -53,6 +57,25 @@ export {
   type SubscriptionCancelledData,
 } from "./templates/SubscriptionCancelled.js";
 
+export {
+  SubscriptionPausedEmail,
+  getSubscriptionPausedEmail,
+  type SubscriptionPausedData,
+} from "./templates/SubscriptionPaused.js";
+
+export {
+  RecurringLapsedEmail,
+  getRecurringLapsedEmail,
+  type RecurringLapsedData,
+} from "./templates/RecurringLapsed.js";
+
+export {
+  RamadanGivingSummaryEmail,
+  getRamadanGivingSummaryEmail,
+  type RamadanGivingNight,
+  type RamadanGivingSummaryData,
+} from "./templates/RamadanGivingSummary.js";
+
 export {
   SubscriptionUpdatedEmail,
   getSubscriptionUpdatedEmail,
@@ -71,6 +94,43 @@ export {
   type DisputeAlertData,
 } from "./templates/DisputeAlert.js";
 
+export {
+  DisputeEvidenceReminderEmail,
+  getDisputeEvidenceReminderEmail,
+  type DisputeEvidenceReminderData,
+} from "./templates/DisputeEvidenceReminder.js";
+
+export {
+  WebhookFailureAlertEmail,
+  getWebhookFailureAlertEmail,
+  type WebhookFailureAlertData,
+  type WebhookFailureAlertEvent,
+} from "./templates/WebhookFailureAlert.js";
+
+export {
+  AdminAlertEmail,
+  getAdminAlertEmail,
+  type AdminAlertData,
+  type AdminAlertDetail,
+} from "./templates/AdminAlert.js";
+
+export {
+  AnnualTaxStatementEmail,
+  getAnnualTaxStatementEmail,
+  type AnnualTaxStatementData,
+  type AnnualTaxStatementLine,
+  type AnnualTaxStatementAdjustment,
+  type AnnualTaxStatementCurrencyTotal,
+} from "./templates/AnnualTaxStatement.js";
+
+export {
+  DedicationNotificationEmail,
+  getDedicationNotificationEmail,
+  DEDICATION_LABELS,
+  type DedicationNotificationData,
+  type DedicationType,
+} from "./templates/DedicationNotification.js";
+
 export {
   ManagementLinkEmail,
   getManagementLinkEmail,
@@ -0,0 +1,95 @@
+// ============================================================================
+// GENERIC ADMIN ALERT EMAIL
+// Sent by the alert router (alerts.ts) for alert types without a dedicated template
+// ============================================================================
+
+import * as React from "react";
+import {
+  EmailLayout,
+  COLORS,
+  EmailConfig,
+  DEFAULT_EMAIL_CONFIG,
+} from "../components/EmailLayout.js";
+import {
+  DetailRow,
+  DetailsBox,
+  EmailButton,
+  Paragraph,
+} from "../components/SharedComponents.js";
+
+// ============================================================================
+// TEMPLATE DATA INTERFACE
+// ============================================================================
+
+export interface AdminAlertDetail {
+  label: string;
+  value: string;
+}
+
+export interface AdminAlertData {
+  title: string;
+  message: string;
+  details?: AdminAlertDetail[];
+  actionUrl?: string;
+  actionLabel?: string;
+}
+
+// ============================================================================
+// EMAIL COMPONENT
+// ============================================================================
+
+interface AdminAlertEmailProps {
+  data: AdminAlertData;
+  config?: Partial<EmailConfig>;
+}
+
+export function AdminAlertEmail({
+  data,
+  config = {},
+}: AdminAlertEmailProps) {
+  const emailConfig = { ...DEFAULT_EMAIL_CONFIG, ...config };
+
+  return (
+    <EmailLayout
+      preview={data.title}
+      headerTitle={data.title}
+      headerColor={COLORS.danger}
+      headerEmoji="🚨"
+      config={config}
+    >
+      <Paragraph>{data.message}</Paragraph>
+
+      {data.details && data.details.length > 0 && (
+        <DetailsBox>
+          {data.details.map((detail) => (
+            <DetailRow key={detail.label} label={detail.label} value={detail.value} />
+          ))}
+        </DetailsBox>
+      )}
+
+      {data.actionUrl && (
+        <EmailButton href={data.actionUrl} backgroundColor={COLORS.danger}>
+          {data.actionLabel || "View Details"}
+        </EmailButton>
+      )}
+
+      <Paragraph style={{ color: COLORS.textMuted, fontSize: "12px", textAlign: "center" }}>
+        {emailConfig.mosqueName} - Admin Alert
+      </Paragraph>
+    </EmailLayout>
+  );
+}
+
+// ============================================================================
+// HELPER FUNCTION
+// ============================================================================
+
+export function getAdminAlertEmail(
+  data: AdminAlertData,
+  config?: Partial<EmailConfig>
+): { subject: string; component: React.ReactElement } {
+  return {
+    subject: `🚨 ${data.title}`,
+    component: <AdminAlertEmail data={data} config={config} />,
+  };
+}
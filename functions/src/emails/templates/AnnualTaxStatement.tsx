@@ -0,0 +1,170 @@
+// ============================================================================
+// ANNUAL TAX STATEMENT EMAIL
+// Consolidated end of financial year statement of tax-deductible donations
+// ============================================================================
+
+import * as React from "react";
+import {
+  EmailLayout,
+  COLORS,
+  EmailConfig,
+  DEFAULT_EMAIL_CONFIG,
+} from "../components/EmailLayout.js";
+import {
+  AlertBox,
+  DetailRow,
+  DetailsBox,
+  Greeting,
+  Paragraph,
+  SectionTitle,
+  Signature,
+} from "../components/SharedComponents.js";
+import { formatAmount } from "../components/currency.js";
+
+// ============================================================================
+// TEMPLATE DATA INTERFACE
+// ============================================================================
+
+export interface AnnualTaxStatementLine {
+  date: string;
+  receiptNumber: string;
+  donationType: string;
+  amount: number; // cents
+}
+
+export interface AnnualTaxStatementAdjustment {
+  date: string;
+  receiptNumber: string;
+  description: string;
+  amount: number; // cents excluded from the deductible total
+}
+
+export interface AnnualTaxStatementCurrencyTotal {
+  currency: string;
+  amount: number; // cents, after refunds and disputes
+  donationCount: number;
+}
+
+export interface AnnualTaxStatementData {
+  donorName: string;
+  financialYear: string; // e.g. "2024-25"
+  periodStart: string;
+  periodEnd: string;
+  currency: string;
+  totalAmount: number; // cents
+  donations: AnnualTaxStatementLine[];
+  adjustments: AnnualTaxStatementAdjustment[];
+  otherCurrencyTotals?: AnnualTaxStatementCurrencyTotal[]; // Not included in totalAmount
+  abn?: string;
+  dgrEndorsed?: boolean;
+}
+
+// ============================================================================
+// EMAIL COMPONENT
+// ============================================================================
+
+interface AnnualTaxStatementEmailProps {
+  data: AnnualTaxStatementData;
+  config?: Partial<EmailConfig>;
+}
+
+export function AnnualTaxStatementEmail({
+  data,
+  config = {},
+}: AnnualTaxStatementEmailProps) {
+  const emailConfig = { ...DEFAULT_EMAIL_CONFIG, ...config };
+  const formattedTotal = formatAmount(data.totalAmount, data.currency);
+
+  return (
+    <EmailLayout
+      preview={`Your ${data.financialYear} donation statement from ${emailConfig.mosqueName}`}
+      headerTitle="Annual Donation Statement"
+      headerColor={COLORS.primary}
+      headerEmoji="🧾"
+      config={config}
+    >
+      <SectionTitle>Financial Year {data.financialYear}</SectionTitle>
+
+      <Greeting name={data.donorName} />
+
+      <Paragraph>
+        JazakAllah Khair for your support this year. Below is a summary of your
+        donations to {emailConfig.mosqueName} between {data.periodStart} and{" "}
+        {data.periodEnd}, totalling <strong>{formattedTotal}</strong>.
+      </Paragraph>
+
+      <DetailsBox>
+        {data.donations.map((line) => (
+          <DetailRow
+            key={line.receiptNumber}
+            label={`${line.date} · ${line.receiptNumber} · ${line.donationType}`}
+            value={formatAmount(line.amount, data.currency)}
+          />
+        ))}
+        <DetailRow label="Total" value={formattedTotal} />
+      </DetailsBox>
+
+      {data.adjustments.length > 0 && (
+        <AlertBox type="info" title="Adjustments">
+          The following amounts were refunded or disputed and are not included
+          in the total above:
+          {data.adjustments.map((adjustment) => (
+            <span key={`${adjustment.receiptNumber}-${adjustment.description}`}>
+              <br />
+              {adjustment.date} · {adjustment.receiptNumber} ·{" "}
+              {adjustment.description}: -{formatAmount(adjustment.amount, data.currency)}
+            </span>
+          ))}
+        </AlertBox>
+      )}
+
+      {data.otherCurrencyTotals && data.otherCurrencyTotals.length > 0 && (
+        <AlertBox type="info" title="Donations in other currencies">
+          These donations were made in a different currency and are not included
+          in the total above:
+          {data.otherCurrencyTotals.map((total) => (
+            <span key={total.currency}>
+              <br />
+              {total.currency} · {total.donationCount} donation
+              {total.donationCount === 1 ? "" : "s"}: {formatAmount(total.amount, total.currency)}
+            </span>
+          ))}
+        </AlertBox>
+      )}
+
+      <DetailsBox>
+        <DetailRow label="Organisation" value={emailConfig.mosqueName} />
+        {data.abn && <DetailRow label="ABN" value={data.abn} />}
+        {data.dgrEndorsed !== undefined && (
+          <DetailRow
+            label="DGR Endorsed"
+            value={data.dgrEndorsed ? "Yes" : "No"}
+          />
+        )}
+      </DetailsBox>
+
+      <Paragraph style={{ fontSize: "14px" }}>
+        {data.dgrEndorsed
+          ? "Donations of $2 or more are tax deductible. Please keep this statement with your tax records."
+          : "Please keep this statement for your records."}{" "}
+        If anything looks incorrect, contact us at {emailConfig.supportEmail}.
+      </Paragraph>
+
+      <Signature mosqueName={emailConfig.mosqueName} />
+    </EmailLayout>
+  );
+}
+
+// ============================================================================
+// HELPER FUNCTION
+// ============================================================================
+
+export function getAnnualTaxStatementEmail(
+  data: AnnualTaxStatementData,
+  config?: Partial<EmailConfig>
+): { subject: string; component: React.ReactElement } {
+  return {
+    subject: `Your ${data.financialYear} Donation Statement`,
+    component: <AnnualTaxStatementEmail data={data} config={config} />,
+  };
+}
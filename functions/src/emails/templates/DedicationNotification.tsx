@@ -0,0 +1,118 @@
+// ============================================================================
+// DEDICATION NOTIFICATION EMAIL
+// Sent to the recipient named on an "in memory of" / "on behalf of" donation
+// NOTE: Does NOT include the donation amount - only the dedication
+// ============================================================================
+
+import * as React from "react";
+import {
+  EmailLayout,
+  COLORS,
+  EmailConfig,
+  DEFAULT_EMAIL_CONFIG,
+} from "../components/EmailLayout.js";
+import {
+  AlertBox,
+  DetailRow,
+  DetailsBox,
+  Paragraph,
+  SectionTitle,
+  Signature,
+} from "../components/SharedComponents.js";
+
+// ============================================================================
+// TEMPLATE DATA INTERFACE
+// ============================================================================
+
+export type DedicationType = "in_memory_of" | "on_behalf_of";
+
+export interface DedicationNotificationData {
+  dedicationType: DedicationType;
+  honoreeName: string;
+  donorName?: string; // Omitted for anonymous donations
+  donationType: string;
+  date: string;
+  message?: string;
+}
+
+export const DEDICATION_LABELS: Record<DedicationType, string> = {
+  in_memory_of: "In Memory Of",
+  on_behalf_of: "On Behalf Of",
+};
+
+// ============================================================================
+// EMAIL COMPONENT
+// ============================================================================
+
+interface DedicationNotificationEmailProps {
+  data: DedicationNotificationData;
+  config?: Partial<EmailConfig>;
+}
+
+export function DedicationNotificationEmail({
+  data,
+  config = {},
+}: DedicationNotificationEmailProps) {
+  const emailConfig = { ...DEFAULT_EMAIL_CONFIG, ...config };
+  const donor = data.donorName || "A generous donor";
+  const inMemory = data.dedicationType === "in_memory_of";
+
+  return (
+    <EmailLayout
+      preview={`${donor} has made a donation ${inMemory ? "in memory of" : "on behalf of"} ${data.honoreeName}`}
+      headerTitle={inMemory ? "A Donation In Loving Memory" : "A Donation On Your Behalf"}
+      headerColor={COLORS.primary}
+      headerEmoji="🤲"
+      config={config}
+    >
+      <SectionTitle>Assalamu Alaikum,</SectionTitle>
+
+      <Paragraph>
+        {inMemory ? (
+          <>
+            <strong>{donor}</strong> has made a donation to {emailConfig.mosqueName} in
+            memory of <strong>{data.honoreeName}</strong> as sadaqah jariyah. May Allah
+            (SWT) have mercy on them, and may the reward of this charity reach them.
+          </>
+        ) : (
+          <>
+            <strong>{donor}</strong> has made a donation to {emailConfig.mosqueName} on
+            behalf of <strong>{data.honoreeName}</strong>. May Allah (SWT) accept it and
+            bless everyone it benefits.
+          </>
+        )}
+      </Paragraph>
+
+      <DetailsBox>
+        <DetailRow label={DEDICATION_LABELS[data.dedicationType]} value={data.honoreeName} />
+        <DetailRow label="Donation" value={data.donationType} />
+        <DetailRow label="Date" value={data.date} />
+      </DetailsBox>
+
+      {data.message && (
+        <AlertBox type="info" title={`A message from ${donor}:`}>
+          {data.message}
+        </AlertBox>
+      )}
+
+      <Signature mosqueName={emailConfig.mosqueName} />
+    </EmailLayout>
+  );
+}
+
+// ============================================================================
+// HELPER FUNCTION
+// ============================================================================
+
+export function getDedicationNotificationEmail(
+  data: DedicationNotificationData,
+  config?: Partial<EmailConfig>
+): { subject: string; component: React.ReactElement } {
+  const inMemory = data.dedicationType === "in_memory_of";
+  return {
+    subject: inMemory
+      ? `A donation has been made in memory of ${data.honoreeName}`
+      : `A donation has been made on behalf of ${data.honoreeName}`,
+    component: <DedicationNotificationEmail data={data} config={config} />,
+  };
+}
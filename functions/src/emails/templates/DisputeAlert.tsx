@@ -18,7 +18,7 @@ import { EmailButton, AlertBox } from "../components/SharedComponents.js";
 // ============================================================================
 
 export interface DisputeAlertData {
-  disputeAmount: string;
+  disputeAmount: string; // Formatted with currency, e.g. "$50.00 AUD"
   disputeDueDate: string;
   disputeReason: string;
   donorEmail: string;
@@ -45,7 +45,7 @@ export function DisputeAlertEmail({
 
   return (
     <EmailLayout
-      preview={`URGENT: Dispute for $${data.disputeAmount} AUD - Respond by ${data.disputeDueDate}`}
+      preview={`URGENT: Dispute for ${data.disputeAmount} - Respond by ${data.disputeDueDate}`}
       headerTitle="URGENT: Dispute Created"
       headerColor={COLORS.danger}
       headerEmoji="🚨"
@@ -113,7 +113,7 @@ export function DisputeAlertEmail({
           </Column>
           <Column style={{ width: "60%" }}>
             <Text style={{ color: COLORS.text, fontSize: "14px", margin: 0 }}>
-              ${data.disputeAmount} AUD
+              {data.disputeAmount}
             </Text>
           </Column>
         </Row>
@@ -240,7 +240,7 @@ export function getDisputeAlertEmail(
   config?: Partial<EmailConfig>
 ): { subject: string; component: React.ReactElement } {
   return {
-    subject: `🚨 URGENT: Dispute Created - $${data.disputeAmount} AUD`,
+    subject: `🚨 URGENT: Dispute Created - ${data.disputeAmount}`,
     component: <DisputeAlertEmail data={data} config={config} />,
   };
 }
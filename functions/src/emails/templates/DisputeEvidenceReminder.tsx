@@ -0,0 +1,107 @@
+// ============================================================================
+// DISPUTE EVIDENCE REMINDER EMAIL
+// Sent to admin when a dispute's evidence deadline is approaching
+// ============================================================================
+
+import * as React from "react";
+import {
+  EmailLayout,
+  COLORS,
+  EmailConfig,
+  DEFAULT_EMAIL_CONFIG,
+} from "../components/EmailLayout.js";
+import {
+  AlertBox,
+  DetailRow,
+  DetailsBox,
+  EmailButton,
+  Paragraph,
+} from "../components/SharedComponents.js";
+
+// ============================================================================
+// TEMPLATE DATA INTERFACE
+// ============================================================================
+
+export interface DisputeEvidenceReminderData {
+  disputeId: string;
+  disputeAmount: string; // Formatted with currency, e.g. "$50.00 AUD"
+  disputeReason: string;
+  disputeDueDate: string; // Formatted date/time
+  hoursRemaining: number;
+  donorName: string;
+  receiptNumber: string;
+  hasEvidence: boolean;
+}
+
+// ============================================================================
+// EMAIL COMPONENT
+// ============================================================================
+
+interface DisputeEvidenceReminderEmailProps {
+  data: DisputeEvidenceReminderData;
+  config?: Partial<EmailConfig>;
+}
+
+export function DisputeEvidenceReminderEmail({
+  data,
+  config = {},
+}: DisputeEvidenceReminderEmailProps) {
+  const emailConfig = { ...DEFAULT_EMAIL_CONFIG, ...config };
+  const stripeDisputeUrl = `https://dashboard.stripe.com/disputes/${data.disputeId}`;
+
+  return (
+    <EmailLayout
+      preview={`Dispute evidence due in ${data.hoursRemaining} hours - ${data.disputeAmount}`}
+      headerTitle="Dispute Evidence Due Soon"
+      headerColor={COLORS.danger}
+      headerEmoji="⏰"
+      config={config}
+    >
+      <Paragraph>
+        Evidence for the dispute below must be submitted within{" "}
+        <strong>{data.hoursRemaining} hours</strong> (by {data.disputeDueDate}). If no
+        evidence is submitted, the dispute will automatically be lost.
+      </Paragraph>
+
+      <DetailsBox>
+        <DetailRow label="Amount" value={data.disputeAmount} />
+        <DetailRow label="Reason" value={data.disputeReason} />
+        <DetailRow label="Donor Name" value={data.donorName} />
+        <DetailRow label="Receipt #" value={data.receiptNumber} />
+        <DetailRow label="Dispute ID" value={data.disputeId} />
+        <DetailRow label="Response Due" value={data.disputeDueDate} />
+        <DetailRow
+          label="Evidence"
+          value={data.hasEvidence ? "Saved, not yet submitted" : "None provided"}
+        />
+      </DetailsBox>
+
+      <EmailButton href={stripeDisputeUrl} backgroundColor={COLORS.danger}>
+        View Dispute in Stripe
+      </EmailButton>
+
+      <AlertBox type="warning" title="How to respond:">
+        Submit evidence from the admin dashboard - the donation receipt can be attached
+        automatically. Evidence can only be submitted once.
+      </AlertBox>
+
+      <Paragraph style={{ color: COLORS.textMuted, fontSize: "12px", textAlign: "center" }}>
+        {emailConfig.mosqueName} - Stripe Dispute Reminder
+      </Paragraph>
+    </EmailLayout>
+  );
+}
+
+// ============================================================================
+// HELPER FUNCTION
+// ============================================================================
+
+export function getDisputeEvidenceReminderEmail(
+  data: DisputeEvidenceReminderData,
+  config?: Partial<EmailConfig>
+): { subject: string; component: React.ReactElement } {
+  return {
+    subject: `⏰ Dispute evidence due in ${data.hoursRemaining} hours - ${data.disputeAmount}`,
+    component: <DisputeEvidenceReminderEmail data={data} config={config} />,
+  };
+}
@@ -18,6 +18,8 @@ import {
   SectionTitle,
   Signature,
 } from "../components/SharedComponents.js";
+import { formatAmount } from "../components/currency.js";
+import { DEDICATION_LABELS, type DedicationType } from "./DedicationNotification.js";
 
 // ============================================================================
 // TEMPLATE DATA INTERFACE
@@ -31,6 +33,8 @@ export interface OneTimeDonationReceiptData {
   date: string;
   donationType: string;
   campaignName?: string;
+  coveredFee?: number; // Processing fee the donor paid on top of their gift (included in amount)
+  dedication?: { type: DedicationType; honoreeName: string };
   cardLast4?: string;
   cardBrand?: string;
 }
@@ -49,7 +53,7 @@ export function OneTimeDonationReceiptEmail({
   config = {},
 }: OneTimeDonationReceiptEmailProps) {
   const emailConfig = { ...DEFAULT_EMAIL_CONFIG, ...config };
-  const formattedAmount = `$${(data.amount / 100).toFixed(2)}`;
+  const formattedAmount = formatAmount(data.amount, data.currency);
   const paymentMethod = data.cardLast4
     ? `${data.cardBrand || "Card"} ending in ${data.cardLast4}`
     : "Card";
@@ -72,13 +76,34 @@ export function OneTimeDonationReceiptEmail({
       </Paragraph>
 
       <DetailsBox>
-        <DetailRow label="Amount" value={formattedAmount} />
+        <DetailRow
+          label={data.coveredFee ? "Total Paid" : "Amount"}
+          value={formattedAmount}
+        />
+        {!!data.coveredFee && (
+          <DetailRow
+            label="Gift Amount"
+            value={formatAmount(data.amount - data.coveredFee, data.currency)}
+          />
+        )}
+        {!!data.coveredFee && (
+          <DetailRow
+            label="Processing Fee Covered"
+            value={formatAmount(data.coveredFee, data.currency)}
+          />
+        )}
         <DetailRow label="Receipt Number" value={data.receiptNumber} />
         <DetailRow label="Date" value={data.date} />
         <DetailRow label="Donation Type" value={data.donationType} />
         {data.campaignName && (
           <DetailRow label="Campaign" value={data.campaignName} />
         )}
+        {data.dedication && (
+          <DetailRow
+            label={DEDICATION_LABELS[data.dedication.type]}
+            value={data.dedication.honoreeName}
+          />
+        )}
         <DetailRow label="Payment Method" value={paymentMethod} />
       </DetailsBox>
 
@@ -1,6 +1,6 @@
 // ============================================================================
 // PAYMENT FAILED EMAIL
-// Sent when a recurring payment fails
+// Sent when a recurring payment fails - escalates with each failed attempt
 // ============================================================================
 
 import * as React from "react";
@@ -16,12 +16,22 @@ import {
   Paragraph,
   SectionTitle,
 } from "../components/SharedComponents.js";
+import { formatAmount } from "../components/currency.js";
 import { Text } from "@react-email/components";
 
 // ============================================================================
 // TEMPLATE DATA INTERFACE
 // ============================================================================
 
+/**
+ * Dunning stages, in order of escalation:
+ *   first_failure - first attempt failed, Stripe will retry
+ *   retry_failed  - a retry failed, more retries remain
+ *   final_warning - sent shortly before Stripe's final retry
+ *   final_notice  - no retries remain
+ */
+export type DunningStage = "first_failure" | "retry_failed" | "final_warning" | "final_notice";
+
 export interface PaymentFailedData {
   donorName: string;
   amount: number;
@@ -29,6 +39,9 @@ export interface PaymentFailedData {
   frequency: string;
   attemptCount: number;
   nextRetryDate?: string;
+  // Defaults from attemptCount (3+ = final_notice) for older callers
+  stage?: DunningStage;
+  failureReason?: string; // e.g. "Your card has insufficient funds."
   /**
    * @deprecated Portal URLs should not be embedded in emails as they expire.
    * Instead, instruct users to update payment through the app.
@@ -36,6 +49,19 @@ export interface PaymentFailedData {
   updatePaymentUrl?: string;
 }
 
+function resolveStage(data: PaymentFailedData): DunningStage {
+  if (data.stage) return data.stage;
+  if (data.attemptCount >= 3) return "final_notice";
+  return data.attemptCount === 2 ? "retry_failed" : "first_failure";
+}
+
+const STAGE_HEADERS: Record<DunningStage, { title: string; emoji: string; urgent: boolean }> = {
+  first_failure: { title: "Action Required", emoji: "⚠️", urgent: false },
+  retry_failed: { title: "Payment Failed Again", emoji: "⚠️", urgent: false },
+  final_warning: { title: "Final Payment Attempt Soon", emoji: "🚨", urgent: true },
+  final_notice: { title: "URGENT: Final Attempt", emoji: "🚨", urgent: true },
+};
+
 // ============================================================================
 // EMAIL COMPONENT
 // ============================================================================
@@ -50,43 +76,69 @@ export function PaymentFailedEmail({
   config = {},
 }: PaymentFailedEmailProps) {
   const emailConfig = { ...DEFAULT_EMAIL_CONFIG, ...config };
-  const formattedAmount = `$${(data.amount / 100).toFixed(2)}`;
-  const isUrgent = data.attemptCount >= 3;
+  const formattedAmount = formatAmount(data.amount, data.currency);
+  const stage = resolveStage(data);
+  const header = STAGE_HEADERS[stage];
 
   return (
     <EmailLayout
       preview={
-        isUrgent
+        header.urgent
           ? `URGENT: Update payment method for your ${data.frequency} donation`
           : `Payment failed - Please update payment method`
       }
-      headerTitle={isUrgent ? "URGENT: Final Attempt" : "Action Required"}
-      headerColor={isUrgent ? COLORS.danger : COLORS.warning}
-      headerEmoji={isUrgent ? "🚨" : "⚠️"}
+      headerTitle={header.title}
+      headerColor={header.urgent ? COLORS.danger : COLORS.warning}
+      headerEmoji={header.emoji}
       config={config}
     >
-      <SectionTitle>Payment Failed - Please Update</SectionTitle>
+      <SectionTitle>
+        {stage === "final_warning" ? "Please Update Your Payment Method" : "Payment Failed - Please Update"}
+      </SectionTitle>
 
       <Greeting name={data.donorName} />
 
       <Paragraph>
-        We were unable to process your {data.frequency} donation of{" "}
-        <strong>{formattedAmount}</strong>.
+        {stage === "final_warning"
+          ? "We have still been unable to process"
+          : "We were unable to process"}{" "}
+        your {data.frequency} donation of <strong>{formattedAmount}</strong>.
+        {data.failureReason && ` Reason given by your bank: ${data.failureReason}`}
       </Paragraph>
 
-      {isUrgent ? (
-        <AlertBox type="danger" title={`⚠️ This is attempt #${data.attemptCount}`}>
-          Your subscription will be cancelled if payment fails again. Please
-          update your payment method immediately through the{" "}
-          {emailConfig.mosqueShortName} app.
-        </AlertBox>
-      ) : (
+      {stage === "first_failure" && (
         <Paragraph>
           This usually happens when a card expires or has insufficient funds.
           {data.nextRetryDate && ` We will automatically retry on ${data.nextRetryDate}.`}
         </Paragraph>
       )}
 
+      {stage === "retry_failed" && (
+        <AlertBox type="warning" title={`Attempt #${data.attemptCount} failed`}>
+          Please update your payment method through the {emailConfig.mosqueShortName} app
+          {data.nextRetryDate ? ` before our next attempt on ${data.nextRetryDate}` : ""}.
+        </AlertBox>
+      )}
+
+      {stage === "final_warning" && (
+        <AlertBox type="danger" title="⚠️ Final attempt">
+          We will make our final attempt to process your donation
+          {data.nextRetryDate ? ` on ${data.nextRetryDate}` : " soon"}. If it fails, your
+          recurring donation will end. Please update your payment method through the{" "}
+          {emailConfig.mosqueShortName} app before then.
+        </AlertBox>
+      )}
+
+      {stage === "final_notice" && (
+        <AlertBox type="danger" title={`⚠️ This is attempt #${data.attemptCount}`}>
+          {data.nextRetryDate
+            ? "Your subscription will be cancelled if payment fails again."
+            : "No further attempts will be made and your recurring donation will end."}{" "}
+          Please update your payment method immediately through the{" "}
+          {emailConfig.mosqueShortName} app.
+        </AlertBox>
+      )}
+
       <Paragraph>
         Please update your payment method through the {emailConfig.mosqueShortName}{" "}
         app to continue your recurring donation.
@@ -115,15 +167,19 @@ export function PaymentFailedEmail({
 // HELPER FUNCTION
 // ============================================================================
 
+const STAGE_SUBJECTS: Record<DunningStage, (frequency: string) => string> = {
+  first_failure: () => "Payment failed - Please update payment method",
+  retry_failed: () => "Payment failed again - Please update payment method",
+  final_warning: (frequency) => `Final attempt soon for your ${frequency} donation`,
+  final_notice: (frequency) => `URGENT: Update payment method for ${frequency} donation`,
+};
+
 export function getPaymentFailedEmail(
   data: PaymentFailedData,
   config?: Partial<EmailConfig>
 ): { subject: string; component: React.ReactElement } {
-  const isUrgent = data.attemptCount >= 3;
   return {
-    subject: isUrgent
-      ? `URGENT: Update payment method for ${data.frequency} donation`
-      : `Payment failed - Please update payment method`,
+    subject: STAGE_SUBJECTS[resolveStage(data)](data.frequency),
     component: <PaymentFailedEmail data={data} config={config} />,
   };
 }
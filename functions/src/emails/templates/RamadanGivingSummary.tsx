@@ -0,0 +1,141 @@
+// ============================================================================
+// RAMADAN LAST TEN NIGHTS SUMMARY EMAIL
+// Sent when a last-ten-nights giving schedule finishes or is cancelled
+// ============================================================================
+
+import * as React from "react";
+import { Text } from "@react-email/components";
+import {
+  EmailLayout,
+  COLORS,
+  EmailConfig,
+  DEFAULT_EMAIL_CONFIG,
+} from "../components/EmailLayout.js";
+import {
+  DetailRow,
+  DetailsBox,
+  Greeting,
+  Paragraph,
+  SectionTitle,
+} from "../components/SharedComponents.js";
+import { formatAmount } from "../components/currency.js";
+
+// ============================================================================
+// TEMPLATE DATA INTERFACE
+// ============================================================================
+
+export interface RamadanGivingNight {
+  night: number; // Night of Ramadan (21-30)
+  date: string; // Formatted Gregorian date of the evening
+  amount: number; // In cents
+  receiptNumber?: string;
+}
+
+export interface RamadanGivingSummaryData {
+  donorName: string;
+  currency: string;
+  donationType: string;
+  hijriYear: number;
+  nights: RamadanGivingNight[]; // Successful charges only
+  totalAmount: number; // In cents
+  missedNights?: number; // Declined or skipped nights
+  cancelled?: boolean;
+}
+
+// ============================================================================
+// EMAIL COMPONENT
+// ============================================================================
+
+interface RamadanGivingSummaryEmailProps {
+  data: RamadanGivingSummaryData;
+  config?: Partial<EmailConfig>;
+}
+
+export function RamadanGivingSummaryEmail({
+  data,
+  config = {},
+}: RamadanGivingSummaryEmailProps) {
+  const emailConfig = { ...DEFAULT_EMAIL_CONFIG, ...config };
+  const formattedTotal = formatAmount(data.totalAmount, data.currency);
+
+  return (
+    <EmailLayout
+      preview={`You gave ${formattedTotal} over ${data.nights.length} nights of Ramadan ${data.hijriYear}`}
+      headerTitle="Your Last Ten Nights"
+      headerColor={COLORS.primary}
+      headerEmoji="🌙"
+      config={config}
+    >
+      <SectionTitle>Ramadan {data.hijriYear} Giving Summary</SectionTitle>
+
+      <Greeting name={data.donorName} />
+
+      <Paragraph>
+        {data.cancelled
+          ? "Your last ten nights giving schedule has been cancelled and no further nights will be charged. "
+          : "The last ten nights of Ramadan have come to a close and your giving schedule is complete. "}
+        Here is a summary of what you gave to <strong>{data.donationType}</strong>.
+      </Paragraph>
+
+      {data.nights.length > 0 && (
+        <DetailsBox>
+          {data.nights.map((night) => (
+            <DetailRow
+              key={night.night}
+              label={`Night ${night.night} (${night.date})`}
+              value={night.receiptNumber
+                ? `${formatAmount(night.amount, data.currency)} - ${night.receiptNumber}`
+                : formatAmount(night.amount, data.currency)}
+            />
+          ))}
+          <DetailRow label="Total" value={formattedTotal} />
+        </DetailsBox>
+      )}
+
+      {data.missedNights ? (
+        <Paragraph style={{ fontSize: "14px" }}>
+          {data.missedNights === 1 ? "1 night" : `${data.missedNights} nights`} could not be
+          charged and {data.missedNights === 1 ? "was" : "were"} skipped. You have not been
+          charged for {data.missedNights === 1 ? "it" : "them"}.
+        </Paragraph>
+      ) : null}
+
+      <Paragraph>
+        A separate tax receipt was emailed for each night. All receipts are also
+        available in the {emailConfig.mosqueShortName} app.
+      </Paragraph>
+
+      <Paragraph style={{ fontSize: "14px" }}>
+        If you have any questions or need assistance, please contact us at{" "}
+        {emailConfig.supportEmail}.
+      </Paragraph>
+
+      <Text
+        style={{
+          color: COLORS.textLight,
+          fontSize: "16px",
+          lineHeight: "1.6",
+          margin: "25px 0 0 0",
+        }}
+      >
+        <strong>May Allah accept it from you and grant you Laylatul Qadr.</strong>
+        <br />
+        The {emailConfig.mosqueName} Team
+      </Text>
+    </EmailLayout>
+  );
+}
+
+// ============================================================================
+// HELPER FUNCTION
+// ============================================================================
+
+export function getRamadanGivingSummaryEmail(
+  data: RamadanGivingSummaryData,
+  config?: Partial<EmailConfig>
+): { subject: string; component: React.ReactElement } {
+  return {
+    subject: `Your Ramadan ${data.hijriYear} last ten nights giving summary`,
+    component: <RamadanGivingSummaryEmail data={data} config={config} />,
+  };
+}
@@ -0,0 +1,119 @@
+// ============================================================================
+// RECURRING DONATION LAPSED (WIN-BACK) EMAIL
+// Sent when Stripe cancels a recurring donation after its final retry fails
+// ============================================================================
+
+import * as React from "react";
+import { Text } from "@react-email/components";
+import {
+  EmailLayout,
+  COLORS,
+  EmailConfig,
+  DEFAULT_EMAIL_CONFIG,
+} from "../components/EmailLayout.js";
+import {
+  DetailRow,
+  DetailsBox,
+  Greeting,
+  Paragraph,
+  SectionTitle,
+} from "../components/SharedComponents.js";
+import { formatAmount } from "../components/currency.js";
+
+// ============================================================================
+// TEMPLATE DATA INTERFACE
+// ============================================================================
+
+export interface RecurringLapsedData {
+  donorName: string;
+  amount: number;
+  currency: string;
+  frequency: string;
+  donationType: string;
+  totalDonated?: number;
+  startDate?: string;
+}
+
+// ============================================================================
+// EMAIL COMPONENT
+// ============================================================================
+
+interface RecurringLapsedEmailProps {
+  data: RecurringLapsedData;
+  config?: Partial<EmailConfig>;
+}
+
+export function RecurringLapsedEmail({
+  data,
+  config = {},
+}: RecurringLapsedEmailProps) {
+  const emailConfig = { ...DEFAULT_EMAIL_CONFIG, ...config };
+  const formattedAmount = formatAmount(data.amount, data.currency);
+
+  return (
+    <EmailLayout
+      preview={`Your ${data.frequency} donation of ${formattedAmount} has ended - restart any time`}
+      headerTitle="We Miss Your Support"
+      headerColor={COLORS.primary}
+      headerEmoji="💚"
+      config={config}
+    >
+      <SectionTitle>Your Recurring Donation Has Ended</SectionTitle>
+
+      <Greeting name={data.donorName} />
+
+      <Paragraph>
+        We weren't able to process your {data.frequency} donation of{" "}
+        <strong>{formattedAmount}</strong> after several attempts, so it has now
+        ended. No further payments will be attempted.
+      </Paragraph>
+
+      <DetailsBox>
+        <DetailRow label="Donation" value={data.donationType} />
+        <DetailRow label="Amount" value={`${formattedAmount} / ${data.frequency}`} />
+        {data.startDate && <DetailRow label="Supporting Since" value={data.startDate} />}
+        {data.totalDonated ? (
+          <DetailRow label="Total Donated" value={formatAmount(data.totalDonated, data.currency)} />
+        ) : null}
+      </DetailsBox>
+
+      <Paragraph>
+        This is usually just an expired or replaced card. If you'd like to continue
+        supporting {emailConfig.mosqueName}, you can start a new recurring donation
+        in a minute through the {emailConfig.mosqueShortName} app.
+      </Paragraph>
+
+      <Paragraph style={{ fontSize: "14px" }}>
+        If you have any questions or need assistance, please contact us at{" "}
+        {emailConfig.supportEmail}.
+      </Paragraph>
+
+      <Text
+        style={{
+          color: COLORS.textLight,
+          fontSize: "16px",
+          lineHeight: "1.6",
+          margin: "25px 0 0 0",
+        }}
+      >
+        <strong>JazakAllah Khair for your support so far!</strong>
+        <br />
+        The {emailConfig.mosqueName} Team
+      </Text>
+    </EmailLayout>
+  );
+}
+
+// ============================================================================
+// HELPER FUNCTION
+// ============================================================================
+
+export function getRecurringLapsedEmail(
+  data: RecurringLapsedData,
+  config?: Partial<EmailConfig>
+): { subject: string; component: React.ReactElement } {
+  return {
+    subject: "Your recurring donation has ended",
+    component: <RecurringLapsedEmail data={data} config={config} />,
+  };
+}
@@ -18,6 +18,7 @@ import {
   SectionTitle,
   Signature,
 } from "../components/SharedComponents.js";
+import { formatAmount } from "../components/currency.js";
 
 // ============================================================================
 // TEMPLATE DATA INTERFACE
@@ -32,6 +33,7 @@ export interface RecurringReceiptData {
   frequency: string;
   donationType: string;
   campaignName?: string;
+  coveredFee?: number; // Processing fee the donor paid on top of their gift (included in amount)
   nextPaymentDate: string;
   /**
    * @deprecated Portal URLs should not be embedded in emails as they expire.
@@ -54,7 +56,7 @@ export function RecurringReceiptEmail({
   config = {},
 }: RecurringReceiptEmailProps) {
   const emailConfig = { ...DEFAULT_EMAIL_CONFIG, ...config };
-  const formattedAmount = `$${(data.amount / 100).toFixed(2)}`;
+  const formattedAmount = formatAmount(data.amount, data.currency);
   const capitalizedFrequency =
     data.frequency.charAt(0).toUpperCase() + data.frequency.slice(1);
 
@@ -77,7 +79,22 @@ export function RecurringReceiptEmail({
       </Paragraph>
 
       <DetailsBox>
-        <DetailRow label="Amount" value={formattedAmount} />
+        <DetailRow
+          label={data.coveredFee ? "Total Paid" : "Amount"}
+          value={formattedAmount}
+        />
+        {!!data.coveredFee && (
+          <DetailRow
+            label="Gift Amount"
+            value={formatAmount(data.amount - data.coveredFee, data.currency)}
+          />
+        )}
+        {!!data.coveredFee && (
+          <DetailRow
+            label="Processing Fee Covered"
+            value={formatAmount(data.coveredFee, data.currency)}
+          />
+        )}
         <DetailRow label="Receipt Number" value={data.receiptNumber} />
         <DetailRow label="Date" value={data.date} />
         <DetailRow label="Frequency" value={capitalizedFrequency} />
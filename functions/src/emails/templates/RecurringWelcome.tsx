@@ -18,6 +18,7 @@ import {
   SectionTitle,
   Signature,
 } from "../components/SharedComponents.js";
+import { formatAmount } from "../components/currency.js";
 
 // ============================================================================
 // TEMPLATE DATA INTERFACE
@@ -52,7 +53,7 @@ export function RecurringWelcomeEmail({
   config = {},
 }: RecurringWelcomeEmailProps) {
   const emailConfig = { ...DEFAULT_EMAIL_CONFIG, ...config };
-  const formattedAmount = `$${(data.amount / 100).toFixed(2)}`;
+  const formattedAmount = formatAmount(data.amount, data.currency);
   const capitalizedFrequency =
     data.frequency.charAt(0).toUpperCase() + data.frequency.slice(1);
 
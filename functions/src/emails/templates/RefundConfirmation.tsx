@@ -17,6 +17,7 @@ import {
   Paragraph,
   SectionTitle,
 } from "../components/SharedComponents.js";
+import { formatAmount } from "../components/currency.js";
 
 // ============================================================================
 // TEMPLATE DATA INTERFACE
@@ -45,7 +46,7 @@ export function RefundConfirmationEmail({
   config = {},
 }: RefundConfirmationEmailProps) {
   const emailConfig = { ...DEFAULT_EMAIL_CONFIG, ...config };
-  const formattedAmount = `$${(data.amount / 100).toFixed(2)}`;
+  const formattedAmount = formatAmount(data.amount, data.currency);
 
   return (
     <EmailLayout
@@ -12,6 +12,7 @@ import {
   DEFAULT_EMAIL_CONFIG,
 } from "../components/EmailLayout.js";
 import { Greeting, Paragraph, SectionTitle } from "../components/SharedComponents.js";
+import { formatAmount } from "../components/currency.js";
 
 // ============================================================================
 // TEMPLATE DATA INTERFACE
@@ -41,9 +42,9 @@ export function SubscriptionCancelledEmail({
   config = {},
 }: SubscriptionCancelledEmailProps) {
   const emailConfig = { ...DEFAULT_EMAIL_CONFIG, ...config };
-  const formattedAmount = `$${(data.amount / 100).toFixed(2)}`;
+  const formattedAmount = formatAmount(data.amount, data.currency);
   const totalDonated = data.totalDonated
-    ? `$${(data.totalDonated / 100).toFixed(2)}`
+    ? formatAmount(data.totalDonated, data.currency)
     : null;
 
   return (
@@ -0,0 +1,139 @@
+// ============================================================================
+// SUBSCRIPTION PAUSED / RESUMED EMAIL
+// Sent when a recurring donation is paused or resumes
+// ============================================================================
+
+import * as React from "react";
+import { Text } from "@react-email/components";
+import {
+  EmailLayout,
+  COLORS,
+  EmailConfig,
+  DEFAULT_EMAIL_CONFIG,
+} from "../components/EmailLayout.js";
+import {
+  DetailRow,
+  DetailsBox,
+  Greeting,
+  Paragraph,
+  SectionTitle,
+} from "../components/SharedComponents.js";
+import { formatAmount } from "../components/currency.js";
+
+// ============================================================================
+// TEMPLATE DATA INTERFACE
+// ============================================================================
+
+export interface SubscriptionPausedData {
+  donorName: string;
+  amount: number;
+  currency: string;
+  frequency: string;
+  donationType: string;
+  resumed: boolean; // false = paused confirmation, true = resumed confirmation
+  resumeDate?: string; // Formatted date the pause ends (paused only)
+}
+
+// ============================================================================
+// EMAIL COMPONENT
+// ============================================================================
+
+interface SubscriptionPausedEmailProps {
+  data: SubscriptionPausedData;
+  config?: Partial<EmailConfig>;
+}
+
+export function SubscriptionPausedEmail({
+  data,
+  config = {},
+}: SubscriptionPausedEmailProps) {
+  const emailConfig = { ...DEFAULT_EMAIL_CONFIG, ...config };
+  const formattedAmount = formatAmount(data.amount, data.currency);
+
+  return (
+    <EmailLayout
+      preview={
+        data.resumed
+          ? `Your ${data.frequency} donation of ${formattedAmount} has resumed`
+          : `Your ${data.frequency} donation of ${formattedAmount} is paused`
+      }
+      headerTitle={data.resumed ? "Donation Resumed" : "Donation Paused"}
+      headerColor={data.resumed ? COLORS.success : COLORS.primary}
+      headerEmoji={data.resumed ? "▶️" : "⏸️"}
+      config={config}
+    >
+      <SectionTitle>
+        {data.resumed
+          ? "Your Recurring Donation Has Resumed"
+          : "Your Recurring Donation Is Paused"}
+      </SectionTitle>
+
+      <Greeting name={data.donorName} />
+
+      {data.resumed ? (
+        <Paragraph>
+          Your {data.frequency} donation of <strong>{formattedAmount}</strong> is
+          active again. Payments will continue on your usual schedule.
+        </Paragraph>
+      ) : (
+        <Paragraph>
+          Your {data.frequency} donation of <strong>{formattedAmount}</strong> has
+          been paused. No payments will be taken while it is paused.
+        </Paragraph>
+      )}
+
+      <DetailsBox>
+        <DetailRow label="Donation" value={data.donationType} />
+        <DetailRow label="Amount" value={`${formattedAmount} / ${data.frequency}`} />
+        {!data.resumed && (
+          <DetailRow
+            label="Resumes"
+            value={data.resumeDate || "When you resume it in the app"}
+          />
+        )}
+      </DetailsBox>
+
+      {!data.resumed && (
+        <Paragraph>
+          {data.resumeDate
+            ? `Your donation will resume automatically on ${data.resumeDate}. `
+            : ""}
+          You can resume or change your donation at any time through the{" "}
+          {emailConfig.mosqueShortName} app.
+        </Paragraph>
+      )}
+
+      <Paragraph style={{ fontSize: "14px" }}>
+        If you have any questions or need assistance, please contact us at{" "}
+        {emailConfig.supportEmail}.
+      </Paragraph>
+
+      <Text
+        style={{
+          color: COLORS.textLight,
+          fontSize: "16px",
+          lineHeight: "1.6",
+          margin: "15px 0 0 0",
+        }}
+      >
+        JazakAllah Khair for your support!
+      </Text>
+    </EmailLayout>
+  );
+}
+
+// ============================================================================
+// HELPER FUNCTION
+// ============================================================================
+
+export function getSubscriptionPausedEmail(
+  data: SubscriptionPausedData,
+  config?: Partial<EmailConfig>
+): { subject: string; component: React.ReactElement } {
+  return {
+    subject: data.resumed
+      ? "Your recurring donation has resumed"
+      : "Your recurring donation is paused",
+    component: <SubscriptionPausedEmail data={data} config={config} />,
+  };
+}
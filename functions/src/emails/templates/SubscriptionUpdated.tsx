@@ -19,6 +19,7 @@ import {
   SectionTitle,
   Signature,
 } from "../components/SharedComponents.js";
+import { formatAmount } from "../components/currency.js";
 
 // ============================================================================
 // TEMPLATE DATA INTERFACE
@@ -30,6 +31,7 @@ export interface SubscriptionUpdatedData {
   nextPaymentDate: string;
   newAmount?: number;
   newFrequency?: string;
+  currency?: string;
 }
 
 // ============================================================================
@@ -92,7 +94,7 @@ export function SubscriptionUpdatedEmail({
         {data.newAmount && (
           <DetailRow
             label="New Amount"
-            value={`$${(data.newAmount / 100).toFixed(2)}`}
+            value={formatAmount(data.newAmount, data.currency || "AUD")}
           />
         )}
         {data.newFrequency && (
@@ -0,0 +1,109 @@
+// ============================================================================
+// WEBHOOK FAILURE ADMIN ALERT EMAIL
+// Sent to admin when Stripe webhook events stay failed or stuck
+// ============================================================================
+
+import * as React from "react";
+import {
+  EmailLayout,
+  COLORS,
+  EmailConfig,
+  DEFAULT_EMAIL_CONFIG,
+} from "../components/EmailLayout.js";
+import {
+  AlertBox,
+  DetailRow,
+  DetailsBox,
+  Paragraph,
+  SectionTitle,
+} from "../components/SharedComponents.js";
+
+// ============================================================================
+// TEMPLATE DATA INTERFACE
+// ============================================================================
+
+export interface WebhookFailureAlertEvent {
+  eventId: string;
+  eventType: string;
+  status: "failed" | "stuck";
+  attemptCount: number;
+  errorMessage?: string;
+  firstSeen: string; // Formatted date/time
+}
+
+export interface WebhookFailureAlertData {
+  events: WebhookFailureAlertEvent[];
+  thresholdHours: number;
+}
+
+// ============================================================================
+// EMAIL COMPONENT
+// ============================================================================
+
+interface WebhookFailureAlertEmailProps {
+  data: WebhookFailureAlertData;
+  config?: Partial<EmailConfig>;
+}
+
+export function WebhookFailureAlertEmail({
+  data,
+  config = {},
+}: WebhookFailureAlertEmailProps) {
+  const emailConfig = { ...DEFAULT_EMAIL_CONFIG, ...config };
+  const count = data.events.length;
+
+  return (
+    <EmailLayout
+      preview={`${count} Stripe webhook event${count === 1 ? "" : "s"} need attention`}
+      headerTitle="Webhook Events Need Attention"
+      headerColor={COLORS.danger}
+      headerEmoji="⚠️"
+      config={config}
+    >
+      <Paragraph>
+        The following Stripe webhook event{count === 1 ? " has" : "s have"} not been
+        processed successfully for more than {data.thresholdHours} hour
+        {data.thresholdHours === 1 ? "" : "s"}. Donations, refunds or subscription
+        changes in these events may be missing from the dashboard.
+      </Paragraph>
+
+      {data.events.map((event) => (
+        <React.Fragment key={event.eventId}>
+          <SectionTitle>{event.eventType}</SectionTitle>
+          <DetailsBox>
+            <DetailRow label="Event ID" value={event.eventId} />
+            <DetailRow label="Status" value={event.status === "failed" ? "Failed" : "Stuck (never completed)"} />
+            <DetailRow label="Attempts" value={String(event.attemptCount)} />
+            <DetailRow label="First Seen" value={event.firstSeen} />
+            {event.errorMessage && <DetailRow label="Error" value={event.errorMessage} />}
+          </DetailsBox>
+        </React.Fragment>
+      ))}
+
+      <AlertBox type="warning" title="What to do:">
+        Fix the underlying error, then replay the events from the admin dashboard.
+        Replays re-fetch each event from Stripe and are safe to repeat - events that
+        already completed are skipped.
+      </AlertBox>
+
+      <Paragraph style={{ color: COLORS.textMuted, fontSize: "12px", textAlign: "center" }}>
+        {emailConfig.mosqueName} - Stripe Webhook Alert
+      </Paragraph>
+    </EmailLayout>
+  );
+}
+
+// ============================================================================
+// HELPER FUNCTION
+// ============================================================================
+
+export function getWebhookFailureAlertEmail(
+  data: WebhookFailureAlertData,
+  config?: Partial<EmailConfig>
+): { subject: string; component: React.ReactElement } {
+  const count = data.events.length;
+  return {
+    subject: `⚠️ ${count} Stripe webhook event${count === 1 ? "" : "s"} failed`,
+    component: <WebhookFailureAlertEmail data={data} config={config} />,
+  };
+}
@@ -6,6 +6,10 @@
 import { onCall, HttpsError } from "firebase-functions/v2/https";
 import { logger } from "firebase-functions";
 import * as admin from "firebase-admin";
+import { Permission } from "./utils/roles";
+import { requirePermission } from "./utils/authorization";
+import { getDefaultCurrency, normalizeCurrency } from "./utils/currency";
+import { getZakatLedgerBalances, type ZakatLedgerBalance } from "./zakat";
 
 const db = admin.firestore();
 
@@ -17,6 +21,7 @@ interface DonationAnalyticsRequest {
   startDate?: string; // YYYY-MM-DD
   endDate?: string; // YYYY-MM-DD
   donationType?: string;
+  fund?: string; // "general" | "zakat"
   paymentStatus?: string;
   searchEmail?: string;
   searchName?: string;
@@ -30,11 +35,15 @@ interface DonationRecord {
   receipt_number: string;
   donor_name: string;
   donor_email: string;
-  amount: number; // cents
+  amount: number; // cents - gross amount charged
   currency: string;
+  gift_amount: number; // cents - amount excluding donor-covered fees
+  covered_fee_amount: number; // cents
   donation_type_id: string;
   donation_type_label: string;
   payment_status: string;
+  refund_amount?: number; // cents
+  refund_status?: string;
   payment_method_type: string;
   is_recurring: boolean;
   recurring_frequency?: string;
@@ -45,7 +54,11 @@ interface DonationRecord {
   stripe_payment_intent_id?: string;
   stripe_subscription_id?: string;
   campaign_id?: string;
+  fund: string; // "general" | "zakat"
   donor_message?: string;
+  stripe_fee?: number; // cents - set once the charge settles
+  stripe_net?: number; // cents
+  payout_id?: string;
 }
 
 interface RecurringDonationRecord {
@@ -58,6 +71,7 @@ interface RecurringDonationRecord {
   status: string;
   donation_type_id: string;
   donation_type_label: string;
+  fund: string;
   // Normalized to YYYY-MM-DD
   next_payment_date: string;
   created_at: string | number;
@@ -67,27 +81,73 @@ interface RecurringDonationRecord {
   stripe_customer_id: string;
 }
 
+interface AmountBreakdown {
+  count: number;
+  amount: number; // cents, primary currency only
+  amountByCurrency: { [currency: string]: number };
+}
+
+// Amounts are never summed across currencies: `totalAmount`, `averageDonation`
+// and breakdown `amount` fields are in the primary (default) currency only.
+// Counts include every currency; see `byCurrency` for per-currency totals.
+// Stripe fees are known once the charge settles (charge.succeeded/updated
+// webhooks) or at the latest when it is paid out (payout.paid);
+// `feesPendingCount` is the number of donations still waiting on a fee.
 interface AnalyticsSummary {
+  currency: string; // Primary currency, e.g. "AUD"
   totalDonations: number;
-  totalAmount: number; // cents
+  totalAmount: number; // cents - gross, including donor-covered fees
+  totalGiftAmount: number; // cents - net of donor-covered fees
+  totalCoveredFees: number; // cents
+  totalStripeFees: number; // cents - Stripe processing fees on paid-out donations
+  totalNetAmount: number; // cents - gross, net of refunds and Stripe fees
+  feesPendingCount: number;
   averageDonation: number; // cents
   donationCount: number;
   recurringCount: number;
   activeRecurringCount: number;
   oneTimeCount: number;
-  byType: { [key: string]: { count: number; amount: number } };
+  byCurrency: {
+    [currency: string]: {
+      count: number;
+      amount: number;
+      giftAmount: number;
+      coveredFees: number;
+      stripeFees: number;
+      netAmount: number;
+      averageDonation: number;
+    };
+  };
+  byType: { [key: string]: AmountBreakdown };
+  byFund: { [fund: string]: AmountBreakdown }; // Gift amounts, net of refunds
   byStatus: { [key: string]: number };
-  byMonth: { [key: string]: { count: number; amount: number } };
+  byMonth: { [key: string]: AmountBreakdown };
 }
 
 interface DonationAnalyticsResponse {
   donations: DonationRecord[];
   recurringDonations: RecurringDonationRecord[];
   summary: AnalyticsSummary;
+  zakatLedger: ZakatLedgerBalance[]; // Zakat received/disbursed per currency
   totalCount: number;
   hasMore: boolean;
 }
 
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function addToBreakdown(
+  breakdown: AmountBreakdown,
+  currency: string,
+  amount: number,
+  primaryAmount: number
+) {
+  breakdown.count += 1;
+  breakdown.amount += primaryAmount;
+  breakdown.amountByCurrency[currency] = (breakdown.amountByCurrency[currency] || 0) + amount;
+}
+
 // ============================================================================
 // MAIN FUNCTION
 // ============================================================================
@@ -98,15 +158,14 @@ export const getDonationAnalytics = onCall(
     cors: true,
   },
   async (request) => {
-    const { auth, data } = request;
+    const { data } = request;
 
-    // Authentication check - only authenticated admins can access
-    if (!auth) {
-      throw new HttpsError(
-        "unauthenticated",
-        "You must be authenticated to access donation analytics"
-      );
-    }
+    // Only admins with analytics access can read donor data
+    const auth = requirePermission(
+      request,
+      Permission.VIEW_DONATION_ANALYTICS,
+      "You do not have permission to access donation analytics"
+    );
 
     logger.info("📊 Fetching donation analytics", {
       uid: auth.uid,
@@ -118,6 +177,7 @@ export const getDonationAnalytics = onCall(
         startDate,
         endDate,
         donationType,
+        fund,
         paymentStatus,
         searchEmail,
         searchName,
@@ -146,6 +206,9 @@ export const getDonationAnalytics = onCall(
           donationType
         );
       }
+      if (fund) {
+        donationsQuery = donationsQuery.where("fund", "==", fund);
+      }
       if (paymentStatus) {
         donationsQuery = donationsQuery.where(
           "payment_status",
@@ -191,9 +254,13 @@ export const getDonationAnalytics = onCall(
           donor_email: raw.donor_email ?? "",
           amount: raw.amount ?? 0,
           currency: raw.currency ?? "AUD",
+          gift_amount: raw.gift_amount ?? raw.amount ?? 0,
+          covered_fee_amount: raw.covered_fee_amount ?? 0,
           donation_type_id: raw.donation_type_id ?? "",
           donation_type_label: raw.donation_type_label ?? "",
           payment_status: raw.payment_status ?? "unknown",
+          refund_amount: raw.refund_amount,
+          refund_status: raw.refund_status,
           payment_method_type: raw.payment_method_type ?? "",
           is_recurring: !!raw.is_recurring,
           recurring_frequency: raw.recurring_frequency,
@@ -202,7 +269,11 @@ export const getDonationAnalytics = onCall(
           stripe_payment_intent_id: raw.stripe_payment_intent_id,
           stripe_subscription_id: raw.stripe_subscription_id,
           campaign_id: raw.campaign_id,
+          fund: raw.fund ?? "general",
           donor_message: raw.donor_message,
+          stripe_fee: raw.stripe_fee,
+          stripe_net: raw.stripe_net,
+          payout_id: raw.payout_id,
         };
         donations.push(normalized);
       });
@@ -240,6 +311,10 @@ export const getDonationAnalytics = onCall(
         );
       }
 
+      if (fund) {
+        recurringQuery = recurringQuery.where("fund", "==", fund);
+      }
+
       const recurringSnapshot = await recurringQuery.get();
       let recurringDonations: RecurringDonationRecord[] = [];
       recurringSnapshot.forEach((doc: any) => {
@@ -254,6 +329,7 @@ export const getDonationAnalytics = onCall(
           status: raw.status ?? "unknown",
           donation_type_id: raw.donation_type_id ?? "",
           donation_type_label: raw.donation_type_label ?? "",
+          fund: raw.fund ?? "general",
           next_payment_date: toYYYYMMDD(raw.next_payment_date),
           created_at: raw.created_at?.toDate()?.toISOString() ?? "",
           started_at: raw.started_at?.toDate()?.toISOString() ?? "",
@@ -276,35 +352,87 @@ export const getDonationAnalytics = onCall(
       // 3. Calculate Analytics Summary
       // ========================================
 
+      const settingsDoc = await db.collection("donationSettings").doc("config").get();
+      const primaryCurrency = getDefaultCurrency(settingsDoc.data());
+
       const summary: AnalyticsSummary = {
+        currency: primaryCurrency,
         totalDonations: 0,
         totalAmount: 0,
+        totalGiftAmount: 0,
+        totalCoveredFees: 0,
+        totalStripeFees: 0,
+        totalNetAmount: 0,
+        feesPendingCount: 0,
         averageDonation: 0,
         donationCount: 0,
         recurringCount: 0,
         activeRecurringCount: 0,
         oneTimeCount: 0,
+        byCurrency: {},
         byType: {},
+        byFund: {},
         byStatus: {},
         byMonth: {},
       };
 
       // Process all donations for summary (not just paginated results)
+      // Partially refunded donations count at their amount net of refunds
       const allDonationsSnapshot = await db
         .collection("donations")
-        .where("payment_status", "==", "succeeded")
+        .where("payment_status", "in", ["succeeded", "partially_refunded"])
         .get();
 
       allDonationsSnapshot.forEach((doc) => {
         const data = doc.data();
-        const amount = data.amount || 0;
+        const amount = Math.max((data.amount || 0) - (data.refund_amount || 0), 0);
+        const coveredFees = Math.min(data.covered_fee_amount || 0, amount);
+        const giftAmount = amount - coveredFees;
         const type = data.donation_type_id || "unknown";
+        const donationFund = data.fund || "general";
         const status = data.payment_status || "unknown";
         const dateStr = toYYYYMMDD(data.date);
-
-        summary.totalAmount += amount;
+        const currency = normalizeCurrency(data.currency);
+        const primaryAmount = currency === primaryCurrency ? amount : 0;
+
+        // Fees are charged in the settlement currency - only count them when
+        // that matches the donation currency (no FX conversion)
+        const feeKnown = typeof data.stripe_fee === "number" &&
+          normalizeCurrency(data.settlement_currency || data.currency) === currency;
+        const stripeFee = feeKnown ? data.stripe_fee : 0;
+        const netAmount = amount - stripeFee;
+
+        if (currency === primaryCurrency) {
+          summary.totalAmount += amount;
+          summary.totalGiftAmount += giftAmount;
+          summary.totalCoveredFees += coveredFees;
+          summary.totalStripeFees += stripeFee;
+          summary.totalNetAmount += netAmount;
+        }
+        if (!feeKnown) {
+          summary.feesPendingCount += 1;
+        }
         summary.donationCount += 1;
 
+        // By currency
+        if (!summary.byCurrency[currency]) {
+          summary.byCurrency[currency] = {
+            count: 0,
+            amount: 0,
+            giftAmount: 0,
+            coveredFees: 0,
+            stripeFees: 0,
+            netAmount: 0,
+            averageDonation: 0,
+          };
+        }
+        summary.byCurrency[currency].count += 1;
+        summary.byCurrency[currency].amount += amount;
+        summary.byCurrency[currency].giftAmount += giftAmount;
+        summary.byCurrency[currency].coveredFees += coveredFees;
+        summary.byCurrency[currency].stripeFees += stripeFee;
+        summary.byCurrency[currency].netAmount += netAmount;
+
         if (data.is_recurring) {
           summary.recurringCount += 1;
         } else {
@@ -313,10 +441,20 @@ export const getDonationAnalytics = onCall(
 
         // By type
         if (!summary.byType[type]) {
-          summary.byType[type] = { count: 0, amount: 0 };
+          summary.byType[type] = { count: 0, amount: 0, amountByCurrency: {} };
+        }
+        addToBreakdown(summary.byType[type], currency, amount, primaryAmount);
+
+        // By fund - gift amounts, since only the gift is credited to the zakat fund
+        if (!summary.byFund[donationFund]) {
+          summary.byFund[donationFund] = { count: 0, amount: 0, amountByCurrency: {} };
         }
-        summary.byType[type].count += 1;
-        summary.byType[type].amount += amount;
+        addToBreakdown(
+          summary.byFund[donationFund],
+          currency,
+          giftAmount,
+          currency === primaryCurrency ? giftAmount : 0
+        );
 
         // By status
         summary.byStatus[status] = (summary.byStatus[status] || 0) + 1;
@@ -325,19 +463,18 @@ export const getDonationAnalytics = onCall(
         if (dateStr) {
           const month = dateStr.substring(0, 7); // Extract YYYY-MM
           if (!summary.byMonth[month]) {
-            summary.byMonth[month] = { count: 0, amount: 0 };
+            summary.byMonth[month] = { count: 0, amount: 0, amountByCurrency: {} };
           }
-          summary.byMonth[month].count += 1;
-          summary.byMonth[month].amount += amount;
+          addToBreakdown(summary.byMonth[month], currency, amount, primaryAmount);
         }
       });
 
       // Calculate averages
       summary.totalDonations = summary.donationCount;
-      summary.averageDonation =
-        summary.donationCount > 0
-          ? Math.round(summary.totalAmount / summary.donationCount)
-          : 0;
+      Object.values(summary.byCurrency).forEach((entry) => {
+        entry.averageDonation = Math.round(entry.amount / entry.count);
+      });
+      summary.averageDonation = summary.byCurrency[primaryCurrency]?.averageDonation || 0;
 
       // Count active recurring donations
       const activeRecurringSnapshot = await db
@@ -346,6 +483,8 @@ export const getDonationAnalytics = onCall(
         .get();
       summary.activeRecurringCount = activeRecurringSnapshot.size;
 
+      const zakatLedger = await getZakatLedgerBalances();
+
       // ========================================
       // 4. Return Response
       // ========================================
@@ -354,6 +493,7 @@ export const getDonationAnalytics = onCall(
         donations,
         recurringDonations,
         summary,
+        zakatLedger,
         totalCount,
         hasMore: offset + limit < totalCount,
       };
@@ -362,6 +502,7 @@ export const getDonationAnalytics = onCall(
         donationsCount: donations.length,
         recurringCount: recurringDonations.length,
         totalAmount: summary.totalAmount / 100,
+        totalNetAmount: summary.totalNetAmount / 100,
       });
 
       return response;
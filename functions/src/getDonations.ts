@@ -1,6 +1,8 @@
-import { onCall } from "firebase-functions/v2/https";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
 import { logger } from "firebase-functions";
 import * as admin from "firebase-admin";
+import { requireAuth } from "./utils/authorization";
+import { getDonorEmails } from "./donorProfiles";
 
 const db = admin.firestore();
 
@@ -9,41 +11,67 @@ export const getUserDonations = onCall(
     region: "australia-southeast1",
   },
   async (request) => {
-    const { email } = request.data;
+    const auth = requireAuth(request);
 
-    if (!email) {
-      throw new Error("Email is required");
-    }
+    try {
+      // Donors see donations linked to their account or made with one of
+      // their verified emails - never an email the client sends
+      const emails = await getDonorEmails(auth);
 
-    const normalizedEmail = email.toLowerCase().trim();
+      if (emails.length === 0) {
+        throw new HttpsError(
+          "failed-precondition",
+          "A verified email address is required"
+        );
+      }
 
-    try {
       // Get one-time donations (exclude recurring donation payments)
-      const donationsSnapshot = await db
-        .collection("donations")
-        .where("donor_email", "==", normalizedEmail)
-        .where("is_recurring", "==", false)
-        .orderBy("created_at", "desc")
-        .get();
-
-      const donations = donationsSnapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-      }));
+      const donationSnapshots = await Promise.all([
+        db.collection("donations").where("donor_uid", "==", auth.uid).get(),
+        ...emails.map((email) =>
+          db
+            .collection("donations")
+            .where("donor_email", "==", email)
+            .where("is_recurring", "==", false)
+            .orderBy("created_at", "desc")
+            .get()
+        ),
+      ]);
+
+      const donationsById = new Map<string, FirebaseFirestore.DocumentData>();
+      donationSnapshots.forEach((snapshot) => {
+        snapshot.docs.forEach((doc) => {
+          const data = doc.data();
+          if (data.is_recurring !== true) {
+            donationsById.set(doc.id, { id: doc.id, ...data });
+          }
+        });
+      });
+
+      const donations = Array.from(donationsById.values()).sort(
+        (a, b) => (b.created_at?.toMillis?.() || 0) - (a.created_at?.toMillis?.() || 0)
+      );
 
       // Get recurring donations
-      const subscriptionsSnapshot = await db
-        .collection("recurringDonations")
-        .where("donor_email", "==", normalizedEmail)
-        .get();
+      const subscriptionSnapshots = await Promise.all([
+        db.collection("recurringDonations").where("donor_uid", "==", auth.uid).get(),
+        ...emails.map((email) =>
+          db.collection("recurringDonations").where("donor_email", "==", email).get()
+        ),
+      ]);
+
+      const subscriptionsById = new Map<string, FirebaseFirestore.DocumentData>();
+      subscriptionSnapshots.forEach((snapshot) => {
+        snapshot.docs.forEach((doc) => {
+          subscriptionsById.set(doc.id, { id: doc.id, ...doc.data() });
+        });
+      });
 
-      const subscriptions = subscriptionsSnapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-      }));
+      const subscriptions = Array.from(subscriptionsById.values());
 
       logger.info("Donations retrieved", {
-        email: normalizedEmail,
+        emails,
+        uid: auth.uid,
         donationsCount: donations.length,
         subscriptionsCount: subscriptions.length,
       });
@@ -53,8 +81,11 @@ export const getUserDonations = onCall(
         subscriptions,
       };
     } catch (error: any) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
       logger.error("Error getting donations", error);
-      throw new Error("Failed to retrieve donations");
+      throw new HttpsError("internal", "Failed to retrieve donations");
     }
   }
 );
@@ -26,17 +26,68 @@ export {
   createPaymentIntent,
   createSubscription,
   cancelSubscription,
+  pauseSubscription,
+  resumeSubscription,
+  updateSubscription,
   getDonationSettings} from "./donations";
 
 export { handleStripeWebhook } from "./webhooks";
+export {
+  listWebhookEvents,
+  replayWebhookEvents,
+  sweepFailedWebhookEvents,
+} from "./webhookEvents";
+export {
+  reconcileStripeDaily,
+  runStripeReconciliation,
+  listReconciliationReports,
+} from "./reconciliation";
+export {
+  listDisputes,
+  submitDisputeEvidence,
+  sendDisputeEvidenceReminders,
+} from "./disputes";
+export {
+  listAlertRecipients,
+  saveAlertRecipient,
+  deleteAlertRecipient,
+  sendTestAlert,
+  linkAlertDevice,
+} from "./alerts";
+export { sendFinalRetryWarnings } from "./dunning";
+export {
+  createRamadanGivingSchedule,
+  cancelRamadanGivingSchedule,
+  chargeRamadanNights,
+} from "./ramadanGiving";
 export * from "./subscriptionManagement";
 export * from "./getDonations";
 export { getDonationAnalytics } from "./getDonationAnalytics";
+export { sendTaxStatement, sendAnnualTaxStatements } from "./taxStatements";
+export { getDonationReceiptPdf } from "./receipts";
+export { issueRefund } from "./refunds";
+export { calculateZakat, recordZakatDisbursement } from "./zakat";
+export { processCampaignLifecycle } from "./campaignLifecycle";
+export { getDonorProfile } from "./donorProfiles";
 export { onEventCreated } from "./notifications/onEventCreated";
 export { onEventUpdated } from "./notifications/onEventUpdated";
 export { onCampaignCreated } from "./notifications/onCampaignCreated";
 export { onIqamahChanged } from "./notifications/onIqamahChanged";
 export { sendCustomNotification } from "./notifications/sendCustomNotification";
+export { onNotificationJobRun, resumeNotificationJobs } from "./notifications/processNotificationJobs";
+export {
+  createScheduledNotification,
+  listScheduledNotifications,
+  updateScheduledNotification,
+  cancelScheduledNotification,
+  dispatchScheduledNotifications,
+} from "./notifications/scheduledNotifications";
+export { sendPrayerReminders } from "./notifications/prayerReminders";
+export {
+  recordNotificationEvent,
+  aggregateNotificationEngagement,
+  getNotificationAnalytics,
+} from "./notifications/notificationEngagement";
 export { onEventDeleted } from "./cleanup/onEventDeleted";
 export { onCampaignDeleted } from "./cleanup/onCampaignDeleted";
 export { onNotificationLogDeleted } from "./cleanup/onNotificationLogDeleted";
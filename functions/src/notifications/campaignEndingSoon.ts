@@ -0,0 +1,67 @@
+// ============================================================================
+// CAMPAIGN "LAST 24 HOURS" REMINDER
+// Location: functions/src/notifications/campaignEndingSoon.ts
+// ============================================================================
+// Sent once per campaign by processCampaignLifecycle (campaignLifecycle.ts)
+
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import { sendMulticast } from "../utils/notificationDelivery";
+import { getTargetedTokens } from "../utils/notificationTargeting";
+import { buildDataOnlyMessage } from "../utils/messagingHelpers";
+import { formatAmount } from "../emails/index.js";
+import { getDefaultCurrency, normalizeCurrency } from "../utils/currency";
+
+export async function sendCampaignEndingSoonNotification(
+  campaignId: string,
+  campaignData: FirebaseFirestore.DocumentData,
+  endsAt: Date
+) {
+  try {
+    const { tokens, deviceIds } = await getTargetedTokens({ category: "campaigns" });
+
+    if (tokens.length === 0) {
+      logger.info("No active devices opted into this notification category");
+      return;
+    }
+
+    const goalAmount = campaignData.goal_amount;
+    const currentAmount = campaignData.current_amount || 0;
+    // Campaigns without a currency are in the mosque's default currency
+    const currency = campaignData.currency
+      ? normalizeCurrency(campaignData.currency)
+      : getDefaultCurrency(
+        (await admin.firestore().collection("donationSettings").doc("config").get()).data()
+      );
+    const remainingStr = goalAmount && currentAmount < goalAmount
+      ? ` - ${formatAmount(goalAmount - currentAmount, currency)} to go`
+      : "";
+
+    // Send data-only message for consistent Notifee styling across all app states
+    const messageData: Record<string, string> = {
+      type: "campaign_ending",
+      campaignId,
+      title: "⏳ Last 24 Hours to Donate",
+      body: `${campaignData.title} closes soon${remainingStr}`,
+      campaignTitle: campaignData.title || "",
+      goalAmount: goalAmount?.toString() || "0",
+      currentAmount: currentAmount.toString(),
+      endsAt: endsAt.toISOString(),
+      imageUrl: campaignData.image_url || "",
+    };
+
+    const message = buildDataOnlyMessage(messageData, tokens);
+
+    const response = await sendMulticast(message, deviceIds, { label: "campaign_ending_soon" });
+
+    logger.info(response.queued ? "📬 Campaign ending reminder queued" : "✅ Campaign ending reminder sent", {
+      campaignId,
+      ...(response.queued
+        ? { jobId: response.jobId }
+        : { successCount: response.successCount, failureCount: response.failureCount }),
+      totalTokens: tokens.length,
+    });
+  } catch (error: any) {
+    logger.error("❌ Error sending campaign ending reminder:", error);
+  }
+}
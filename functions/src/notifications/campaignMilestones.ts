@@ -0,0 +1,97 @@
+// ============================================================================
+// CAMPAIGN GOAL MILESTONES
+// Location: functions/src/notifications/campaignMilestones.ts
+// ============================================================================
+// Milestones are detected inside the updateCampaignTotal transaction (webhooks.ts)
+// and recorded on the campaign as `milestones_reached`, so each one fires once.
+// Campaigns with `auto_close_on_goal: true` are marked "completed" at 100%.
+
+import { logger } from "firebase-functions";
+import { sendMulticast } from "../utils/notificationDelivery";
+import { getTargetedTokens } from "../utils/notificationTargeting";
+import { buildDataOnlyMessage } from "../utils/messagingHelpers";
+import { formatAmount } from "../emails/index.js";
+
+export const CAMPAIGN_MILESTONES = [25, 50, 75, 100];
+
+/**
+ * Milestones (percent of goal_amount) newly reached by a campaign total.
+ * Milestones already in `milestones_reached` are never returned again,
+ * even if a refund drops the total below them and it climbs back.
+ */
+export function getNewCampaignMilestones(
+  campaignData: FirebaseFirestore.DocumentData,
+  newAmount: number
+): number[] {
+  const goalAmount = campaignData.goal_amount;
+  if (!goalAmount || goalAmount <= 0) {
+    return [];
+  }
+
+  const reached: number[] = Array.isArray(campaignData.milestones_reached)
+    ? campaignData.milestones_reached
+    : [];
+  const percent = (newAmount / goalAmount) * 100;
+
+  return CAMPAIGN_MILESTONES.filter(
+    (milestone) => percent >= milestone && !reached.includes(milestone)
+  );
+}
+
+/**
+ * Sends a push notification for the highest newly reached milestone.
+ * A single donation can cross several thresholds - only one push is sent.
+ * `campaignData.currency` is already resolved by updateCampaignTotal.
+ */
+export async function sendCampaignMilestoneNotification(
+  campaignId: string,
+  campaignData: FirebaseFirestore.DocumentData,
+  milestone: number,
+  currentAmount: number
+) {
+  try {
+    const { tokens, deviceIds } = await getTargetedTokens({ category: "campaigns" });
+
+    if (tokens.length === 0) {
+      logger.info("No active devices opted into this notification category");
+      return;
+    }
+
+    const goalStr = formatAmount(campaignData.goal_amount, campaignData.currency);
+    const title = milestone >= 100
+      ? "🎉 Campaign Goal Reached!"
+      : `💚 Campaign ${milestone}% Funded`;
+    const body = milestone >= 100
+      ? `${campaignData.title} has reached its goal of ${goalStr}. JazakAllahu khairan!`
+      : `${campaignData.title} is ${milestone}% of the way to its goal of ${goalStr}`;
+
+    // Send data-only message for consistent Notifee styling across all app states
+    const messageData: Record<string, string> = {
+      type: "campaign_milestone",
+      campaignId,
+      title,
+      body,
+      campaignTitle: campaignData.title || "",
+      milestone: milestone.toString(),
+      goalAmount: campaignData.goal_amount?.toString() || "0",
+      currentAmount: currentAmount.toString(),
+      imageUrl: campaignData.image_url || "",
+    };
+
+    const message = buildDataOnlyMessage(messageData, tokens);
+
+    const response = await sendMulticast(message, deviceIds, { label: "campaign_milestone" });
+
+    logger.info(response.queued ? "📬 Campaign milestone notifications queued" : "✅ Campaign milestone notifications sent", {
+      campaignId,
+      milestone,
+      ...(response.queued
+        ? { jobId: response.jobId }
+        : { successCount: response.successCount, failureCount: response.failureCount }),
+      totalTokens: tokens.length,
+    });
+  } catch (error: any) {
+    // Don't throw - a failed push shouldn't fail the donation webhook
+    logger.error("❌ Error sending campaign milestone notifications:", error);
+  }
+}
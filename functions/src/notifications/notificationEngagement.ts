@@ -0,0 +1,425 @@
+// ============================================================================
+// CLOUD FUNCTIONS: Notification Engagement (delivery receipts & open rates)
+// Location: functions/src/notifications/notificationEngagement.ts
+// ============================================================================
+// Logged notifications carry `logId` in their data payload. The app reports
+// when one is displayed or tapped; each device counts once per notification:
+//
+// notificationLogs/{logId}/receipts/{deviceId}:
+//   delivered: true, deliveredAt      // Displayed (a tap implies it was displayed)
+//   opened: boolean, openedAt
+//
+// Writing a counter on the log for every device would hammer a single
+// document right after a broadcast, so aggregateNotificationEngagement counts
+// the receipts of recent logs and sets notificationLogs.deliveredCount /
+// openedCount.
+
+import { onCall, HttpsError, CallableRequest } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import { Permission } from "../utils/roles";
+import { requirePermission } from "../utils/authorization";
+import {
+  getMosqueTimezone,
+  getZonedDateParts,
+  toZonedDateString,
+  zonedTimeToUtc,
+} from "../utils/timezone";
+
+// Receipts for logs older than this are no longer aggregated
+const ENGAGEMENT_WINDOW_DAYS = 14;
+
+const DEFAULT_ANALYTICS_DAYS = 30;
+const MAX_ANALYTICS_DAYS = 366;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+type EngagementEvent = "displayed" | "tapped";
+
+interface RecordNotificationEventRequest {
+  deviceId: string;
+  logId: string;
+  event: EngagementEvent;
+}
+
+type AnalyticsPeriod = "day" | "week" | "month";
+
+interface NotificationAnalyticsRequest {
+  startDate?: string; // YYYY-MM-DD (mosque timezone), default 30 days ago
+  endDate?: string; // YYYY-MM-DD (mosque timezone), default today
+  period?: AnalyticsPeriod; // Bucket size for byPeriod (default "week")
+}
+
+// Rates are percentages of successCount (notifications FCM accepted)
+interface EngagementStats {
+  notifications: number;
+  sentTo: number;
+  successCount: number;
+  failureCount: number;
+  deliveredCount: number;
+  openedCount: number;
+  deliveryRate: number;
+  openRate: number;
+}
+
+// ============================================================================
+// RATE LIMITING (per device, same approach as tokens.ts)
+// ============================================================================
+
+const recentEvents = new Map<string, number[]>();
+
+/**
+ * Max 30 events per minute per device - enough for a burst of notifications
+ */
+function checkEventRateLimit(deviceId: string): void {
+  const now = Date.now();
+  const windowMs = 60 * 1000; // 1 minute
+
+  const calls = recentEvents.get(deviceId) || [];
+  const callsInWindow = calls.filter((timestamp) => now - timestamp < windowMs);
+
+  if (callsInWindow.length >= 30) {
+    throw new HttpsError(
+      "resource-exhausted",
+      "Rate limit exceeded. Please try again later."
+    );
+  }
+
+  callsInWindow.push(now);
+  recentEvents.set(deviceId, callsInWindow);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function validateId(value: unknown, fieldName: string): string {
+  if (typeof value !== "string" || value.length === 0 || value.length > 128 ||
+    !/^[a-zA-Z0-9._-]+$/.test(value)) {
+    throw new HttpsError("invalid-argument", `${fieldName} is invalid`);
+  }
+  return value;
+}
+
+function emptyStats(): EngagementStats {
+  return {
+    notifications: 0,
+    sentTo: 0,
+    successCount: 0,
+    failureCount: 0,
+    deliveredCount: 0,
+    openedCount: 0,
+    deliveryRate: 0,
+    openRate: 0,
+  };
+}
+
+function addToStats(stats: EngagementStats, log: FirebaseFirestore.DocumentData) {
+  stats.notifications += 1;
+  stats.sentTo += log.sentTo || 0;
+  stats.successCount += log.successCount || 0;
+  stats.failureCount += log.failureCount || 0;
+  stats.deliveredCount += log.deliveredCount || 0;
+  stats.openedCount += log.openedCount || 0;
+}
+
+function finalizeStats(stats: EngagementStats): EngagementStats {
+  const percent = (count: number) =>
+    stats.successCount > 0 ? Math.round((count / stats.successCount) * 1000) / 10 : 0;
+  stats.deliveryRate = percent(stats.deliveredCount);
+  stats.openRate = percent(stats.openedCount);
+  return stats;
+}
+
+/**
+ * Bucket key for a send time: YYYY-MM-DD (day), the Monday YYYY-MM-DD (week) or YYYY-MM (month)
+ */
+function getPeriodKey(date: Date, period: AnalyticsPeriod, timeZone: string): string {
+  if (period === "month") {
+    return toZonedDateString(date, timeZone).slice(0, 7);
+  }
+  if (period === "week") {
+    const parts = getZonedDateParts(date, timeZone);
+    const daysSinceMonday = (parts.weekday + 6) % 7;
+    const monday = new Date(Date.UTC(parts.year, parts.month - 1, parts.day - daysSinceMonday));
+    return monday.toISOString().slice(0, 10);
+  }
+  return toZonedDateString(date, timeZone);
+}
+
+function parseDate(value: unknown, fieldName: string): { year: number; month: number; day: number } {
+  const match = typeof value === "string" ? value.match(/^(\d{4})-(\d{2})-(\d{2})$/) : null;
+  if (!match) {
+    throw new HttpsError("invalid-argument", `${fieldName} must be in format YYYY-MM-DD`);
+  }
+  return { year: +match[1], month: +match[2], day: +match[3] };
+}
+
+// ============================================================================
+// CALLABLE FUNCTION: Record Notification Event (called by the app)
+// ============================================================================
+
+/**
+ * Record that a logged notification was displayed or tapped on a device.
+ * Repeat events from the same device are ignored.
+ *
+ * App Check stays off like the other device callables in tokens.ts: the app
+ * isn't registered with App Check yet, so enforcing it would reject every
+ * event. Only registered devices can record, once per notification.
+ */
+export const recordNotificationEvent = onCall(
+  {
+    enforceAppCheck: false, // Enable together with the tokens.ts callables
+    region: "australia-southeast1",
+  },
+  async (request: CallableRequest<RecordNotificationEventRequest>) => {
+    const { deviceId, logId, event } = request.data || {};
+
+    try {
+      const validDeviceId = validateId(deviceId, "deviceId");
+      const validLogId = validateId(logId, "logId");
+      if (event !== "displayed" && event !== "tapped") {
+        throw new HttpsError("invalid-argument", "event must be 'displayed' or 'tapped'");
+      }
+
+      checkEventRateLimit(validDeviceId);
+
+      const db = admin.firestore();
+      const logRef = db.collection("notificationLogs").doc(validLogId);
+      const receiptRef = logRef.collection("receipts").doc(validDeviceId);
+
+      const [logDoc, tokenDoc, receiptDoc] = await db.getAll(
+        logRef,
+        db.collection("fcmTokens").doc(validDeviceId),
+        receiptRef
+      );
+
+      if (!logDoc.exists) {
+        throw new HttpsError("not-found", "Notification not found");
+      }
+      if (!tokenDoc.exists) {
+        throw new HttpsError("failed-precondition", "Device is not registered");
+      }
+
+      const receipt = receiptDoc.data() || {};
+      const update: Record<string, any> = {};
+
+      if (!receipt.delivered) {
+        update.delivered = true;
+        update.deliveredAt = admin.firestore.FieldValue.serverTimestamp();
+      }
+      if (event === "tapped" && !receipt.opened) {
+        update.opened = true;
+        update.openedAt = admin.firestore.FieldValue.serverTimestamp();
+      } else if (!receiptDoc.exists) {
+        update.opened = false;
+      }
+
+      if (Object.keys(update).length === 0) {
+        return { ok: true, recorded: false };
+      }
+
+      await receiptRef.set(update, { merge: true });
+
+      return { ok: true, recorded: true };
+    } catch (error) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+
+      logger.error("Error recording notification event", {
+        deviceId,
+        logId,
+        event,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      throw new HttpsError("internal", "Failed to record notification event");
+    }
+  }
+);
+
+// ============================================================================
+// SCHEDULED FUNCTION: Aggregate Receipts onto notificationLogs
+// ============================================================================
+
+export const aggregateNotificationEngagement = onSchedule(
+  {
+    schedule: "*/10 * * * *", // Every 10 minutes
+    timeZone: "Australia/Sydney",
+    region: "australia-southeast1",
+  },
+  async () => {
+    try {
+      const cutoff = new Date(Date.now() - ENGAGEMENT_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+      const logsSnapshot = await admin.firestore()
+        .collection("notificationLogs")
+        .where("sentAt", ">=", admin.firestore.Timestamp.fromDate(cutoff))
+        .get();
+
+      let updated = 0;
+
+      for (const logDoc of logsSnapshot.docs) {
+        const receipts = logDoc.ref.collection("receipts");
+        const [delivered, opened] = await Promise.all([
+          receipts.where("delivered", "==", true).count().get(),
+          receipts.where("opened", "==", true).count().get(),
+        ]);
+
+        const deliveredCount = delivered.data().count;
+        const openedCount = opened.data().count;
+        const log = logDoc.data();
+
+        if (log.deliveredCount === deliveredCount && log.openedCount === openedCount) {
+          continue;
+        }
+
+        await logDoc.ref.update({
+          deliveredCount,
+          openedCount,
+          engagementUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        updated++;
+      }
+
+      if (updated > 0) {
+        logger.info("📈 Notification engagement aggregated", {
+          logsChecked: logsSnapshot.size,
+          logsUpdated: updated,
+        });
+      }
+    } catch (error: any) {
+      logger.error("❌ Error aggregating notification engagement:", error);
+    }
+  }
+);
+
+// ============================================================================
+// CALLABLE FUNCTION: Get Notification Analytics
+// ============================================================================
+
+export const getNotificationAnalytics = onCall({
+  region: "australia-southeast1",
+  cors: true,
+}, async (request) => {
+  const auth = requirePermission(
+    request,
+    Permission.VIEW_NOTIFICATION_HISTORY,
+    "You do not have permission to view notification analytics"
+  );
+
+  const {
+    startDate,
+    endDate,
+    period = "week",
+  } = (request.data || {}) as NotificationAnalyticsRequest;
+
+  if (!["day", "week", "month"].includes(period)) {
+    throw new HttpsError("invalid-argument", "period must be day, week or month");
+  }
+
+  try {
+    const timezone = await getMosqueTimezone();
+    const now = new Date();
+    const today = getZonedDateParts(now, timezone);
+
+    const start = startDate
+      ? parseDate(startDate, "startDate")
+      : { year: today.year, month: today.month, day: today.day - (DEFAULT_ANALYTICS_DAYS - 1) };
+    const end = endDate ? parseDate(endDate, "endDate") : today;
+
+    // Whole days in the mosque timezone; end is exclusive (midnight after endDate)
+    const rangeStart = zonedTimeToUtc(start.year, start.month, start.day, 0, 0, timezone);
+    const rangeEnd = zonedTimeToUtc(end.year, end.month, end.day + 1, 0, 0, timezone);
+
+    if (rangeEnd <= rangeStart) {
+      throw new HttpsError("invalid-argument", "endDate must be on or after startDate");
+    }
+    if (rangeEnd.getTime() - rangeStart.getTime() > MAX_ANALYTICS_DAYS * 24 * 60 * 60 * 1000) {
+      throw new HttpsError("invalid-argument", `Date range must be ${MAX_ANALYTICS_DAYS} days or less`);
+    }
+
+    logger.info("📊 Fetching notification analytics", {
+      uid: auth.uid,
+      rangeStart: rangeStart.toISOString(),
+      rangeEnd: rangeEnd.toISOString(),
+      period,
+    });
+
+    const logsSnapshot = await admin.firestore()
+      .collection("notificationLogs")
+      .where("sentAt", ">=", admin.firestore.Timestamp.fromDate(rangeStart))
+      .where("sentAt", "<", admin.firestore.Timestamp.fromDate(rangeEnd))
+      .orderBy("sentAt", "desc")
+      .get();
+
+    const totals = emptyStats();
+    const byType: { [type: string]: EngagementStats } = {};
+    const byPeriod: { [period: string]: EngagementStats } = {};
+
+    for (const doc of logsSnapshot.docs) {
+      const log = doc.data();
+      const sentAt: Date | undefined = log.sentAt?.toDate?.();
+      if (!sentAt) {
+        continue;
+      }
+
+      const type = log.type || "general";
+      const periodKey = getPeriodKey(sentAt, period, timezone);
+
+      byType[type] = byType[type] || emptyStats();
+      byPeriod[periodKey] = byPeriod[periodKey] || emptyStats();
+
+      addToStats(totals, log);
+      addToStats(byType[type], log);
+      addToStats(byPeriod[periodKey], log);
+    }
+
+    finalizeStats(totals);
+    Object.values(byType).forEach(finalizeStats);
+    Object.values(byPeriod).forEach(finalizeStats);
+
+    // Most recent notifications with their own rates
+    const notifications = logsSnapshot.docs.slice(0, 50).map((doc) => {
+      const log = doc.data();
+      const stats = emptyStats();
+      addToStats(stats, log);
+      finalizeStats(stats);
+      return {
+        id: doc.id,
+        title: log.title || "",
+        type: log.type || "general",
+        category: log.category || null,
+        sentAt: log.sentAt?.toDate?.()?.toISOString() ?? null,
+        sentTo: stats.sentTo,
+        successCount: stats.successCount,
+        deliveredCount: stats.deliveredCount,
+        openedCount: stats.openedCount,
+        deliveryRate: stats.deliveryRate,
+        openRate: stats.openRate,
+      };
+    });
+
+    return {
+      success: true,
+      startDate: toZonedDateString(rangeStart, timezone),
+      endDate: toZonedDateString(new Date(rangeEnd.getTime() - 1), timezone),
+      period,
+      totals,
+      byType,
+      byPeriod: Object.fromEntries(
+        Object.entries(byPeriod).sort(([a], [b]) => a.localeCompare(b))
+      ),
+      notifications,
+    };
+  } catch (error: any) {
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    logger.error("❌ Error fetching notification analytics:", error);
+    throw new HttpsError("internal", "Failed to fetch notification analytics");
+  }
+});
@@ -5,8 +5,8 @@
 
 import { onDocumentCreated } from "firebase-functions/v2/firestore";
 import { logger } from "firebase-functions";
-import * as admin from "firebase-admin";
-import { getActiveTokens, cleanupInvalidTokens } from "../utils/tokenCleanup";
+import { sendMulticast } from "../utils/notificationDelivery";
+import { getTargetedTokens } from "../utils/notificationTargeting";
 import { buildDataOnlyMessage } from "../utils/messagingHelpers";
 
 export const onCampaignCreated = onDocumentCreated(
@@ -28,11 +28,11 @@ export const onCampaignCreated = onDocumentCreated(
         title: campaignData.title,
       });
 
-      // Get all active devices with notifications enabled
-      const { tokens, deviceIds } = await getActiveTokens(90);
+      // Get active devices that opted into this category
+      const { tokens, deviceIds } = await getTargetedTokens({ category: "campaigns" });
 
       if (tokens.length === 0) {
-        logger.info("No active devices with notifications enabled");
+        logger.info("No active devices opted into this notification category");
         return;
       }
 
@@ -55,14 +55,12 @@ export const onCampaignCreated = onDocumentCreated(
 
       const message = buildDataOnlyMessage(messageData, tokens);
 
-      const response = await admin.messaging().sendEachForMulticast(message);
+      const response = await sendMulticast(message, deviceIds, { label: "campaign_created" });
 
-      // Clean up invalid tokens
-      await cleanupInvalidTokens(tokens, response.responses, deviceIds);
-
-      logger.info("✅ Campaign notifications sent", {
-        successCount: response.successCount,
-        failureCount: response.failureCount,
+      logger.info(response.queued ? "📬 Campaign notifications queued" : "✅ Campaign notifications sent", {
+        ...(response.queued
+          ? { jobId: response.jobId }
+          : { successCount: response.successCount, failureCount: response.failureCount }),
         totalTokens: tokens.length,
       });
 
@@ -5,8 +5,8 @@
 
 import { onDocumentCreated } from "firebase-functions/v2/firestore";
 import { logger } from "firebase-functions";
-import * as admin from "firebase-admin";
-import { getActiveTokens, cleanupInvalidTokens } from "../utils/tokenCleanup";
+import { sendMulticast } from "../utils/notificationDelivery";
+import { getTargetedTokens, getEventCategoryId } from "../utils/notificationTargeting";
 import { buildDataOnlyMessage, timestampToString } from "../utils/messagingHelpers";
 
 export const onEventCreated = onDocumentCreated(
@@ -28,11 +28,14 @@ export const onEventCreated = onDocumentCreated(
         title: eventData.title,
       });
 
-      // Get all active devices with notifications enabled
-      const { tokens, deviceIds } = await getActiveTokens(90);
+      // Get active devices that opted into this category
+      const { tokens, deviceIds } = await getTargetedTokens({
+        category: "events",
+        eventCategoryId: getEventCategoryId(eventData),
+      });
 
       if (tokens.length === 0) {
-        logger.info("No active devices with notifications enabled");
+        logger.info("No active devices opted into this notification category");
         return;
       }
 
@@ -69,14 +72,12 @@ export const onEventCreated = onDocumentCreated(
 
       const message = buildDataOnlyMessage(messageData, tokens);
 
-      const response = await admin.messaging().sendEachForMulticast(message);
-
-      // Clean up invalid tokens
-      await cleanupInvalidTokens(tokens, response.responses, deviceIds);
+      const response = await sendMulticast(message, deviceIds, { label: "event_created" });
 
-      logger.info("✅ Event notifications sent", {
-        successCount: response.successCount,
-        failureCount: response.failureCount,
+      logger.info(response.queued ? "📬 Event notifications queued" : "✅ Event notifications sent", {
+        ...(response.queued
+          ? { jobId: response.jobId }
+          : { successCount: response.successCount, failureCount: response.failureCount }),
         totalTokens: tokens.length,
       });
 
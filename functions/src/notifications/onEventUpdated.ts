@@ -6,7 +6,8 @@
 import { onDocumentUpdated } from "firebase-functions/v2/firestore";
 import { logger } from "firebase-functions";
 import * as admin from "firebase-admin";
-import { getActiveTokens, cleanupInvalidTokens } from "../utils/tokenCleanup";
+import { sendMulticast } from "../utils/notificationDelivery";
+import { getTargetedTokens, getEventCategoryId } from "../utils/notificationTargeting";
 import { buildDataOnlyMessage, timestampToString } from "../utils/messagingHelpers";
 
 /**
@@ -183,11 +184,14 @@ export const onEventUpdated = onDocumentUpdated(
 
       logger.info("📣 Significant event changes detected:", { changes, notificationBody });
 
-      // Get all active devices with notifications enabled
-      const { tokens, deviceIds } = await getActiveTokens(90);
+      // Get active devices that opted into this category
+      const { tokens, deviceIds } = await getTargetedTokens({
+        category: "events",
+        eventCategoryId: getEventCategoryId(after),
+      });
 
       if (tokens.length === 0) {
-        logger.info("No active devices with notifications enabled");
+        logger.info("No active devices opted into this notification category");
         return;
       }
 
@@ -207,14 +211,12 @@ export const onEventUpdated = onDocumentUpdated(
 
       const message = buildDataOnlyMessage(messageData, tokens);
 
-      const response = await admin.messaging().sendEachForMulticast(message);
-
-      // Clean up invalid tokens
-      await cleanupInvalidTokens(tokens, response.responses, deviceIds);
+      const response = await sendMulticast(message, deviceIds, { label: "event_updated" });
 
-      logger.info("✅ Event update notifications sent", {
-        successCount: response.successCount,
-        failureCount: response.failureCount,
+      logger.info(response.queued ? "📬 Event update notifications queued" : "✅ Event update notifications sent", {
+        ...(response.queued
+          ? { jobId: response.jobId }
+          : { successCount: response.successCount, failureCount: response.failureCount }),
         totalTokens: tokens.length,
         changes: changes,
       });
@@ -5,8 +5,8 @@
 
 import { onDocumentUpdated } from "firebase-functions/v2/firestore";
 import { logger } from "firebase-functions";
-import * as admin from "firebase-admin";
-import { getActiveTokens, cleanupInvalidTokens } from "../utils/tokenCleanup";
+import { sendMulticast } from "../utils/notificationDelivery";
+import { getTargetedTokens } from "../utils/notificationTargeting";
 import { buildDataOnlyMessage } from "../utils/messagingHelpers";
 
 export const onIqamahChanged = onDocumentUpdated(
@@ -51,11 +51,11 @@ export const onIqamahChanged = onDocumentUpdated(
 
       logger.info("📿 Iqamah times changed:", { changes });
 
-      // Get all active devices with notifications enabled
-      const { tokens, deviceIds } = await getActiveTokens(90);
+      // Get active devices that opted into this category
+      const { tokens, deviceIds } = await getTargetedTokens({ category: "prayer" });
 
       if (tokens.length === 0) {
-        logger.info("No active devices with notifications enabled");
+        logger.info("No active devices opted into this notification category");
         return;
       }
 
@@ -72,14 +72,12 @@ export const onIqamahChanged = onDocumentUpdated(
 
       const message = buildDataOnlyMessage(messageData, tokens);
 
-      const response = await admin.messaging().sendEachForMulticast(message);
+      const response = await sendMulticast(message, deviceIds, { label: "iqamah_changed" });
 
-      // Clean up invalid tokens
-      await cleanupInvalidTokens(tokens, response.responses, deviceIds);
-
-      logger.info("✅ Iqamah change notifications sent", {
-        successCount: response.successCount,
-        failureCount: response.failureCount,
+      logger.info(response.queued ? "📬 Iqamah change notifications queued" : "✅ Iqamah change notifications sent", {
+        ...(response.queued
+          ? { jobId: response.jobId }
+          : { successCount: response.successCount, failureCount: response.failureCount }),
         totalTokens: tokens.length,
         changes: changes,
       });
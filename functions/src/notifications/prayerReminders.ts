@@ -0,0 +1,318 @@
+// ============================================================================
+// CLOUD FUNCTION: Prayer Reminders (N minutes before iqama)
+// Location: functions/src/notifications/prayerReminders.ts
+// ============================================================================
+// Devices opt in via setNotificationPreference (fcmTokens.prayerReminders):
+// which prayers, how many minutes before iqama, and a Friday Jumuah reminder.
+// Every few minutes the scheduler reads prayerTimes/current, works out which
+// reminder windows (prayer + offset) have opened, and sends each window once
+// to the devices whose preferences match.
+//
+// On Fridays Jumuah replaces the Dhuhr reminder. Its time comes from the
+// Jumuah times the admin app manages, not from dhuhr_iqama:
+//
+// jumuahTimes/current:
+//   times: Array<{ time: "1:15 PM", ... }>  // One per session; reminders go before the first
+// No Jumuah time set means no Jumuah reminder.
+//
+// prayerReminderRuns/{YYYY-MM-DD}_{prayer}_{offset}: claimed before sending so
+// overlapping runs never send a window twice
+//   date, prayer, offsetMinutes, iqamaTime, remindAt, sentTo,
+//   successCount, failureCount (or deliveryJobId when queued)
+
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import { sendMulticast } from "../utils/notificationDelivery";
+import {
+  PRAYER_REMINDER_OFFSETS,
+  REMINDER_PRAYERS,
+  ReminderPrayer,
+  getPrayerReminderTokens,
+} from "../utils/notificationTargeting";
+import { buildDataOnlyMessage } from "../utils/messagingHelpers";
+import {
+  getMosqueTimezone,
+  getZonedDateParts,
+  toZonedDateString,
+  zonedTimeToUtc,
+} from "../utils/timezone";
+
+const DISPATCH_INTERVAL_MINUTES = 5;
+
+// A window is still sent if a run starts this late (cold starts, a skipped run)
+const LATE_GRACE_MINUTES = 10;
+
+// Claimed windows older than this are purged
+const RUN_RETENTION_DAYS = 7;
+
+const PRAYER_LABELS: Record<ReminderPrayer | "jumuah", string> = {
+  fajr: "Fajr",
+  dhuhr: "Dhuhr",
+  asr: "Asr",
+  maghrib: "Maghrib",
+  isha: "Isha",
+  jumuah: "Jumuah",
+};
+
+interface ReminderWindow {
+  prayer: ReminderPrayer | "jumuah";
+  offsetMinutes: number;
+  iqamaTime: string; // As shown in the app, e.g. "1:30 PM"
+  date: string; // YYYY-MM-DD in mosque timezone
+  remindAt: Date;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Parse an iqama time string (e.g. "5:30 AM") to hours and minutes
+ */
+function parseIqamaTime(timeStr: unknown): { hour: number; minute: number } | null {
+  const match = typeof timeStr === "string" ? timeStr.match(/(\d+):(\d+)\s*(AM|PM)/i) : null;
+  if (!match) return null;
+
+  let hour = parseInt(match[1]);
+  const minute = parseInt(match[2]);
+  const period = match[3].toUpperCase();
+
+  if (period === "PM" && hour !== 12) {
+    hour += 12;
+  } else if (period === "AM" && hour === 12) {
+    hour = 0;
+  }
+
+  return { hour, minute };
+}
+
+/**
+ * Time of the first Jumuah session (jumuahTimes/current), or null if none is set
+ */
+async function getJumuahTime(): Promise<string | null> {
+  const jumuahDoc = await admin.firestore()
+    .collection("jumuahTimes")
+    .doc("current")
+    .get();
+
+  const sessions: unknown = jumuahDoc.data()?.times;
+  if (!Array.isArray(sessions)) {
+    return null;
+  }
+
+  const times = sessions
+    .map((session) => session?.time)
+    .filter((time): time is string => parseIqamaTime(time) !== null)
+    .sort((a, b) => {
+      const timeA = parseIqamaTime(a)!;
+      const timeB = parseIqamaTime(b)!;
+      return (timeA.hour * 60 + timeA.minute) - (timeB.hour * 60 + timeB.minute);
+    });
+
+  return times[0] || null;
+}
+
+/**
+ * Reminder windows that have opened in the last LATE_GRACE_MINUTES and whose
+ * iqama hasn't started yet. On Fridays Jumuah (if set) takes the Dhuhr slot.
+ */
+function getOpenReminderWindows(
+  prayerTimes: FirebaseFirestore.DocumentData,
+  jumuahTime: string | null,
+  now: Date,
+  timeZone: string
+): ReminderWindow[] {
+  const today = getZonedDateParts(now, timeZone);
+  const isFriday = today.weekday === 5;
+  const windows: ReminderWindow[] = [];
+
+  const slots: Array<{ prayer: ReminderPrayer | "jumuah"; iqamaTime: unknown }> = REMINDER_PRAYERS
+    .filter((prayer) => !(isFriday && prayer === "dhuhr"))
+    .map((prayer) => ({ prayer, iqamaTime: prayerTimes[`${prayer}_iqama`] }));
+  if (isFriday && jumuahTime) {
+    slots.push({ prayer: "jumuah", iqamaTime: jumuahTime });
+  }
+
+  for (const { prayer, iqamaTime } of slots) {
+    const parsed = parseIqamaTime(iqamaTime);
+    if (!parsed) {
+      continue;
+    }
+
+    const iqamaAt = zonedTimeToUtc(today.year, today.month, today.day, parsed.hour, parsed.minute, timeZone);
+    if (iqamaAt <= now) {
+      continue;
+    }
+
+    for (const offsetMinutes of PRAYER_REMINDER_OFFSETS) {
+      const remindAt = new Date(iqamaAt.getTime() - offsetMinutes * 60 * 1000);
+      const lateMs = now.getTime() - remindAt.getTime();
+
+      if (lateMs >= 0 && lateMs < LATE_GRACE_MINUTES * 60 * 1000) {
+        windows.push({
+          prayer,
+          offsetMinutes,
+          iqamaTime: iqamaTime as string,
+          date: toZonedDateString(iqamaAt, timeZone),
+          remindAt,
+        });
+      }
+    }
+  }
+
+  return windows;
+}
+
+/**
+ * Claim a window so only one run sends it. Returns null if already claimed.
+ */
+async function claimWindow(window: ReminderWindow): Promise<FirebaseFirestore.DocumentReference | null> {
+  const runRef = admin.firestore()
+    .collection("prayerReminderRuns")
+    .doc(`${window.date}_${window.prayer}_${window.offsetMinutes}`);
+
+  try {
+    await runRef.create({
+      date: window.date,
+      prayer: window.prayer,
+      offsetMinutes: window.offsetMinutes,
+      iqamaTime: window.iqamaTime,
+      remindAt: admin.firestore.Timestamp.fromDate(window.remindAt),
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return runRef;
+  } catch (error: any) {
+    // ALREADY_EXISTS - another run has this window
+    if (error.code === 6) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function sendReminderWindow(window: ReminderWindow): Promise<void> {
+  const runRef = await claimWindow(window);
+  if (!runRef) {
+    return;
+  }
+
+  const { tokens, deviceIds } = await getPrayerReminderTokens(window.prayer, window.offsetMinutes);
+
+  if (tokens.length === 0) {
+    await runRef.update({ sentTo: 0, successCount: 0, failureCount: 0 });
+    return;
+  }
+
+  const label = PRAYER_LABELS[window.prayer];
+  const messageData: Record<string, string> = {
+    type: "prayer_reminder",
+    title: window.prayer === "jumuah"
+      ? `🕌 Jumuah in ${window.offsetMinutes} minutes`
+      : `🕌 ${label} iqama in ${window.offsetMinutes} minutes`,
+    body: window.prayer === "jumuah"
+      ? `Jumuah is at ${window.iqamaTime}`
+      : `${label} iqama is at ${window.iqamaTime}`,
+    prayer: window.prayer,
+    iqamaTime: window.iqamaTime,
+    offsetMinutes: String(window.offsetMinutes),
+  };
+
+  const message = buildDataOnlyMessage(messageData, tokens);
+
+  const response = await sendMulticast(message, deviceIds, { label: "prayer_reminder" });
+
+  const results = response.queued
+    ? { deliveryJobId: response.jobId }
+    : { successCount: response.successCount, failureCount: response.failureCount };
+
+  await runRef.update({
+    sentTo: tokens.length,
+    ...results,
+    sentAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  logger.info(response.queued ? "📬 Prayer reminder queued" : "✅ Prayer reminder sent", {
+    prayer: window.prayer,
+    offsetMinutes: window.offsetMinutes,
+    iqamaTime: window.iqamaTime,
+    ...results,
+    totalTokens: tokens.length,
+  });
+}
+
+/**
+ * Delete claimed windows past the retention period
+ */
+async function purgeOldRuns(now: Date, timeZone: string): Promise<void> {
+  const cutoff = toZonedDateString(
+    new Date(now.getTime() - RUN_RETENTION_DAYS * 24 * 60 * 60 * 1000),
+    timeZone
+  );
+
+  const snapshot = await admin.firestore()
+    .collection("prayerReminderRuns")
+    .where("date", "<", cutoff)
+    .limit(200)
+    .get();
+
+  if (snapshot.empty) {
+    return;
+  }
+
+  const batch = admin.firestore().batch();
+  snapshot.docs.forEach((doc) => batch.delete(doc.ref));
+  await batch.commit();
+}
+
+// ============================================================================
+// SCHEDULED FUNCTION: Send Prayer Reminders
+// ============================================================================
+
+export const sendPrayerReminders = onSchedule(
+  {
+    schedule: `*/${DISPATCH_INTERVAL_MINUTES} * * * *`,
+    timeZone: "Australia/Sydney",
+    region: "australia-southeast1",
+  },
+  async () => {
+    try {
+      const prayerTimesDoc = await admin.firestore()
+        .collection("prayerTimes")
+        .doc("current")
+        .get();
+
+      const prayerTimes = prayerTimesDoc.data();
+      if (!prayerTimes) {
+        logger.error("❌ No prayer times data found");
+        return;
+      }
+
+      const now = new Date();
+      const timezone = await getMosqueTimezone();
+      const isFriday = getZonedDateParts(now, timezone).weekday === 5;
+      const jumuahTime = isFriday ? await getJumuahTime() : null;
+      const windows = getOpenReminderWindows(prayerTimes, jumuahTime, now, timezone);
+
+      for (const window of windows) {
+        try {
+          await sendReminderWindow(window);
+        } catch (error: any) {
+          logger.error("❌ Error sending prayer reminder:", {
+            prayer: window.prayer,
+            offsetMinutes: window.offsetMinutes,
+            error: error.message,
+          });
+        }
+      }
+
+      // Once a day is enough
+      const parts = getZonedDateParts(now, timezone);
+      if (parts.hour === 0 && parts.minute < DISPATCH_INTERVAL_MINUTES) {
+        await purgeOldRuns(now, timezone);
+      }
+    } catch (error: any) {
+      logger.error("❌ Error in prayer reminder scheduler:", error);
+    }
+  }
+);
@@ -0,0 +1,146 @@
+// ============================================================================
+// CLOUD FUNCTION: Process Queued Notification Jobs
+// Location: functions/src/notifications/processNotificationJobs.ts
+// ============================================================================
+// Large audiences are queued by sendMulticast (utils/notificationDelivery.ts).
+// Each run sends chunks until its time budget is used up, then starts the
+// next run. A lease stops two runs sending the same job at once, and the
+// scheduled sweep restarts jobs whose run died without handing over.
+
+import { onDocumentCreated } from "firebase-functions/v2/firestore";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import {
+  processNotificationJobChunks,
+  startNotificationJobRun,
+} from "../utils/notificationDelivery";
+
+const RUN_TIMEOUT_SECONDS = 540;
+
+// Stop picking up chunks with time to spare for the hand-over writes
+const RUN_BUDGET_MS = (RUN_TIMEOUT_SECONDS - 90) * 1000;
+
+// Lease outlives the function timeout so a dead run is detected by the sweep
+const LEASE_MS = (RUN_TIMEOUT_SECONDS + 60) * 1000;
+
+export const onNotificationJobRun = onDocumentCreated(
+  {
+    document: "notificationJobs/{jobId}/runs/{runId}",
+    region: "australia-southeast1",
+    timeoutSeconds: RUN_TIMEOUT_SECONDS,
+  },
+  async (event) => {
+    const db = admin.firestore();
+    const jobId = event.params.jobId;
+    const jobRef = db.collection("notificationJobs").doc(jobId);
+    const startedAt = Date.now();
+
+    try {
+      // Claim the lease
+      const job = await db.runTransaction(async (transaction) => {
+        const jobDoc = await transaction.get(jobRef);
+        const data = jobDoc.data();
+
+        if (!data || data.status === "completed") {
+          return null;
+        }
+
+        const leaseUntil: Date | undefined = data.lease_until?.toDate?.();
+        if (leaseUntil && leaseUntil.getTime() > startedAt) {
+          return null;
+        }
+
+        transaction.update(jobRef, {
+          status: "processing",
+          lease_until: admin.firestore.Timestamp.fromMillis(startedAt + LEASE_MS),
+          started_at: data.started_at || admin.firestore.FieldValue.serverTimestamp(),
+          updated_at: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        return data;
+      });
+
+      if (!job) {
+        logger.info("⏭️ SKIP: Notification job completed or held by another run", { jobId });
+        return;
+      }
+
+      const done = await processNotificationJobChunks(jobRef, job, startedAt + RUN_BUDGET_MS);
+
+      if (done) {
+        await jobRef.update({
+          status: "completed",
+          lease_until: null,
+          completed_at: admin.firestore.FieldValue.serverTimestamp(),
+          updated_at: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        const finalJob = (await jobRef.get()).data();
+        logger.info("✅ Queued notification delivered", {
+          jobId,
+          label: job.label,
+          successCount: finalJob?.success_count,
+          failureCount: finalJob?.failure_count,
+          totalTokens: job.total_tokens,
+        });
+        return;
+      }
+
+      // Out of time - release the lease and continue in a fresh invocation
+      await jobRef.update({
+        status: "pending",
+        lease_until: null,
+        updated_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      await startNotificationJobRun(jobId);
+
+      logger.info("🔁 Notification job continuing in next run", { jobId });
+    } catch (error: any) {
+      // Lease is left to expire - resumeNotificationJobs picks the job back up
+      logger.error("❌ Error processing notification job:", { jobId, error: error.message });
+    }
+  }
+);
+
+// ============================================================================
+// SCHEDULED FUNCTION: Restart Stalled Jobs
+// ============================================================================
+
+export const resumeNotificationJobs = onSchedule(
+  {
+    schedule: "*/5 * * * *", // Every 5 minutes
+    timeZone: "Australia/Sydney",
+    region: "australia-southeast1",
+  },
+  async () => {
+    try {
+      const snapshot = await admin.firestore()
+        .collection("notificationJobs")
+        .where("status", "in", ["pending", "processing"])
+        .get();
+
+      const now = Date.now();
+      let resumed = 0;
+
+      for (const doc of snapshot.docs) {
+        const leaseUntil: Date | undefined = doc.data().lease_until?.toDate?.();
+        const updatedAt: Date | undefined = doc.data().updated_at?.toDate?.();
+
+        // Held by a live run, or handed over moments ago
+        if ((leaseUntil && leaseUntil.getTime() > now) ||
+          (!leaseUntil && updatedAt && now - updatedAt.getTime() < 5 * 60 * 1000)) {
+          continue;
+        }
+
+        await startNotificationJobRun(doc.id);
+        resumed++;
+      }
+
+      if (resumed > 0) {
+        logger.info("🔁 Resumed stalled notification jobs", { resumed });
+      }
+    } catch (error: any) {
+      logger.error("❌ Error resuming notification jobs:", error);
+    }
+  }
+);
@@ -0,0 +1,513 @@
+// ============================================================================
+// CLOUD FUNCTIONS: Scheduled & Recurring Custom Notifications
+// Location: functions/src/notifications/scheduledNotifications.ts
+// ============================================================================
+// Admins queue a custom notification for a set time ("Friday 12:00, before
+// Jumuah") or on a recurrence rule. Times are wall-clock times in the mosque
+// timezone. Due entries are sent through deliverCustomNotification, and each
+// notificationLogs entry carries scheduledNotificationId.
+//
+// scheduledNotifications/{id}:
+//   title, body, imageUrl, category, data
+//   sendAt: "YYYY-MM-DDTHH:MM" | null      // One-off send (mosque timezone)
+//   recurrence: RecurrenceRule | null
+//   nextRunAt: Timestamp | null            // Next due send
+//   status: "scheduled" | "sent" | "completed" | "cancelled" | "failed"
+//   runCount, lastRunAt, lastLogId, lastError
+//   createdBy, createdAt, updatedBy, updatedAt, cancelledBy, cancelledAt
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import { Permission } from "../utils/roles";
+import { requirePermission } from "../utils/authorization";
+import { isTmpUrl, moveToLive } from "../utils/imageHelpers";
+import {
+  getMosqueTimezone,
+  getZonedDateParts,
+  toZonedDateString,
+  zonedTimeToUtc,
+} from "../utils/timezone";
+import {
+  deliverCustomNotification,
+  validateCustomNotification,
+  type CustomNotification,
+  type SendCustomNotificationRequest,
+} from "./sendCustomNotification";
+
+const MAX_SCHEDULE_AHEAD_DAYS = 366;
+
+// Dispatcher granularity - sends go out within this many minutes of their time
+const DISPATCH_INTERVAL_MINUTES = 5;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface RecurrenceRule {
+  frequency: "daily" | "weekly" | "monthly";
+  time: string; // "HH:MM" 24-hour, mosque timezone
+  daysOfWeek?: number[]; // weekly: 0 = Sunday ... 6 = Saturday
+  dayOfMonth?: number; // monthly: 1-28 so every month has it
+  endDate?: string; // YYYY-MM-DD, last day a send may happen (inclusive)
+}
+
+interface ScheduleNotificationRequest extends SendCustomNotificationRequest {
+  sendAt?: string | null;
+  recurrence?: RecurrenceRule | null;
+}
+
+interface UpdateScheduledNotificationRequest extends Partial<ScheduleNotificationRequest> {
+  id: string;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function parseTime(time: unknown): { hour: number; minute: number } {
+  const match = typeof time === "string" ? time.match(/^(\d{2}):(\d{2})$/) : null;
+  if (!match || +match[1] > 23 || +match[2] > 59) {
+    throw new HttpsError("invalid-argument", "Time must be in 24-hour format HH:MM");
+  }
+  return { hour: +match[1], minute: +match[2] };
+}
+
+function validateRecurrence(rule: unknown): RecurrenceRule {
+  if (typeof rule !== "object" || rule === null) {
+    throw new HttpsError("invalid-argument", "Recurrence must be an object");
+  }
+
+  const { frequency, time, daysOfWeek, dayOfMonth, endDate } = rule as RecurrenceRule;
+
+  if (!["daily", "weekly", "monthly"].includes(frequency)) {
+    throw new HttpsError("invalid-argument", "Recurrence frequency must be daily, weekly or monthly");
+  }
+  parseTime(time);
+
+  const validated: RecurrenceRule = { frequency, time };
+
+  if (frequency === "weekly") {
+    if (!Array.isArray(daysOfWeek) || daysOfWeek.length === 0 ||
+      daysOfWeek.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+      throw new HttpsError("invalid-argument", "Weekly recurrence needs daysOfWeek (0 = Sunday ... 6 = Saturday)");
+    }
+    validated.daysOfWeek = [...new Set(daysOfWeek)].sort();
+  }
+
+  if (frequency === "monthly") {
+    if (!Number.isInteger(dayOfMonth) || dayOfMonth! < 1 || dayOfMonth! > 28) {
+      throw new HttpsError("invalid-argument", "Monthly recurrence needs dayOfMonth between 1 and 28");
+    }
+    validated.dayOfMonth = dayOfMonth;
+  }
+
+  if (endDate !== undefined && endDate !== null) {
+    if (typeof endDate !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(endDate)) {
+      throw new HttpsError("invalid-argument", "Recurrence endDate must be in format YYYY-MM-DD");
+    }
+    validated.endDate = endDate;
+  }
+
+  return validated;
+}
+
+/**
+ * Convert a one-off "YYYY-MM-DDTHH:MM" (mosque timezone) to a UTC instant
+ */
+function parseSendAt(sendAt: unknown, timeZone: string): Date {
+  const match = typeof sendAt === "string"
+    ? sendAt.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}:\d{2})$/)
+    : null;
+  if (!match) {
+    throw new HttpsError("invalid-argument", "sendAt must be in format YYYY-MM-DDTHH:MM");
+  }
+
+  const { hour, minute } = parseTime(match[4]);
+  return zonedTimeToUtc(+match[1], +match[2], +match[3], hour, minute, timeZone);
+}
+
+/**
+ * First occurrence of a recurrence rule strictly after `after`, or null once it has ended
+ */
+export function getNextOccurrence(rule: RecurrenceRule, after: Date, timeZone: string): Date | null {
+  const { hour, minute } = parseTime(rule.time);
+  const start = getZonedDateParts(after, timeZone);
+
+  // Two months covers every monthly rule (dayOfMonth <= 28)
+  for (let offset = 0; offset <= 62; offset++) {
+    const candidate = zonedTimeToUtc(start.year, start.month, start.day + offset, hour, minute, timeZone);
+    if (candidate <= after) {
+      continue;
+    }
+
+    if (rule.endDate && toZonedDateString(candidate, timeZone) > rule.endDate) {
+      return null;
+    }
+
+    const parts = getZonedDateParts(candidate, timeZone);
+    if (
+      rule.frequency === "daily" ||
+      (rule.frequency === "weekly" && rule.daysOfWeek?.includes(parts.weekday)) ||
+      (rule.frequency === "monthly" && parts.day === rule.dayOfMonth)
+    ) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate timing (exactly one of sendAt / recurrence) and work out the first send
+ */
+async function resolveTiming(sendAt: unknown, recurrence: unknown) {
+  const hasSendAt = sendAt !== undefined && sendAt !== null;
+  const hasRecurrence = recurrence !== undefined && recurrence !== null;
+
+  if (hasSendAt === hasRecurrence) {
+    throw new HttpsError("invalid-argument", "Provide either sendAt or recurrence");
+  }
+
+  const timezone = await getMosqueTimezone();
+  const now = new Date();
+  const rule = hasRecurrence ? validateRecurrence(recurrence) : null;
+  const nextRunAt = rule ? getNextOccurrence(rule, now, timezone) : parseSendAt(sendAt, timezone);
+
+  if (!nextRunAt || nextRunAt <= now) {
+    throw new HttpsError("invalid-argument", "The send time must be in the future");
+  }
+  if (nextRunAt.getTime() - now.getTime() > MAX_SCHEDULE_AHEAD_DAYS * 24 * 60 * 60 * 1000) {
+    throw new HttpsError("invalid-argument", `The first send must be within ${MAX_SCHEDULE_AHEAD_DAYS} days`);
+  }
+
+  return {
+    sendAt: hasSendAt ? (sendAt as string) : null,
+    recurrence: rule,
+    nextRunAt: admin.firestore.Timestamp.fromDate(nextRunAt),
+  };
+}
+
+/**
+ * Scheduled sends can't rely on tmp uploads surviving until the send time
+ */
+async function finalizeScheduleImage(imageUrl: string | undefined, scheduleId: string): Promise<string> {
+  if (!imageUrl || !isTmpUrl(imageUrl)) {
+    return imageUrl || "";
+  }
+  return (await moveToLive(imageUrl, "notifications", scheduleId)) || imageUrl;
+}
+
+function toScheduleResponse(doc: FirebaseFirestore.DocumentSnapshot) {
+  const data = doc.data() || {};
+  return {
+    id: doc.id,
+    title: data.title,
+    body: data.body,
+    imageUrl: data.imageUrl || "",
+    category: data.category,
+    data: data.data || {},
+    sendAt: data.sendAt || null,
+    recurrence: data.recurrence || null,
+    status: data.status,
+    nextRunAt: data.nextRunAt?.toDate()?.toISOString() ?? null,
+    lastRunAt: data.lastRunAt?.toDate()?.toISOString() ?? null,
+    lastLogId: data.lastLogId || null,
+    lastError: data.lastError || null,
+    runCount: data.runCount || 0,
+    createdBy: data.createdBy,
+    createdAt: data.createdAt?.toDate()?.toISOString() ?? null,
+  };
+}
+
+// ============================================================================
+// CALLABLE FUNCTION: Create Scheduled Notification
+// ============================================================================
+
+export const createScheduledNotification = onCall({
+  region: "australia-southeast1",
+  cors: true,
+}, async (request) => {
+  const auth = requirePermission(
+    request,
+    Permission.SEND_NOTIFICATIONS,
+    "You do not have permission to schedule notifications"
+  );
+
+  const data = (request.data || {}) as ScheduleNotificationRequest;
+  const notification = validateCustomNotification(data);
+  const timing = await resolveTiming(data.sendAt, data.recurrence);
+
+  try {
+    const docRef = admin.firestore().collection("scheduledNotifications").doc();
+
+    await docRef.set({
+      title: notification.title,
+      body: notification.body,
+      imageUrl: await finalizeScheduleImage(notification.image_url, docRef.id),
+      category: notification.category,
+      data: notification.data || {},
+      ...timing,
+      status: "scheduled",
+      runCount: 0,
+      lastRunAt: null,
+      lastLogId: null,
+      createdBy: auth.uid,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    logger.info("✅ Scheduled notification created", {
+      id: docRef.id,
+      nextRunAt: timing.nextRunAt.toDate().toISOString(),
+      recurring: !!timing.recurrence,
+      createdBy: auth.uid,
+    });
+
+    return {
+      success: true,
+      id: docRef.id,
+      nextRunAt: timing.nextRunAt.toDate().toISOString(),
+    };
+  } catch (error: any) {
+    logger.error("❌ Error creating scheduled notification:", error);
+    throw new HttpsError("internal", "Failed to create scheduled notification");
+  }
+});
+
+// ============================================================================
+// CALLABLE FUNCTION: List Scheduled Notifications
+// ============================================================================
+
+export const listScheduledNotifications = onCall({
+  region: "australia-southeast1",
+  cors: true,
+}, async (request) => {
+  requirePermission(
+    request,
+    [Permission.SEND_NOTIFICATIONS, Permission.VIEW_NOTIFICATIONS],
+    "You do not have permission to view scheduled notifications"
+  );
+
+  const { status } = (request.data || {}) as { status?: string };
+
+  try {
+    let query: FirebaseFirestore.Query = admin.firestore().collection("scheduledNotifications");
+    if (status) {
+      query = query.where("status", "==", status);
+    }
+
+    const snapshot = await query.get();
+    const schedules = snapshot.docs.map(toScheduleResponse);
+
+    // Upcoming first, then finished entries newest first
+    schedules.sort((a, b) => {
+      if (a.nextRunAt && b.nextRunAt) return a.nextRunAt.localeCompare(b.nextRunAt);
+      if (a.nextRunAt) return -1;
+      if (b.nextRunAt) return 1;
+      return (b.createdAt || "").localeCompare(a.createdAt || "");
+    });
+
+    return { success: true, schedules };
+  } catch (error: any) {
+    logger.error("❌ Error listing scheduled notifications:", error);
+    throw new HttpsError("internal", "Failed to list scheduled notifications");
+  }
+});
+
+// ============================================================================
+// CALLABLE FUNCTION: Update Scheduled Notification
+// ============================================================================
+
+export const updateScheduledNotification = onCall({
+  region: "australia-southeast1",
+  cors: true,
+}, async (request) => {
+  const auth = requirePermission(
+    request,
+    Permission.SEND_NOTIFICATIONS,
+    "You do not have permission to edit scheduled notifications"
+  );
+
+  const data = (request.data || {}) as UpdateScheduledNotificationRequest;
+
+  if (!data.id || typeof data.id !== "string") {
+    throw new HttpsError("invalid-argument", "Scheduled notification ID is required");
+  }
+
+  const docRef = admin.firestore().collection("scheduledNotifications").doc(data.id);
+  const doc = await docRef.get();
+
+  if (!doc.exists) {
+    throw new HttpsError("not-found", "Scheduled notification not found");
+  }
+
+  const current = doc.data() || {};
+  if (current.status !== "scheduled") {
+    throw new HttpsError("failed-precondition", `A ${current.status} notification can't be edited`);
+  }
+
+  // Merge onto the stored entry so partial edits are validated as a whole
+  const notification: CustomNotification = validateCustomNotification({
+    title: data.title ?? current.title,
+    body: data.body ?? current.body,
+    image_url: data.image_url ?? current.imageUrl,
+    category: data.category ?? current.category,
+    data: data.data ?? current.data,
+  });
+
+  const timingChanged = data.sendAt !== undefined || data.recurrence !== undefined;
+  // New timing replaces the old one entirely (one-off <-> recurring)
+  const timing = timingChanged
+    ? await resolveTiming(data.sendAt ?? null, data.recurrence ?? null)
+    : {};
+
+  try {
+    await docRef.update({
+      title: notification.title,
+      body: notification.body,
+      imageUrl: await finalizeScheduleImage(notification.image_url, docRef.id),
+      category: notification.category,
+      data: notification.data || {},
+      ...timing,
+      updatedBy: auth.uid,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    logger.info("✅ Scheduled notification updated", { id: data.id, timingChanged, updatedBy: auth.uid });
+
+    return { success: true, schedule: toScheduleResponse(await docRef.get()) };
+  } catch (error: any) {
+    logger.error("❌ Error updating scheduled notification:", error);
+    throw new HttpsError("internal", "Failed to update scheduled notification");
+  }
+});
+
+// ============================================================================
+// CALLABLE FUNCTION: Cancel Scheduled Notification
+// ============================================================================
+
+export const cancelScheduledNotification = onCall({
+  region: "australia-southeast1",
+  cors: true,
+}, async (request) => {
+  const auth = requirePermission(
+    request,
+    Permission.SEND_NOTIFICATIONS,
+    "You do not have permission to cancel scheduled notifications"
+  );
+
+  const { id } = (request.data || {}) as { id?: string };
+
+  if (!id || typeof id !== "string") {
+    throw new HttpsError("invalid-argument", "Scheduled notification ID is required");
+  }
+
+  const docRef = admin.firestore().collection("scheduledNotifications").doc(id);
+  const doc = await docRef.get();
+
+  if (!doc.exists) {
+    throw new HttpsError("not-found", "Scheduled notification not found");
+  }
+
+  if (doc.data()?.status !== "scheduled") {
+    throw new HttpsError("failed-precondition", `This notification is already ${doc.data()?.status}`);
+  }
+
+  try {
+    await docRef.update({
+      status: "cancelled",
+      nextRunAt: null,
+      cancelledBy: auth.uid,
+      cancelledAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    logger.info("✅ Scheduled notification cancelled", { id, cancelledBy: auth.uid });
+
+    return { success: true, id };
+  } catch (error: any) {
+    logger.error("❌ Error cancelling scheduled notification:", error);
+    throw new HttpsError("internal", "Failed to cancel scheduled notification");
+  }
+});
+
+// ============================================================================
+// SCHEDULED FUNCTION: Dispatch Due Notifications
+// ============================================================================
+
+export const dispatchScheduledNotifications = onSchedule({
+  schedule: `*/${DISPATCH_INTERVAL_MINUTES} * * * *`,
+  timeZone: "Australia/Sydney",
+  region: "australia-southeast1",
+  timeoutSeconds: 300,
+}, async () => {
+  const db = admin.firestore();
+
+  try {
+    const now = new Date();
+    const dueSnapshot = await db
+      .collection("scheduledNotifications")
+      .where("status", "==", "scheduled")
+      .where("nextRunAt", "<=", admin.firestore.Timestamp.fromDate(now))
+      .get();
+
+    if (dueSnapshot.empty) {
+      return;
+    }
+
+    const timezone = await getMosqueTimezone();
+    logger.info(`📅 Dispatching ${dueSnapshot.size} scheduled notifications`);
+
+    for (const dueDoc of dueSnapshot.docs) {
+      // Advance the schedule before sending so an overlapping run can't send it twice
+      const claimed = await db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(dueDoc.ref);
+        const data = doc.data();
+        if (!data || data.status !== "scheduled" || !data.nextRunAt || data.nextRunAt.toDate() > now) {
+          return null;
+        }
+
+        // Missed occurrences (e.g. downtime) are skipped rather than sent late in a burst
+        const next = data.recurrence ? getNextOccurrence(data.recurrence, now, timezone) : null;
+        transaction.update(doc.ref, {
+          status: data.recurrence ? (next ? "scheduled" : "completed") : "sent",
+          nextRunAt: next ? admin.firestore.Timestamp.fromDate(next) : null,
+          lastRunAt: admin.firestore.FieldValue.serverTimestamp(),
+          runCount: admin.firestore.FieldValue.increment(1),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        return data;
+      });
+
+      if (!claimed) {
+        continue;
+      }
+
+      try {
+        const result = await deliverCustomNotification(
+          {
+            title: claimed.title,
+            body: claimed.body,
+            image_url: claimed.imageUrl || undefined,
+            category: claimed.category,
+            data: claimed.data,
+          },
+          claimed.createdBy,
+          dueDoc.id
+        );
+
+        await dueDoc.ref.update({ lastLogId: result.logId, lastError: null });
+      } catch (error: any) {
+        logger.error("❌ Error sending scheduled notification:", { id: dueDoc.id, error: error.message });
+        await dueDoc.ref.update({
+          lastError: error.message || "Send failed",
+          ...(!claimed.recurrence ? { status: "failed" } : {}),
+        });
+      }
+    }
+  } catch (error: any) {
+    logger.error("❌ Error dispatching scheduled notifications:", error);
+  }
+});
@@ -6,14 +6,23 @@
 import { onCall, HttpsError } from "firebase-functions/v2/https";
 import { logger } from "firebase-functions";
 import * as admin from "firebase-admin";
-import { getActiveTokens, cleanupInvalidTokens } from "../utils/tokenCleanup";
+import { sendMulticast } from "../utils/notificationDelivery";
+import {
+  getTargetedTokens,
+  isNotificationCategory,
+  NOTIFICATION_CATEGORIES,
+  NotificationCategory,
+} from "../utils/notificationTargeting";
 import { buildDataOnlyMessage, timestampToString } from "../utils/messagingHelpers";
 import { isTmpUrl, moveToLive } from "../utils/imageHelpers";
+import { Permission } from "../utils/roles";
+import { requirePermission } from "../utils/authorization";
 
-interface SendCustomNotificationRequest {
+export interface SendCustomNotificationRequest {
   title: string;
   body: string;
   image_url?: string;
+  category?: string; // Preference category devices must opt into (default "general")
   data?: {
     type?: string;
     link?: string;
@@ -21,152 +30,200 @@ interface SendCustomNotificationRequest {
   };
 }
 
+export interface CustomNotification {
+  title: string;
+  body: string;
+  image_url?: string;
+  category: NotificationCategory;
+  data?: SendCustomNotificationRequest["data"];
+}
+
+/**
+ * Validates a custom notification (also used by scheduledNotifications.ts)
+ */
+export function validateCustomNotification(input: SendCustomNotificationRequest): CustomNotification {
+  const { title, body, image_url, category = "general", data } = input;
+
+  if (!title || !body || typeof title !== "string" || typeof body !== "string") {
+    throw new HttpsError(
+      "invalid-argument",
+      "Title and body are required"
+    );
+  }
+
+  if (title.length > 100) {
+    throw new HttpsError(
+      "invalid-argument",
+      "Title must be 100 characters or less"
+    );
+  }
+
+  if (body.length > 500) {
+    throw new HttpsError(
+      "invalid-argument",
+      "Body must be 500 characters or less"
+    );
+  }
+
+  if (!isNotificationCategory(category)) {
+    throw new HttpsError(
+      "invalid-argument",
+      `Category must be one of: ${NOTIFICATION_CATEGORIES.join(", ")}`
+    );
+  }
+
+  if (data !== undefined && (typeof data !== "object" || data === null || Array.isArray(data))) {
+    throw new HttpsError("invalid-argument", "Data must be an object");
+  }
+
+  return { title, body, image_url: image_url || undefined, category, data };
+}
+
+/**
+ * Sends a custom notification now and records it in notificationLogs.
+ * Scheduled sends pass their scheduledNotifications ID so the log links back.
+ */
+export async function deliverCustomNotification(
+  notification: CustomNotification,
+  sentBy: string,
+  scheduledNotificationId?: string
+) {
+  const { title, body, image_url, category, data } = notification;
+
+  logger.info("📢 Sending custom notification...", {
+    title,
+    category,
+    sentBy,
+    scheduledNotificationId,
+    hasImage: !!image_url,
+  });
+
+  // Get active devices that opted into this category
+  // Only include tokens seen in the last 90 days
+  const { tokens, deviceIds } = await getTargetedTokens({ category });
+
+  if (tokens.length === 0) {
+    logger.info("No active devices opted into this notification category");
+    return {
+      success: true,
+      message: "No devices to notify",
+      logId: null,
+      queued: false,
+      sentCount: 0,
+    };
+  }
+
+  // Pre-create the notification log to get an ID for finalizing the image
+  const logRef = await admin.firestore().collection("notificationLogs").add({
+    type: data?.type || "general",
+    category,
+    title,
+    body,
+    imageUrl: image_url || "",
+    data: data || {},
+    sentBy,
+    scheduledNotificationId: scheduledNotificationId || null,
+    sentTo: tokens.length,
+    successCount: 0,
+    failureCount: 0,
+    sentAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  const logId = logRef.id;
+  logger.info("Created notification log", { logId });
+
+  // Finalize image if it's in tmp
+  let finalImageUrl = image_url || "";
+  if (image_url && isTmpUrl(image_url)) {
+    logger.info("Finalizing tmp image before sending...", { tmpUrl: image_url });
+    const liveUrl = await moveToLive(image_url, "notifications", logId);
+    if (liveUrl) {
+      finalImageUrl = liveUrl;
+      logger.info("Image finalized to live", { liveUrl });
+
+      // Update the log with the live URL
+      await logRef.update({ imageUrl: liveUrl });
+    } else {
+      logger.warn("Failed to finalize image, using tmp URL");
+    }
+  }
+
+  // Send data-only message for consistent Notifee styling across all app states
+  const notificationData = {
+    type: data?.type || "general",
+    title,
+    body,
+    imageUrl: finalImageUrl,
+    link: data?.link || "",
+    sentBy,
+    sentAt: new Date().toISOString(),
+    ...data,
+    logId, // Lets the app report displayed/tapped events (notificationEngagement.ts)
+  };
+
+  // FCM requires data payload values to be strings
+  const stringDataEntries = await Promise.all(
+    Object.entries(notificationData).map(async ([key, value]) => [
+      key,
+      await timestampToString(value),
+    ])
+  );
+  const stringData: Record<string, string> = Object.fromEntries(stringDataEntries);
+
+  const message = buildDataOnlyMessage(stringData, tokens);
+
+  const response = await sendMulticast(message, deviceIds, { label: "custom", logId });
+
+  // Update the log with final results (queued jobs add their counts as chunks are sent)
+  await logRef.update({
+    data: stringData,
+    ...(response.queued
+      ? { deliveryJobId: response.jobId }
+      : { successCount: response.successCount, failureCount: response.failureCount }),
+  });
+
+  logger.info(response.queued ? "📬 Custom notification queued" : "✅ Custom notification sent", {
+    logId,
+    ...(response.queued
+      ? { jobId: response.jobId }
+      : { successCount: response.successCount, failureCount: response.failureCount }),
+    totalTokens: tokens.length,
+    imageFinalized: image_url && isTmpUrl(image_url),
+  });
+
+  return {
+    success: true,
+    message: response.queued
+      ? `Notification queued for ${tokens.length} devices`
+      : `Notification sent to ${response.successCount} users`,
+    logId,
+    queued: response.queued,
+    sentCount: response.successCount,
+    failedCount: response.failureCount,
+    totalTokens: tokens.length,
+  };
+}
+
 export const sendCustomNotification = onCall(
   {
     region: "australia-southeast1",
     cors: true,
   },
   async (request) => {
-    // Authentication check - only authenticated admins can send
-    if (!request.auth) {
-      throw new HttpsError(
-        "unauthenticated",
-        "You must be authenticated to send notifications"
-      );
-    }
-
-    // TODO: Add admin role check here
-    // For now, any authenticated user can send
-    // In production, add: if (!request.auth.token.admin) { throw error }
-
-    const { title, body, image_url, data } = request.data as SendCustomNotificationRequest;
+    // Same gate as the scheduled notification callables
+    const auth = requirePermission(
+      request,
+      Permission.SEND_NOTIFICATIONS,
+      "You do not have permission to send notifications"
+    );
 
     // Validate inputs
-    if (!title || !body) {
-      throw new HttpsError(
-        "invalid-argument",
-        "Title and body are required"
-      );
-    }
-
-    if (title.length > 100) {
-      throw new HttpsError(
-        "invalid-argument",
-        "Title must be 100 characters or less"
-      );
-    }
-
-    if (body.length > 500) {
-      throw new HttpsError(
-        "invalid-argument",
-        "Body must be 500 characters or less"
-      );
-    }
+    const notification = validateCustomNotification(
+      (request.data || {}) as SendCustomNotificationRequest
+    );
 
     try {
-      logger.info("📢 Sending custom notification...", {
-        title,
-        sentBy: request.auth.uid,
-        hasImage: !!image_url,
-      });
-
-      // Get all active devices with notifications enabled
-      // Only include tokens seen in the last 90 days
-      const { tokens, deviceIds } = await getActiveTokens(90);
-
-      if (tokens.length === 0) {
-        logger.info("No active devices with notifications enabled");
-        return {
-          success: true,
-          message: "No devices to notify",
-          sentCount: 0,
-        };
-      }
-
-      // Pre-create the notification log to get an ID for finalizing the image
-      const logRef = await admin.firestore().collection("notificationLogs").add({
-        type: data?.type || "general",
-        title,
-        body,
-        imageUrl: image_url || "",
-        data: data || {},
-        sentBy: request.auth.uid,
-        sentTo: tokens.length,
-        successCount: 0,
-        failureCount: 0,
-        sentAt: admin.firestore.FieldValue.serverTimestamp(),
-      });
-
-      const logId = logRef.id;
-      logger.info("Created notification log", { logId });
-
-      // Finalize image if it's in tmp
-      let finalImageUrl = image_url || "";
-      if (image_url && isTmpUrl(image_url)) {
-        logger.info("Finalizing tmp image before sending...", { tmpUrl: image_url });
-        const liveUrl = await moveToLive(image_url, "notifications", logId);
-        if (liveUrl) {
-          finalImageUrl = liveUrl;
-          logger.info("Image finalized to live", { liveUrl });
-
-          // Update the log with the live URL
-          await logRef.update({ imageUrl: liveUrl });
-        } else {
-          logger.warn("Failed to finalize image, using tmp URL");
-        }
-      }
-
-      // Send data-only message for consistent Notifee styling across all app states
-      const notificationData = {
-        type: data?.type || "general",
-        title,
-        body,
-        imageUrl: finalImageUrl,
-        link: data?.link || "",
-        sentBy: request.auth.uid,
-        sentAt: new Date().toISOString(),
-        ...data,
-      };
-
-      // FCM requires data payload values to be strings
-      const stringDataEntries = await Promise.all(
-        Object.entries(notificationData).map(async ([key, value]) => [
-          key,
-          await timestampToString(value),
-        ])
-      );
-      const stringData: Record<string, string> = Object.fromEntries(stringDataEntries);
-
-      const message = buildDataOnlyMessage(stringData, tokens);
-
-      const response = await admin.messaging().sendEachForMulticast(message);
-
-      // Clean up invalid tokens
-      await cleanupInvalidTokens(tokens, response.responses, deviceIds);
-
-      // Update the log with final results
-      await logRef.update({
-        data: stringData,
-        successCount: response.successCount,
-        failureCount: response.failureCount,
-      });
-
-      logger.info("✅ Custom notification sent", {
-        logId,
-        successCount: response.successCount,
-        failureCount: response.failureCount,
-        totalTokens: tokens.length,
-        imageFinalized: image_url && isTmpUrl(image_url),
-      });
-
-      return {
-        success: true,
-        message: `Notification sent to ${response.successCount} users`,
-        sentCount: response.successCount,
-        failedCount: response.failureCount,
-        totalTokens: tokens.length,
-      };
-
+      return await deliverCustomNotification(notification, auth.uid);
     } catch (error: any) {
       logger.error("❌ Error sending custom notification:", error);
       throw new HttpsError(
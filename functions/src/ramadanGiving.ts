@@ -0,0 +1,724 @@
+// ============================================================================
+// CLOUD FUNCTIONS: RAMADAN LAST TEN NIGHTS GIVING
+// Location: mosque_app_functions/src/ramadanGiving.ts
+// ============================================================================
+// The donor authorises a card once (SetupIntent) and is charged a fixed amount
+// on each of the last ten nights of Ramadan. Nights come from the Umm al-Qura
+// Hijri calendar in the mosque timezone - night 21 begins on the evening of
+// 20 Ramadan. Each charge is an ordinary one-time PaymentIntent, so
+// payment_intent.succeeded (webhooks.ts) records it as a normal donation with
+// its own receipt number. The schedule stops by itself after the last night
+// and the donor is emailed a summary.
+//
+// ramadanSchedules/{scheduleId}:
+//   status: "pending_setup" | "active" | "completed" | "cancelled" | "expired"
+//   (expired: the card was never saved and every night has passed)
+//   donor_name, donor_email, donor_phone, donor_uid
+//   stripe_customer_id, setup_intent_id
+//   payment_method_id: string|null     // Set by setup_intent.succeeded
+//   amount: number                     // Charged each night (gift + covered fee)
+//   gift_amount, covered_fee_amount, cover_fees, currency
+//   donation_type_id, donation_type_label, campaign_id, fund
+//   hijri_year: number
+//   nights: [{ night: 21, date: "YYYY-MM-DD" }]   // Evening each night begins
+//   charges: { [date]: { night, status, payment_intent_id, amount, error,
+//                        donation_id, receipt_number } }
+//   summary_sent_at
+//
+// donationSettings/config.ramadan_giving:
+//   charge_hour: 21                    // Local hour (mosque timezone) of each night's charge
+//   hijri_adjustment_days: 0           // Shift Umm al-Qura dates to match local moon sighting
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import Stripe from "stripe";
+import { Permission } from "./utils/roles";
+import { callerHasPermission, requireAuth } from "./utils/authorization";
+import { resolveDonationCurrency } from "./utils/currency";
+import {
+  buildCoveredFeeMetadata,
+  calculateCoveredFee,
+  getProcessingFeeSettings,
+} from "./utils/fees";
+import {
+  isValidEmail,
+  normalizeEmail,
+  ramadanGivingSummaryEmail,
+  sendEmail,
+} from "./utils/emailTemplates";
+import {
+  formatDisplayDate,
+  getMosqueTimezone,
+  getZonedDateParts,
+  toZonedDateString,
+  zonedTimeToUtc,
+} from "./utils/timezone";
+import { type DonationFund, resolveDonationFund } from "./zakat";
+import { assertCampaignAcceptingDonations } from "./campaignLifecycle";
+import { callerOwnsDonationRecord, linkDonorCustomer } from "./donorProfiles";
+
+const db = admin.firestore();
+
+const RAMADAN_MONTH = 9;
+const FIRST_NIGHT = 21;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far ahead to look for the next Ramadan (a Hijri year is ~354 days)
+const MAX_LOOKAHEAD_DAYS = 400;
+
+const DEFAULT_CHARGE_HOUR = 21;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface RamadanNight {
+  night: number; // 21-30
+  date: string; // YYYY-MM-DD (mosque timezone) - the evening the night begins
+}
+
+type RamadanChargeStatus = "succeeded" | "failed" | "missed";
+
+interface RamadanCharge {
+  night: number;
+  status: RamadanChargeStatus;
+  payment_intent_id?: string | null;
+  amount?: number;
+  error?: string | null;
+  donation_id?: string;
+  receipt_number?: string;
+}
+
+interface RamadanGivingSettings {
+  chargeHour: number;
+  hijriAdjustmentDays: number;
+}
+
+interface CreateRamadanScheduleRequest {
+  amount: number; // Gift per night, in cents
+  currency?: string; // ISO code from donationSettings/config currencies (defaults to default_currency)
+  cover_fees?: boolean; // Donor pays the processing fee on top of `amount`
+  donor_name: string;
+  donor_email: string;
+  donor_phone?: string;
+  donation_type_id: string;
+  donation_type_label: string;
+  campaign_id?: string;
+  fund?: DonationFund;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function getRamadanGivingSettings(): Promise<RamadanGivingSettings> {
+  const settingsDoc = await db.collection("donationSettings").doc("config").get();
+  const config = settingsDoc.data()?.ramadan_giving || {};
+
+  return {
+    chargeHour: Number.isInteger(config.charge_hour) && config.charge_hour >= 0 && config.charge_hour <= 23
+      ? config.charge_hour
+      : DEFAULT_CHARGE_HOUR,
+    hijriAdjustmentDays: Number.isInteger(config.hijri_adjustment_days)
+      ? config.hijri_adjustment_days
+      : 0,
+  };
+}
+
+/**
+ * Umm al-Qura Hijri date of an instant, as seen in the given timezone
+ */
+function getHijriDate(date: Date, timeZone: string): { year: number; month: number; day: number } {
+  const parts = new Intl.DateTimeFormat("en-u-ca-islamic-umalqura", {
+    timeZone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+  }).formatToParts(date);
+
+  const get = (type: string) => parseInt(parts.find((p) => p.type === type)?.value || "0");
+
+  return { year: get("year"), month: get("month"), day: get("day") };
+}
+
+/**
+ * Remaining (or next) last-ten-nights of Ramadan from `from` onwards.
+ * Only nights that exist that year are returned (night 30 needs a 30-day Ramadan).
+ */
+export function getLastTenNights(
+  timeZone: string,
+  hijriAdjustmentDays: number,
+  from: Date = new Date()
+): { hijriYear: number; nights: RamadanNight[] } {
+  const today = getZonedDateParts(from, timeZone);
+  const nights: RamadanNight[] = [];
+  let hijriYear = 0;
+
+  for (let offset = 0; offset <= MAX_LOOKAHEAD_DAYS; offset++) {
+    // Midday avoids DST edges when stepping a day at a time
+    const evening = zonedTimeToUtc(today.year, today.month, today.day + offset, 12, 0, timeZone);
+    // The night belongs to the Hijri day that starts at this evening's maghrib
+    const hijri = getHijriDate(new Date(evening.getTime() + (1 + hijriAdjustmentDays) * DAY_MS), timeZone);
+
+    if (hijri.month === RAMADAN_MONTH && hijri.day >= FIRST_NIGHT) {
+      nights.push({ night: hijri.day, date: toZonedDateString(evening, timeZone) });
+      hijriYear = hijri.year;
+    } else if (nights.length > 0) {
+      break;
+    }
+  }
+
+  return { hijriYear, nights };
+}
+
+function formatNightDate(date: string, timeZone: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return formatDisplayDate(zonedTimeToUtc(year, month, day, 12, 0, timeZone), timeZone);
+}
+
+/**
+ * Charge one night off-session. Card declines are recorded, not thrown.
+ */
+async function chargeNight(
+  stripe: Stripe,
+  scheduleId: string,
+  data: FirebaseFirestore.DocumentData,
+  night: RamadanNight
+): Promise<RamadanCharge> {
+  const coveredFee = data.cover_fees
+    ? { grossAmount: data.amount, giftAmount: data.gift_amount, feeAmount: data.covered_fee_amount }
+    : null;
+
+  try {
+    const paymentIntent = await stripe.paymentIntents.create({
+      amount: data.amount,
+      currency: data.currency.toLowerCase(),
+      customer: data.stripe_customer_id,
+      payment_method: data.payment_method_id,
+      off_session: true,
+      confirm: true,
+      metadata: {
+        donor_name: data.donor_name,
+        donor_email: data.donor_email,
+        donor_phone: data.donor_phone || "",
+        donation_type_id: data.donation_type_id,
+        donation_type_label: data.donation_type_label,
+        campaign_id: data.campaign_id || "",
+        fund: data.fund,
+        donor_message: "",
+        is_recurring: "false",
+        is_anonymous: "false",
+        donor_uid: data.donor_uid || "",
+        ...buildCoveredFeeMetadata(coveredFee),
+        ramadan_schedule_id: scheduleId,
+        ramadan_night: String(night.night),
+        ramadan_night_date: night.date,
+      },
+      description: `Ramadan night ${night.night} donation to ${data.donation_type_label}`,
+      receipt_email: data.donor_email,
+    }, {
+      idempotencyKey: `ramadan-${scheduleId}-${night.date}`,
+    });
+
+    return {
+      night: night.night,
+      status: paymentIntent.status === "succeeded" ? "succeeded" : "failed",
+      payment_intent_id: paymentIntent.id,
+      amount: paymentIntent.amount,
+      error: paymentIntent.status === "succeeded" ? null : `Payment ${paymentIntent.status}`,
+    };
+  } catch (error: any) {
+    // Off-session declines and authentication_required come back as errors
+    return {
+      night: night.night,
+      status: "failed",
+      payment_intent_id: error.raw?.payment_intent?.id || null,
+      amount: data.amount,
+      error: error.message || "Payment failed",
+    };
+  }
+}
+
+/**
+ * Close a schedule, release the saved card (or the unfinished SetupIntent) and
+ * email the donor a summary
+ */
+async function finishRamadanSchedule(
+  stripe: Stripe,
+  scheduleRef: FirebaseFirestore.DocumentReference,
+  data: FirebaseFirestore.DocumentData,
+  status: "completed" | "cancelled" | "expired",
+  cancelledBy?: string
+) {
+  await scheduleRef.update({
+    status,
+    ...(status === "completed"
+      ? { completed_at: admin.firestore.FieldValue.serverTimestamp() }
+      : status === "expired"
+        ? { expired_at: admin.firestore.FieldValue.serverTimestamp() }
+        : { cancelled_at: admin.firestore.FieldValue.serverTimestamp(), cancelled_by: cancelledBy || null }),
+    updated_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  // The donor never finished saving their card - stop the SetupIntent so it
+  // can't complete later
+  if (data.status === "pending_setup" && data.setup_intent_id) {
+    try {
+      await stripe.setupIntents.cancel(data.setup_intent_id);
+    } catch (error: any) {
+      logger.warn("Could not cancel Ramadan schedule SetupIntent", {
+        scheduleId: scheduleRef.id,
+        setupIntentId: data.setup_intent_id,
+        error: error.message,
+      });
+    }
+  }
+
+  if (data.payment_method_id) {
+    try {
+      await stripe.paymentMethods.detach(data.payment_method_id);
+    } catch (error: any) {
+      logger.warn("Could not detach Ramadan schedule card", {
+        scheduleId: scheduleRef.id,
+        error: error.message,
+      });
+    }
+  }
+
+  const charges: Record<string, RamadanCharge> = data.charges || {};
+  const nights: RamadanNight[] = data.nights || [];
+  const given = nights.filter((night) => charges[night.date]?.status === "succeeded");
+
+  if (given.length === 0 || !data.donor_email) {
+    logger.info("⏭️ SKIP: No nights charged - no Ramadan summary sent", { scheduleId: scheduleRef.id });
+    return;
+  }
+
+  const timezone = await getMosqueTimezone();
+  const emailData = await ramadanGivingSummaryEmail({
+    donorName: data.donor_name || "Donor",
+    currency: data.currency,
+    donationType: data.donation_type_label || "General Donation",
+    hijriYear: data.hijri_year,
+    nights: given.map((night) => ({
+      night: night.night,
+      date: formatNightDate(night.date, timezone),
+      amount: charges[night.date].amount ?? data.amount,
+      receiptNumber: charges[night.date].receipt_number,
+    })),
+    totalAmount: given.reduce((sum, night) => sum + (charges[night.date].amount ?? data.amount), 0),
+    missedNights: nights.filter((night) => {
+      const charge = charges[night.date];
+      return charge && charge.status !== "succeeded";
+    }).length,
+    cancelled: status === "cancelled",
+  });
+
+  const emailSent = await sendEmail({
+    to: data.donor_email,
+    subject: emailData.subject,
+    html: emailData.html,
+  });
+
+  if (emailSent) {
+    await scheduleRef.update({
+      summary_sent_at: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+
+  logger.info(emailSent ? "✅ Ramadan giving summary sent" : "❌ Failed to send Ramadan giving summary", {
+    scheduleId: scheduleRef.id,
+    nightsGiven: given.length,
+  });
+}
+
+// ============================================================================
+// WEBHOOK HELPERS (called from webhooks.ts)
+// ============================================================================
+
+/**
+ * setup_intent.succeeded - the donor's card is saved, start charging nights
+ */
+export async function activateRamadanSchedule(setupIntent: Stripe.SetupIntent) {
+  const scheduleId = setupIntent.metadata?.ramadan_schedule_id;
+  if (!scheduleId) {
+    logger.info("⏭️ SKIP: SetupIntent is not for a Ramadan schedule", { setupIntentId: setupIntent.id });
+    return;
+  }
+
+  const scheduleRef = db.collection("ramadanSchedules").doc(scheduleId);
+  const scheduleDoc = await scheduleRef.get();
+
+  if (!scheduleDoc.exists || scheduleDoc.data()?.status !== "pending_setup") {
+    logger.info("⏭️ SKIP: Ramadan schedule missing or already set up", { scheduleId });
+    return;
+  }
+
+  await scheduleRef.update({
+    status: "active",
+    payment_method_id: typeof setupIntent.payment_method === "string"
+      ? setupIntent.payment_method
+      : setupIntent.payment_method?.id || null,
+    activated_at: admin.firestore.FieldValue.serverTimestamp(),
+    updated_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  logger.info("🌙 Ramadan giving schedule activated", { scheduleId });
+}
+
+/**
+ * Link a nightly charge's donation record back to its schedule
+ */
+export async function linkRamadanDonation(
+  metadata: Record<string, string>,
+  donationId: string,
+  receiptNumber: string
+) {
+  if (!metadata.ramadan_schedule_id || !metadata.ramadan_night_date) {
+    return;
+  }
+
+  // Merge so the scheduler's own write for this night is kept, whichever lands first
+  await db.collection("ramadanSchedules").doc(metadata.ramadan_schedule_id).set({
+    charges: {
+      [metadata.ramadan_night_date]: {
+        donation_id: donationId,
+        receipt_number: receiptNumber,
+      },
+    },
+  }, { merge: true });
+}
+
+// ============================================================================
+// FUNCTION: Create Ramadan Giving Schedule
+// ============================================================================
+
+export const createRamadanGivingSchedule = onCall(
+  {
+    region: "australia-southeast1",
+    cors: true,
+    secrets: ["STRIPE_SECRET_KEY"],
+  },
+  async (request) => {
+    try {
+      const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "", {
+        apiVersion: "2023-10-16",
+      });
+
+      const data = request.data as CreateRamadanScheduleRequest;
+
+      // The donor gets a receipt every night and a summary at the end
+      if (!data.donor_email || !isValidEmail(data.donor_email)) {
+        throw new HttpsError("invalid-argument", "A valid email is required for Ramadan giving");
+      }
+      if (!data.donor_name || typeof data.donor_name !== "string") {
+        throw new HttpsError("invalid-argument", "Donor name is required");
+      }
+      const donorEmail = normalizeEmail(data.donor_email);
+
+      const settings = await db
+        .collection("donationSettings")
+        .doc("config")
+        .get();
+      const settingsData = settings.data();
+      const currency = resolveDonationCurrency(settingsData, data.currency, data.amount);
+
+      // `amount` is the nightly gift - gross it up when the donor covers fees
+      const coveredFee = data.cover_fees === true
+        ? calculateCoveredFee(
+          data.amount,
+          getProcessingFeeSettings(settingsData, currency.code)
+        )
+        : null;
+      const chargeAmount = coveredFee?.grossAmount ?? data.amount;
+      if (data.campaign_id) {
+        await assertCampaignAcceptingDonations(data.campaign_id);
+      }
+      const fund = await resolveDonationFund(
+        settingsData,
+        data.fund,
+        data.donation_type_id,
+        data.campaign_id
+      );
+
+      const timezone = await getMosqueTimezone();
+      const ramadanSettings = await getRamadanGivingSettings();
+      const { hijriYear, nights } = getLastTenNights(timezone, ramadanSettings.hijriAdjustmentDays);
+
+      if (nights.length === 0) {
+        throw new HttpsError("failed-precondition", "Could not work out the last ten nights of Ramadan");
+      }
+
+      // Create or find customer
+      const existingCustomers = await stripe.customers.list({
+        email: donorEmail,
+        limit: 1,
+      });
+
+      let customerId: string;
+      if (existingCustomers.data.length > 0) {
+        customerId = existingCustomers.data[0].id;
+      } else {
+        const customer = await stripe.customers.create({
+          name: data.donor_name,
+          email: donorEmail,
+          phone: data.donor_phone,
+          metadata: {
+            donation_type: data.donation_type_label,
+            campaign_id: data.campaign_id || "none",
+          },
+        });
+        customerId = customer.id;
+      }
+
+      await linkDonorCustomer(request.auth, donorEmail, customerId);
+
+      const scheduleRef = db.collection("ramadanSchedules").doc();
+
+      const setupIntent = await stripe.setupIntents.create({
+        customer: customerId,
+        usage: "off_session",
+        payment_method_types: ["card"],
+        metadata: {
+          ramadan_schedule_id: scheduleRef.id,
+        },
+      });
+
+      await scheduleRef.set({
+        id: scheduleRef.id,
+        status: "pending_setup",
+
+        donor_name: data.donor_name,
+        donor_email: donorEmail,
+        donor_phone: data.donor_phone || null,
+        donor_uid: request.auth?.uid || null,
+
+        stripe_customer_id: customerId,
+        setup_intent_id: setupIntent.id,
+        payment_method_id: null,
+
+        amount: chargeAmount,
+        gift_amount: data.amount,
+        covered_fee_amount: coveredFee?.feeAmount ?? 0,
+        cover_fees: !!coveredFee,
+        currency: currency.code,
+
+        donation_type_id: data.donation_type_id,
+        donation_type_label: data.donation_type_label,
+        campaign_id: data.campaign_id || null,
+        fund,
+
+        hijri_year: hijriYear,
+        nights,
+        charges: {},
+
+        created_at: admin.firestore.FieldValue.serverTimestamp(),
+        updated_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      logger.info("🌙 Ramadan giving schedule created", {
+        scheduleId: scheduleRef.id,
+        hijriYear,
+        nights: nights.length,
+        amount: chargeAmount,
+        donor: donorEmail,
+      });
+
+      return {
+        clientSecret: setupIntent.client_secret,
+        scheduleId: scheduleRef.id,
+        hijriYear,
+        nights,
+        amount: chargeAmount,
+        feeAmount: coveredFee?.feeAmount ?? 0,
+      };
+    } catch (error: any) {
+      logger.error("Error creating Ramadan giving schedule", error);
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      throw new HttpsError("internal", error.message);
+    }
+  }
+);
+
+// ============================================================================
+// FUNCTION: Cancel Ramadan Giving Schedule
+// ============================================================================
+
+export const cancelRamadanGivingSchedule = onCall(
+  {
+    region: "australia-southeast1",
+    secrets: ["STRIPE_SECRET_KEY", "RESEND_API_KEY"],
+  },
+  async (request) => {
+    const auth = requireAuth(request);
+
+    try {
+      const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "", {
+        apiVersion: "2023-10-16",
+      });
+
+      const { scheduleId } = request.data as { scheduleId: string };
+
+      if (!scheduleId || typeof scheduleId !== "string") {
+        throw new HttpsError("invalid-argument", "Schedule ID is required");
+      }
+
+      const scheduleRef = db.collection("ramadanSchedules").doc(scheduleId);
+      const scheduleDoc = await scheduleRef.get();
+
+      if (!scheduleDoc.exists) {
+        throw new HttpsError("not-found", "Ramadan giving schedule not found");
+      }
+
+      const data = scheduleDoc.data() || {};
+
+      const isAdmin = callerHasPermission(auth, Permission.EDIT_DONATION_SETTINGS);
+      if (!isAdmin && !(await callerOwnsDonationRecord(auth, data))) {
+        throw new HttpsError(
+          "permission-denied",
+          "You do not have permission to cancel this schedule"
+        );
+      }
+
+      if (data.status !== "active" && data.status !== "pending_setup") {
+        throw new HttpsError("failed-precondition", `This schedule is already ${data.status}`);
+      }
+
+      await finishRamadanSchedule(stripe, scheduleRef, data, "cancelled", auth.uid);
+
+      logger.info("Ramadan giving schedule cancelled", { scheduleId, cancelledBy: auth.uid });
+
+      return {
+        success: true,
+        scheduleId,
+      };
+    } catch (error: any) {
+      logger.error("Error cancelling Ramadan giving schedule", error);
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      throw new HttpsError("internal", error.message);
+    }
+  }
+);
+
+// ============================================================================
+// SCHEDULED FUNCTION: Charge Tonight's Ramadan Gifts
+// ============================================================================
+
+export const chargeRamadanNights = onSchedule({
+  schedule: "0 * * * *", // Every hour - each night is charged once charge_hour passes
+  timeZone: "Australia/Sydney",
+  region: "australia-southeast1",
+  secrets: ["STRIPE_SECRET_KEY", "RESEND_API_KEY"],
+}, async () => {
+  try {
+    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "", {
+      apiVersion: "2023-10-16",
+    });
+
+    const timezone = await getMosqueTimezone();
+    const now = new Date();
+    const today = toZonedDateString(now, timezone);
+
+    // Card never saved and no nights left to charge
+    const pendingSnapshot = await db
+      .collection("ramadanSchedules")
+      .where("status", "==", "pending_setup")
+      .get();
+
+    for (const doc of pendingSnapshot.docs) {
+      const data = doc.data();
+      const nights: RamadanNight[] = data.nights || [];
+      const lastNight = nights[nights.length - 1];
+      if (lastNight && lastNight.date >= today) {
+        continue;
+      }
+
+      try {
+        await finishRamadanSchedule(stripe, doc.ref, data, "expired");
+        logger.info("Ramadan giving schedule expired before setup", { scheduleId: doc.id });
+      } catch (error: any) {
+        logger.error("❌ Error expiring Ramadan giving schedule", {
+          scheduleId: doc.id,
+          error: error.message,
+        });
+      }
+    }
+
+    const snapshot = await db
+      .collection("ramadanSchedules")
+      .where("status", "==", "active")
+      .get();
+
+    if (snapshot.empty) {
+      return;
+    }
+
+    const settings = await getRamadanGivingSettings();
+    const chargeTimeReached = getZonedDateParts(now, timezone).hour >= settings.chargeHour;
+
+    let charged = 0;
+    let failed = 0;
+
+    for (const doc of snapshot.docs) {
+      const data = doc.data();
+      const nights: RamadanNight[] = data.nights || [];
+      const charges: Record<string, RamadanCharge> = { ...(data.charges || {}) };
+
+      try {
+        for (const night of nights) {
+          if (charges[night.date]?.status) {
+            continue;
+          }
+
+          let charge: RamadanCharge;
+          if (night.date < today) {
+            // Never charge a night late - record it as missed instead
+            charge = { night: night.night, status: "missed" };
+          } else if (night.date === today && chargeTimeReached) {
+            charge = await chargeNight(stripe, doc.id, data, night);
+            if (charge.status === "succeeded") {
+              charged++;
+            } else {
+              failed++;
+              logger.warn("Ramadan night charge failed", {
+                scheduleId: doc.id,
+                night: night.night,
+                error: charge.error,
+              });
+            }
+          } else {
+            continue;
+          }
+
+          charges[night.date] = { ...charges[night.date], ...charge };
+          await doc.ref.set({
+            charges: { [night.date]: { ...charge, charged_at: admin.firestore.FieldValue.serverTimestamp() } },
+            updated_at: admin.firestore.FieldValue.serverTimestamp(),
+          }, { merge: true });
+        }
+
+        // Finish the day after the last night so its receipt number is linked first
+        const lastNight = nights[nights.length - 1];
+        if (!lastNight || lastNight.date < today) {
+          await finishRamadanSchedule(stripe, doc.ref, { ...data, charges }, "completed");
+          logger.info("✅ Ramadan giving schedule completed", { scheduleId: doc.id });
+        }
+      } catch (error: any) {
+        logger.error("❌ Error processing Ramadan giving schedule", {
+          scheduleId: doc.id,
+          error: error.message,
+        });
+      }
+    }
+
+    logger.info("✅ Ramadan nights processed", { schedules: snapshot.size, charged, failed });
+  } catch (error: any) {
+    logger.error("❌ Error charging Ramadan nights:", error);
+  }
+});
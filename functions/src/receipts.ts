@@ -0,0 +1,137 @@
+// ============================================================================
+// CLOUD FUNCTIONS: DONATION RECEIPT PDFS
+// Location: mosque_app_functions/src/receipts.ts
+// ============================================================================
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import { Permission } from "./utils/roles";
+import { requirePermission } from "./utils/authorization";
+import { generateReceiptPdf } from "./utils/receiptPdf";
+import { DEFAULT_EMAIL_CONFIG, type EmailAttachment } from "./utils/emailTemplates";
+import { formatDisplayDate, getMosqueTimezone } from "./utils/timezone";
+import { DEDICATION_LABELS, type DedicationType } from "./emails/index.js";
+import { getMosqueTaxDetails } from "./taxStatements";
+
+const db = admin.firestore();
+
+// ============================================================================
+// HELPER: Build Receipt PDF For a Donation Record
+// ============================================================================
+
+/**
+ * Generates the PDF receipt for a `donations` document
+ * @returns The PDF as an email attachment, or null if the donation doesn't exist
+ */
+export async function buildDonationReceiptPdf(
+  donationId: string
+): Promise<EmailAttachment | null> {
+  const donationDoc = await db.collection("donations").doc(donationId).get();
+
+  if (!donationDoc.exists) {
+    return null;
+  }
+
+  const donation = donationDoc.data()!;
+  const timezone = await getMosqueTimezone();
+  const taxDetails = await getMosqueTaxDetails();
+
+  // Campaign name isn't stored on the donation - look it up
+  let campaignName: string | undefined;
+  if (donation.campaign_id) {
+    const campaignDoc = await db.collection("campaigns").doc(donation.campaign_id).get();
+    campaignName = campaignDoc.data()?.title || undefined;
+  }
+
+  // `date` is a YYYY-MM-DD string on checkout donations and a Timestamp elsewhere
+  const donatedAt = donation.completed_at?.toDate?.() || donation.created_at?.toDate?.();
+  const date = donatedAt
+    ? formatDisplayDate(donatedAt, timezone)
+    : typeof donation.date === "string"
+      ? donation.date
+      : "";
+
+  const receiptNumber = donation.receipt_number || donationDoc.id;
+  const dedicationLabel = DEDICATION_LABELS[donation.dedication?.type as DedicationType];
+  const content = await generateReceiptPdf({
+    mosqueName: DEFAULT_EMAIL_CONFIG.mosqueName,
+    supportEmail: DEFAULT_EMAIL_CONFIG.supportEmail,
+    receiptNumber,
+    date,
+    donorName: donation.donor_name || "Anonymous",
+    donorEmail: donation.donor_email || undefined,
+    amount: donation.amount || 0,
+    currency: donation.currency || "AUD",
+    donationType: donation.donation_type_label || "General Donation",
+    campaignName,
+    paymentMethod: donation.card_last4
+      ? `${donation.card_brand || "Card"} ending in ${donation.card_last4}`
+      : donation.payment_method_type || undefined,
+    recurringFrequency: donation.is_recurring
+      ? donation.recurring_frequency || "monthly"
+      : undefined,
+    abn: taxDetails.abn,
+    dgrEndorsed: taxDetails.dgrEndorsed,
+    refundedAmount: donation.refund_amount || undefined,
+    coveredFee: donation.covered_fee_amount || undefined,
+    dedication: dedicationLabel
+      ? { label: dedicationLabel, honoreeName: donation.dedication.honoree_name }
+      : undefined,
+  });
+
+  return {
+    filename: `${receiptNumber}.pdf`,
+    content,
+  };
+}
+
+// ============================================================================
+// FUNCTION: Get Donation Receipt PDF (Admin Dashboard)
+// ============================================================================
+
+export const getDonationReceiptPdf = onCall(
+  {
+    region: "australia-southeast1",
+    cors: true,
+  },
+  async (request) => {
+    const auth = requirePermission(
+      request,
+      Permission.VIEW_DONATIONS,
+      "You do not have permission to view donation receipts"
+    );
+
+    const { donationId } = request.data || {};
+
+    if (!donationId || typeof donationId !== "string") {
+      throw new HttpsError("invalid-argument", "Donation ID is required");
+    }
+
+    try {
+      const pdf = await buildDonationReceiptPdf(donationId);
+
+      if (!pdf) {
+        throw new HttpsError("not-found", "Donation not found");
+      }
+
+      logger.info("🧾 Receipt PDF generated", {
+        donationId,
+        requestedBy: auth.uid,
+      });
+
+      return {
+        success: true,
+        filename: pdf.filename,
+        contentType: "application/pdf",
+        pdfBase64: pdf.content.toString("base64"),
+      };
+    } catch (error: any) {
+      logger.error("Error generating receipt PDF", { donationId, error: error.message });
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      throw new HttpsError("internal", "Failed to generate receipt PDF");
+    }
+  }
+);
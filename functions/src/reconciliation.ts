@@ -0,0 +1,540 @@
+// ============================================================================
+// CLOUD FUNCTIONS: STRIPE ↔ FIRESTORE RECONCILIATION
+// Location: mosque_app_functions/src/reconciliation.ts
+// ============================================================================
+// Nightly check that every Stripe payment has a matching Firestore record:
+//   charges       -> donations (one-time, by stripe_payment_intent_id)
+//   invoices      -> donations (recurring payments, by stripe_payment_intent_id)
+//   subscriptions -> recurringDonations (by subscription id, including status;
+//                    only subscriptions with customer.subscription.* events in the window)
+//
+// Results are written to `reconciliationReports`. When backfill is enabled,
+// missing one-time donations are recorded with the same logic as the
+// payment_intent.succeeded webhook, and drifted subscription statuses are synced.
+//
+// donationSettings/config:
+//   reconciliation: { auto_backfill: false }
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import Stripe from "stripe";
+import { Permission } from "./utils/roles";
+import { requirePermission } from "./utils/authorization";
+import {
+  getMosqueTimezone,
+  getZonedDateParts,
+  toZonedDateString,
+  zonedTimeToUtc,
+} from "./utils/timezone";
+import { recordPaymentIntentDonation } from "./webhooks";
+import { sendAdminAlert } from "./alerts";
+
+const db = admin.firestore();
+
+// Keeps the report document well under Firestore's 1 MiB limit
+const MAX_REPORTED_DISCREPANCIES = 500;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type DiscrepancyType =
+  | "missing_donation"
+  | "missing_recurring_payment"
+  | "missing_recurring_donation"
+  | "amount_mismatch"
+  | "refund_mismatch"
+  | "status_mismatch";
+
+interface Discrepancy {
+  type: DiscrepancyType;
+  stripe_id: string; // Charge, invoice or subscription id
+  payment_intent_id?: string | null;
+  subscription_id?: string | null;
+  donation_id?: string | null;
+  expected?: string | number | null; // Stripe value
+  actual?: string | number | null; // Firestore value
+  backfilled?: boolean;
+  backfilled_donation_id?: string | null;
+  error?: string;
+}
+
+interface ReconciliationOptions {
+  windowDate: string; // YYYY-MM-DD in mosque timezone
+  backfill: boolean;
+  triggeredBy: string; // "schedule" or admin uid
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Start/end of a mosque-local calendar day as UTC instants
+ */
+function getDayWindow(windowDate: string, timeZone: string): { start: Date; end: Date } {
+  const [year, month, day] = windowDate.split("-").map((part) => parseInt(part, 10));
+  return {
+    start: zonedTimeToUtc(year, month, day, 0, 0, timeZone),
+    end: zonedTimeToUtc(year, month, day + 1, 0, 0, timeZone),
+  };
+}
+
+/**
+ * recurringDonations status we expect for a Stripe subscription.
+ * Stripe spells it "canceled"; our records use "cancelled".
+ */
+function getExpectedRecurringStatus(subscription: Stripe.Subscription): string {
+  // Paused subscriptions stay "active" in Stripe with pause_collection set
+  if (subscription.status === "active" && subscription.pause_collection) {
+    return "paused";
+  }
+  if (subscription.status !== "canceled") {
+    return subscription.status;
+  }
+  // Cancelled by Stripe after the final failed retry (see dunning.ts)
+  return subscription.cancellation_details?.reason === "payment_failed" ? "lapsed" : "cancelled";
+}
+
+async function findDonationByPaymentIntent(paymentIntentId: string) {
+  const snapshot = await db
+    .collection("donations")
+    .where("stripe_payment_intent_id", "==", paymentIntentId)
+    .limit(1)
+    .get();
+  return snapshot.empty ? null : snapshot.docs[0];
+}
+
+const getId = (value: string | { id: string } | null | undefined): string | null =>
+  !value ? null : typeof value === "string" ? value : value.id;
+
+// ============================================================================
+// RECONCILIATION
+// ============================================================================
+
+async function reconcileCharges(
+  stripe: Stripe,
+  window: { start: Date; end: Date },
+  backfill: boolean,
+  discrepancies: Discrepancy[]
+): Promise<number> {
+  let checked = 0;
+
+  for await (const charge of stripe.charges.list({
+    created: {
+      gte: Math.floor(window.start.getTime() / 1000),
+      lt: Math.floor(window.end.getTime() / 1000),
+    },
+    limit: 100,
+  })) {
+    // Subscription charges are checked against their invoices
+    if (charge.status !== "succeeded" || charge.invoice) continue;
+
+    const paymentIntentId = getId(charge.payment_intent);
+    if (!paymentIntentId) continue;
+
+    checked++;
+    const donationDoc = await findDonationByPaymentIntent(paymentIntentId);
+
+    if (!donationDoc) {
+      const discrepancy: Discrepancy = {
+        type: "missing_donation",
+        stripe_id: charge.id,
+        payment_intent_id: paymentIntentId,
+        expected: charge.amount,
+        actual: null,
+      };
+
+      if (backfill) {
+        try {
+          const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+          const donationId = await recordPaymentIntentDonation(paymentIntent, stripe, {
+            backfill: true,
+          });
+          discrepancy.backfilled = donationId !== null;
+          discrepancy.backfilled_donation_id = donationId;
+        } catch (error: any) {
+          discrepancy.backfilled = false;
+          discrepancy.error = error.message;
+        }
+      }
+
+      discrepancies.push(discrepancy);
+      continue;
+    }
+
+    const donation = donationDoc.data();
+
+    if (donation.amount !== charge.amount) {
+      discrepancies.push({
+        type: "amount_mismatch",
+        stripe_id: charge.id,
+        payment_intent_id: paymentIntentId,
+        donation_id: donationDoc.id,
+        expected: charge.amount,
+        actual: donation.amount ?? null,
+      });
+    }
+
+    if ((donation.refund_amount || 0) !== charge.amount_refunded) {
+      discrepancies.push({
+        type: "refund_mismatch",
+        stripe_id: charge.id,
+        payment_intent_id: paymentIntentId,
+        donation_id: donationDoc.id,
+        expected: charge.amount_refunded,
+        actual: donation.refund_amount || 0,
+      });
+    }
+  }
+
+  return checked;
+}
+
+async function reconcileInvoices(
+  stripe: Stripe,
+  window: { start: Date; end: Date },
+  discrepancies: Discrepancy[]
+): Promise<number> {
+  let checked = 0;
+
+  for await (const invoice of stripe.invoices.list({
+    created: {
+      gte: Math.floor(window.start.getTime() / 1000),
+      lt: Math.floor(window.end.getTime() / 1000),
+    },
+    status: "paid",
+    limit: 100,
+  })) {
+    const subscriptionId = getId(invoice.subscription);
+    const paymentIntentId = getId(invoice.payment_intent);
+    if (!subscriptionId || !paymentIntentId || invoice.amount_paid <= 0) continue;
+
+    checked++;
+    const donationDoc = await findDonationByPaymentIntent(paymentIntentId);
+
+    // Recurring payments aren't backfilled - replay the invoice.payment_succeeded
+    // event instead so the subscription record is updated too
+    if (!donationDoc) {
+      discrepancies.push({
+        type: "missing_recurring_payment",
+        stripe_id: invoice.id,
+        payment_intent_id: paymentIntentId,
+        subscription_id: subscriptionId,
+        expected: invoice.amount_paid,
+        actual: null,
+      });
+    } else if (donationDoc.data().amount !== invoice.amount_paid) {
+      discrepancies.push({
+        type: "amount_mismatch",
+        stripe_id: invoice.id,
+        payment_intent_id: paymentIntentId,
+        subscription_id: subscriptionId,
+        donation_id: donationDoc.id,
+        expected: invoice.amount_paid,
+        actual: donationDoc.data().amount ?? null,
+      });
+    }
+  }
+
+  return checked;
+}
+
+// Subscription changes that can move a recurringDonations status
+const SUBSCRIPTION_EVENT_TYPES = [
+  "customer.subscription.created",
+  "customer.subscription.updated",
+  "customer.subscription.deleted",
+  "customer.subscription.paused",
+  "customer.subscription.resumed",
+];
+
+async function reconcileSubscriptions(
+  stripe: Stripe,
+  window: { start: Date; end: Date },
+  backfill: boolean,
+  discrepancies: Discrepancy[]
+): Promise<number> {
+  let checked = 0;
+
+  // Only subscriptions that changed in the window are compared. Later events are
+  // read too so the latest change per subscription is known for the backfill check.
+  const inWindow = new Set<string>();
+  const latestEventAt = new Map<string, number>();
+
+  for await (const event of stripe.events.list({
+    types: SUBSCRIPTION_EVENT_TYPES,
+    created: { gte: Math.floor(window.start.getTime() / 1000) },
+    limit: 100,
+  })) {
+    const subscriptionId = (event.data.object as Stripe.Subscription).id;
+    const eventAt = event.created * 1000;
+
+    if (eventAt < window.end.getTime()) {
+      inWindow.add(subscriptionId);
+    }
+    latestEventAt.set(subscriptionId, Math.max(latestEventAt.get(subscriptionId) || 0, eventAt));
+  }
+
+  for (const subscriptionId of Array.from(inWindow)) {
+    const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+    if (subscription.metadata?.is_recurring !== "true") continue;
+
+    checked++;
+    const recurringDoc = await db.collection("recurringDonations").doc(subscription.id).get();
+    const expectedStatus = getExpectedRecurringStatus(subscription);
+
+    if (!recurringDoc.exists) {
+      // Abandoned checkouts never became donations - nothing to reconcile
+      if (subscription.status === "incomplete_expired") continue;
+
+      discrepancies.push({
+        type: "missing_recurring_donation",
+        stripe_id: subscription.id,
+        subscription_id: subscription.id,
+        expected: expectedStatus,
+        actual: null,
+      });
+      continue;
+    }
+
+    const actualStatus = recurringDoc.data()?.status;
+    if (actualStatus !== expectedStatus) {
+      const discrepancy: Discrepancy = {
+        type: "status_mismatch",
+        stripe_id: subscription.id,
+        subscription_id: subscription.id,
+        expected: expectedStatus,
+        actual: actualStatus ?? null,
+      };
+
+      // A record written after the latest Stripe event (e.g. a webhook that ran
+      // while this was reading) is newer than what we'd overwrite it with
+      const writtenAt = recurringDoc.updateTime?.toMillis() || 0;
+      const localIsNewer = writtenAt > (latestEventAt.get(subscription.id) || 0);
+
+      if (backfill && localIsNewer) {
+        discrepancy.backfilled = false;
+        discrepancy.error = "Record updated after the latest subscription event - not synced";
+      } else if (backfill) {
+        await recurringDoc.ref.update({
+          status: expectedStatus,
+          status_synced_at: admin.firestore.FieldValue.serverTimestamp(),
+          updated_at: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        discrepancy.backfilled = true;
+      }
+
+      discrepancies.push(discrepancy);
+    }
+  }
+
+  return checked;
+}
+
+/**
+ * Run a reconciliation for one mosque-local day and write the report
+ * @returns The report document ID and summary
+ */
+async function runReconciliation(options: ReconciliationOptions) {
+  const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "", {
+    apiVersion: "2023-10-16",
+  });
+
+  const timeZone = await getMosqueTimezone();
+  const window = getDayWindow(options.windowDate, timeZone);
+  const discrepancies: Discrepancy[] = [];
+
+  logger.info("🔄 Starting Stripe reconciliation", {
+    windowDate: options.windowDate,
+    start: window.start.toISOString(),
+    end: window.end.toISOString(),
+    backfill: options.backfill,
+  });
+
+  const chargesChecked = await reconcileCharges(stripe, window, options.backfill, discrepancies);
+  const invoicesChecked = await reconcileInvoices(stripe, window, discrepancies);
+  const subscriptionsChecked = await reconcileSubscriptions(
+    stripe,
+    window,
+    options.backfill,
+    discrepancies
+  );
+
+  const countsByType: Record<string, number> = {};
+  discrepancies.forEach((d) => {
+    countsByType[d.type] = (countsByType[d.type] || 0) + 1;
+  });
+
+  const summary = {
+    charges_checked: chargesChecked,
+    invoices_checked: invoicesChecked,
+    subscriptions_checked: subscriptionsChecked,
+    discrepancy_count: discrepancies.length,
+    backfilled_count: discrepancies.filter((d) => d.backfilled).length,
+    counts_by_type: countsByType,
+  };
+
+  const reportRef = await db.collection("reconciliationReports").add({
+    window_date: options.windowDate,
+    window_start: admin.firestore.Timestamp.fromDate(window.start),
+    window_end: admin.firestore.Timestamp.fromDate(window.end),
+    status: discrepancies.length === 0 ? "clean" : "discrepancies",
+    backfill_enabled: options.backfill,
+    ...summary,
+    discrepancies: discrepancies.slice(0, MAX_REPORTED_DISCREPANCIES),
+    discrepancies_truncated: discrepancies.length > MAX_REPORTED_DISCREPANCIES,
+    triggered_by: options.triggeredBy,
+    created_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  if (discrepancies.length > 0) {
+    logger.warn("⚠️ Reconciliation found discrepancies", {
+      reportId: reportRef.id,
+      ...summary,
+    });
+
+    await sendAdminAlert({
+      type: "reconciliation_mismatch",
+      title: `Reconciliation found ${discrepancies.length} discrepanc${discrepancies.length === 1 ? "y" : "ies"}`,
+      message: `Stripe reconciliation for ${options.windowDate} found records that don't match Firestore. ` +
+        "See the reconciliation report in the admin dashboard.",
+      details: [
+        ...Object.entries(countsByType).map(([type, count]) => ({ label: type, value: String(count) })),
+        { label: "Backfilled", value: String(summary.backfilled_count) },
+        { label: "Report ID", value: reportRef.id },
+      ],
+      data: { reportId: reportRef.id, windowDate: options.windowDate },
+    });
+  } else {
+    logger.info("✅ Reconciliation clean", { reportId: reportRef.id, ...summary });
+  }
+
+  return { reportId: reportRef.id, ...summary };
+}
+
+// ============================================================================
+// SCHEDULED FUNCTION: Nightly Reconciliation (previous day)
+// ============================================================================
+
+export const reconcileStripeDaily = onSchedule({
+  schedule: "0 3 * * *", // 3am daily
+  timeZone: "Australia/Sydney",
+  region: "australia-southeast1",
+  timeoutSeconds: 540,
+  secrets: ["STRIPE_SECRET_KEY", "RESEND_API_KEY"],
+}, async () => {
+  try {
+    const timeZone = await getMosqueTimezone();
+    const today = getZonedDateParts(new Date(), timeZone);
+    const yesterday = zonedTimeToUtc(today.year, today.month, today.day - 1, 12, 0, timeZone);
+
+    const settingsDoc = await db.collection("donationSettings").doc("config").get();
+
+    await runReconciliation({
+      windowDate: toZonedDateString(yesterday, timeZone),
+      backfill: settingsDoc.data()?.reconciliation?.auto_backfill === true,
+      triggeredBy: "schedule",
+    });
+  } catch (error: any) {
+    logger.error("❌ Error running Stripe reconciliation:", error);
+  }
+});
+
+// ============================================================================
+// CALLABLE: Run Reconciliation On Demand (Admin Dashboard)
+// ============================================================================
+
+export const runStripeReconciliation = onCall(
+  {
+    region: "australia-southeast1",
+    cors: true,
+    timeoutSeconds: 540,
+    secrets: ["STRIPE_SECRET_KEY", "RESEND_API_KEY"],
+  },
+  async (request) => {
+    const auth = requirePermission(
+      request,
+      Permission.RECONCILE_DONATIONS,
+      "You do not have permission to run reconciliation"
+    );
+
+    const { date, backfill } = (request.data || {}) as { date?: string; backfill?: boolean };
+
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      throw new HttpsError("invalid-argument", "Date must be in format YYYY-MM-DD");
+    }
+
+    try {
+      const result = await runReconciliation({
+        windowDate: date,
+        backfill: backfill === true,
+        triggeredBy: auth.uid,
+      });
+
+      await db.collection("adminLogs").add({
+        action: "stripe_reconciliation_run",
+        reportId: result.reportId,
+        windowDate: date,
+        backfill: backfill === true,
+        performedBy: auth.uid,
+        performedByEmail: auth.token.email || "unknown",
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      return { success: true, ...result };
+    } catch (error: any) {
+      logger.error("❌ Error running Stripe reconciliation:", error);
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      throw new HttpsError("internal", "Failed to run reconciliation");
+    }
+  }
+);
+
+// ============================================================================
+// CALLABLE: List Reconciliation Reports (Admin Dashboard)
+// ============================================================================
+
+export const listReconciliationReports = onCall(
+  {
+    region: "australia-southeast1",
+    cors: true,
+  },
+  async (request) => {
+    requirePermission(
+      request,
+      Permission.RECONCILE_DONATIONS,
+      "You do not have permission to view reconciliation reports"
+    );
+
+    const { limit = 30 } = (request.data || {}) as { limit?: number };
+
+    try {
+      const snapshot = await db
+        .collection("reconciliationReports")
+        .orderBy("created_at", "desc")
+        .limit(Math.min(Math.max(limit, 1), 100))
+        .get();
+
+      const reports = snapshot.docs.map((doc) => {
+        const data = doc.data();
+        return {
+          ...data,
+          id: doc.id,
+          window_start: data.window_start?.toDate()?.toISOString() ?? null,
+          window_end: data.window_end?.toDate()?.toISOString() ?? null,
+          created_at: data.created_at?.toDate()?.toISOString() ?? null,
+        };
+      });
+
+      return { reports };
+    } catch (error: any) {
+      logger.error("❌ Error listing reconciliation reports:", error);
+      throw new HttpsError("internal", "Failed to list reconciliation reports");
+    }
+  }
+);
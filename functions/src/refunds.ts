@@ -0,0 +1,229 @@
+// ============================================================================
+// CLOUD FUNCTIONS: DONATION REFUNDS
+// Location: mosque_app_functions/src/refunds.ts
+// ============================================================================
+// Lets admins start full or partial refunds from the dashboard. The donation
+// is marked with a pending refund here; the charge.refunded webhook
+// (webhooks.ts) reconciles the final amounts, campaign totals and donor email.
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import Stripe from "stripe";
+import { Permission } from "./utils/roles";
+import { requirePermission } from "./utils/authorization";
+
+const db = admin.firestore();
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface IssueRefundRequest {
+  donationId: string;
+  amount?: number; // cents - omit to refund the full remaining amount
+  reason: Stripe.RefundCreateParams.Reason;
+  note?: string;
+}
+
+const REFUND_REASONS: Stripe.RefundCreateParams.Reason[] = [
+  "duplicate",
+  "fraudulent",
+  "requested_by_customer",
+];
+
+// Donations that still have money that can be returned
+const REFUNDABLE_STATUSES = ["succeeded", "partially_refunded"];
+
+// ============================================================================
+// HELPER: Release Pending Refund
+// ============================================================================
+
+/**
+ * Removes a pending refund reservation after Stripe rejected the refund, either
+ * straight away or later (charge.refund.updated webhook, which passes the
+ * refund ID so a repeated event only releases once)
+ *
+ * @returns false if this refund's reservation was already released
+ */
+export async function releasePendingRefund(
+  donationRef: FirebaseFirestore.DocumentReference,
+  amount: number,
+  errorMessage: string,
+  refundId?: string
+): Promise<boolean> {
+  return db.runTransaction(async (transaction) => {
+    const donationDoc = await transaction.get(donationRef);
+    const donation = donationDoc.data() || {};
+
+    if (refundId && (donation.failed_refund_ids || []).includes(refundId)) {
+      return false;
+    }
+
+    const pending = Math.max((donation.pending_refund_amount || 0) - amount, 0);
+
+    transaction.update(donationRef, {
+      pending_refund_amount: pending,
+      refund_status: pending > 0 ? "pending" : "failed",
+      refund_error: errorMessage,
+      ...(refundId ? { failed_refund_ids: admin.firestore.FieldValue.arrayUnion(refundId) } : {}),
+      updated_at: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+}
+
+// ============================================================================
+// FUNCTION: Issue Refund (Admin Dashboard)
+// ============================================================================
+
+export const issueRefund = onCall(
+  {
+    region: "australia-southeast1",
+    cors: true,
+    secrets: ["STRIPE_SECRET_KEY"],
+  },
+  async (request) => {
+    const auth = requirePermission(
+      request,
+      Permission.REFUND_DONATIONS,
+      "You do not have permission to refund donations"
+    );
+
+    const { donationId, amount, reason, note } = (request.data || {}) as IssueRefundRequest;
+
+    if (!donationId || typeof donationId !== "string") {
+      throw new HttpsError("invalid-argument", "Donation ID is required");
+    }
+
+    if (amount !== undefined && (!Number.isInteger(amount) || amount <= 0)) {
+      throw new HttpsError("invalid-argument", "Refund amount must be a positive whole number of cents");
+    }
+
+    if (!REFUND_REASONS.includes(reason)) {
+      throw new HttpsError(
+        "invalid-argument",
+        `Refund reason must be one of: ${REFUND_REASONS.join(", ")}`
+      );
+    }
+
+    if (note !== undefined && (typeof note !== "string" || note.length > 500)) {
+      throw new HttpsError("invalid-argument", "Note must be a string of at most 500 characters");
+    }
+
+    const donationRef = db.collection("donations").doc(donationId);
+
+    // Reserve the refund amount first so concurrent requests can't over-refund
+    const { paymentIntentId, refundAmount } = await db.runTransaction(async (transaction) => {
+      const donationDoc = await transaction.get(donationRef);
+
+      if (!donationDoc.exists) {
+        throw new HttpsError("not-found", "Donation not found");
+      }
+
+      const donation = donationDoc.data()!;
+
+      if (!REFUNDABLE_STATUSES.includes(donation.payment_status)) {
+        throw new HttpsError(
+          "failed-precondition",
+          `Donations with status "${donation.payment_status}" cannot be refunded`
+        );
+      }
+
+      if (!donation.stripe_payment_intent_id) {
+        throw new HttpsError("failed-precondition", "Donation has no Stripe payment to refund");
+      }
+
+      const refundable =
+        (donation.amount || 0) -
+        (donation.refund_amount || 0) -
+        (donation.pending_refund_amount || 0);
+      const requested = amount ?? refundable;
+
+      if (refundable <= 0) {
+        throw new HttpsError("failed-precondition", "Donation has already been fully refunded");
+      }
+
+      if (requested > refundable) {
+        throw new HttpsError(
+          "invalid-argument",
+          `Refund amount exceeds the refundable balance of ${refundable} cents`
+        );
+      }
+
+      transaction.update(donationRef, {
+        refund_status: "pending",
+        pending_refund_amount: admin.firestore.FieldValue.increment(requested),
+        refund_reason: reason,
+        refund_note: note || null,
+        refund_requested_by: auth.uid,
+        refund_requested_at: admin.firestore.FieldValue.serverTimestamp(),
+        refund_error: admin.firestore.FieldValue.delete(),
+        updated_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      return {
+        paymentIntentId: donation.stripe_payment_intent_id as string,
+        refundAmount: requested,
+      };
+    });
+
+    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "", {
+      apiVersion: "2023-10-16",
+    });
+
+    let refund: Stripe.Refund;
+    try {
+      refund = await stripe.refunds.create({
+        payment_intent: paymentIntentId,
+        amount: refundAmount,
+        reason,
+        metadata: {
+          donation_id: donationId,
+          requested_by: auth.uid,
+          note: note || "",
+        },
+      });
+    } catch (error: any) {
+      logger.error("Stripe refund failed", {
+        donationId,
+        amount: refundAmount,
+        error: error.message,
+      });
+      await releasePendingRefund(donationRef, refundAmount, error.message);
+      throw new HttpsError("internal", `Refund failed: ${error.message}`);
+    }
+
+    await donationRef.update({
+      stripe_refund_ids: admin.firestore.FieldValue.arrayUnion(refund.id),
+      updated_at: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    await db.collection("adminLogs").add({
+      action: "refund_issued",
+      donationId,
+      refundId: refund.id,
+      amount: refundAmount,
+      reason,
+      note: note || null,
+      performedBy: auth.uid,
+      performedByEmail: auth.token.email || "unknown",
+      timestamp: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    logger.info("💸 Refund issued", {
+      donationId,
+      refundId: refund.id,
+      amount: refundAmount,
+      status: refund.status,
+      performedBy: auth.uid,
+    });
+
+    return {
+      success: true,
+      refundId: refund.id,
+      amount: refundAmount,
+      status: refund.status,
+    };
+  }
+);
@@ -10,6 +10,8 @@ import Stripe from "stripe";
 import { render } from "@react-email/render";
 import { getManagementLinkEmail, isValidEmail, normalizeEmail, DEFAULT_EMAIL_CONFIG } from "./emails/index.js";
 import { sendEmail } from "./utils/emailTemplates.js";
+import { requireAuth } from "./utils/authorization";
+import { callerOwnsCustomer } from "./donorProfiles";
 
 const db = admin.firestore();
 
@@ -109,13 +111,11 @@ export const getSubscriptionPortalUrl = onCall(
   },
   async (request) => {
     // Require authentication
-    if (!request.auth) {
-      throw new HttpsError("unauthenticated", "Authentication required");
-    }
+    const auth = requireAuth(request);
 
     const { customerId } = request.data;
 
-    if (!customerId) {
+    if (!customerId || typeof customerId !== "string") {
       throw new HttpsError("invalid-argument", "Customer ID is required");
     }
 
@@ -124,6 +124,18 @@ export const getSubscriptionPortalUrl = onCall(
         apiVersion: "2023-10-16",
       });
 
+      // Only open portals for customers linked to the caller's donor profile
+      if (!(await callerOwnsCustomer(auth, customerId, stripe))) {
+        logger.warn("Portal requested for customer not owned by caller", {
+          customerId,
+          userId: auth.uid,
+        });
+        throw new HttpsError(
+          "permission-denied",
+          "You can only manage your own donations"
+        );
+      }
+
       // Create portal session with proper return URL
       // Using a web URL that can redirect back to the app
       const portalSession = await stripe.billingPortal.sessions.create({
@@ -134,7 +146,7 @@ export const getSubscriptionPortalUrl = onCall(
 
       logger.info("🔗 Portal session created for authenticated user", {
         customerId,
-        userId: request.auth.uid,
+        userId: auth.uid,
       });
 
       return {
@@ -142,6 +154,9 @@ export const getSubscriptionPortalUrl = onCall(
         portalUrl: portalSession.url,
       };
     } catch (error: unknown) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
       const errorMessage = error instanceof Error ? error.message : "Unknown error";
       logger.error("Error creating portal session", { error: errorMessage, customerId });
       throw new HttpsError("internal", "Failed to create portal session");
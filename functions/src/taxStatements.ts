@@ -0,0 +1,507 @@
+// ============================================================================
+// CLOUD FUNCTIONS: ANNUAL TAX STATEMENTS
+// Location: mosque_app_functions/src/taxStatements.ts
+// ============================================================================
+// Consolidates a donor's donations for an Australian financial year
+// (1 July - 30 June in the mosque timezone) into a single statement email.
+// Every statement sent is recorded in `taxStatements` so it is only sent once.
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import { Permission } from "./utils/roles";
+import { callerHasPermission, requireAuth, requireVerifiedEmail } from "./utils/authorization";
+import {
+  annualTaxStatementEmail,
+  isValidEmail,
+  normalizeEmail,
+  sendEmail,
+} from "./utils/emailTemplates";
+import {
+  formatDisplayDate,
+  getMosqueTimezone,
+  getZonedDateParts,
+  zonedTimeToUtc,
+} from "./utils/timezone";
+import { getDefaultCurrency, normalizeCurrency } from "./utils/currency";
+import type {
+  AnnualTaxStatementAdjustment,
+  AnnualTaxStatementCurrencyTotal,
+  AnnualTaxStatementLine,
+} from "./emails/index.js";
+
+const db = admin.firestore();
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface SendTaxStatementRequest {
+  financialYear?: number; // Year the financial year ends, e.g. 2025 for 2024-25
+  email?: string; // Admins only - send the statement for another donor
+  resend?: boolean; // Admins only - send again even if already sent
+}
+
+interface FinancialYear {
+  endYear: number;
+  label: string; // e.g. "2024-25"
+  start: Date; // 1 July 00:00 in mosque timezone
+  end: Date; // Exclusive - 1 July 00:00 of the following year
+  periodStart: string;
+  periodEnd: string;
+}
+
+interface TaxStatementSummary {
+  donorName: string;
+  currency: string;
+  totalAmount: number; // cents
+  donations: AnnualTaxStatementLine[];
+  adjustments: AnnualTaxStatementAdjustment[];
+  otherCurrencyTotals: AnnualTaxStatementCurrencyTotal[]; // Listed separately, never added to totalAmount
+  donationIds: string[];
+}
+
+export interface MosqueTaxDetails {
+  abn?: string;
+  dgrEndorsed?: boolean;
+}
+
+type StatementResult = "sent" | "already_sent" | "empty" | "failed";
+
+// Statuses that represent money actually received at some point
+const STATEMENT_STATUSES = ["succeeded", "partially_refunded", "refunded", "disputed"];
+
+// ============================================================================
+// HELPER: Mosque Tax Details (ABN / DGR)
+// ============================================================================
+
+/**
+ * Reads the mosque's ABN and DGR endorsement from mosqueSettings/info
+ */
+export async function getMosqueTaxDetails(): Promise<MosqueTaxDetails> {
+  const settingsDoc = await db.collection("mosqueSettings").doc("info").get();
+  const settings = settingsDoc.data() || {};
+
+  return {
+    abn: typeof settings.abn === "string" && settings.abn ? settings.abn : undefined,
+    dgrEndorsed:
+      typeof settings.dgr_endorsed === "boolean" ? settings.dgr_endorsed : undefined,
+  };
+}
+
+/**
+ * Statements are issued in the mosque's default donation currency
+ */
+async function getStatementCurrency(): Promise<string> {
+  const settingsDoc = await db.collection("donationSettings").doc("config").get();
+  return getDefaultCurrency(settingsDoc.data());
+}
+
+// ============================================================================
+// HELPER: Financial Year Bounds
+// ============================================================================
+
+function getFinancialYear(endYear: number, timezone: string): FinancialYear {
+  const start = zonedTimeToUtc(endYear - 1, 7, 1, 0, 0, timezone);
+  const end = zonedTimeToUtc(endYear, 7, 1, 0, 0, timezone);
+
+  return {
+    endYear,
+    label: `${endYear - 1}-${String(endYear).slice(-2)}`,
+    start,
+    end,
+    periodStart: formatDisplayDate(start, timezone),
+    periodEnd: formatDisplayDate(new Date(end.getTime() - 1), timezone),
+  };
+}
+
+/**
+ * Returns the end year of the most recently completed financial year
+ */
+function getLastCompletedFinancialYear(timezone: string): number {
+  const now = getZonedDateParts(new Date(), timezone);
+  return now.month >= 7 ? now.year : now.year - 1;
+}
+
+// ============================================================================
+// HELPER: Build Statement From Donation Records
+// ============================================================================
+
+/**
+ * Amount of a donation excluded from the deductible total (refunded or disputed)
+ */
+function getExcludedAmount(data: FirebaseFirestore.DocumentData): {
+  excluded: number;
+  description: string;
+} {
+  const amount = data.amount || 0;
+
+  if (data.payment_status === "disputed") {
+    return { excluded: amount, description: "Disputed" };
+  }
+  if (data.payment_status === "refunded" || data.payment_status === "partially_refunded") {
+    const excluded = Math.min(data.refund_amount ?? amount, amount);
+    return { excluded, description: excluded < amount ? "Partial refund" : "Refunded" };
+  }
+  return { excluded: 0, description: "" };
+}
+
+/**
+ * Aggregates donation records into statement lines.
+ * Refunded amounts and disputed donations are excluded from the total and
+ * listed as adjustments instead. Donations in other currencies are totalled
+ * per currency in `otherCurrencyTotals` - amounts in different currencies are
+ * never added together.
+ */
+function buildTaxStatement(
+  docs: FirebaseFirestore.QueryDocumentSnapshot[],
+  timezone: string,
+  currency: string
+): TaxStatementSummary | null {
+  const sorted = docs
+    .filter((doc) => STATEMENT_STATUSES.includes(doc.data().payment_status))
+    .sort(
+      (a, b) =>
+        (a.data().created_at?.toMillis?.() || 0) -
+        (b.data().created_at?.toMillis?.() || 0)
+    );
+
+  if (sorted.length === 0) {
+    return null;
+  }
+
+  const summary: TaxStatementSummary = {
+    donorName: "Donor",
+    currency,
+    totalAmount: 0,
+    donations: [],
+    adjustments: [],
+    otherCurrencyTotals: [],
+    donationIds: [],
+  };
+
+  for (const doc of sorted) {
+    const data = doc.data();
+    const amount = data.amount || 0;
+    const { excluded, description } = getExcludedAmount(data);
+    const deductible = amount - excluded;
+
+    if (data.donor_name && data.donor_name !== "Anonymous") {
+      summary.donorName = data.donor_name;
+    }
+
+    const donationCurrency = normalizeCurrency(data.currency);
+    if (donationCurrency !== currency) {
+      if (deductible > 0) {
+        let total = summary.otherCurrencyTotals.find((t) => t.currency === donationCurrency);
+        if (!total) {
+          total = { currency: donationCurrency, amount: 0, donationCount: 0 };
+          summary.otherCurrencyTotals.push(total);
+        }
+        total.amount += deductible;
+        total.donationCount += 1;
+        summary.donationIds.push(doc.id);
+      }
+      continue;
+    }
+
+    const date = data.created_at?.toDate
+      ? formatDisplayDate(data.created_at.toDate(), timezone)
+      : "";
+    const receiptNumber = data.receipt_number || doc.id;
+
+    if (excluded > 0) {
+      summary.adjustments.push({ date, receiptNumber, description, amount: excluded });
+    }
+
+    if (deductible > 0) {
+      summary.donations.push({
+        date,
+        receiptNumber,
+        donationType: data.donation_type_label || "General Donation",
+        amount: deductible,
+      });
+      summary.totalAmount += deductible;
+    }
+
+    summary.donationIds.push(doc.id);
+  }
+
+  return summary;
+}
+
+// ============================================================================
+// HELPER: Send Statement For One Donor
+// ============================================================================
+
+async function sendStatementForDonor(
+  financialYear: FinancialYear,
+  email: string,
+  docs: FirebaseFirestore.QueryDocumentSnapshot[],
+  timezone: string,
+  currency: string,
+  taxDetails: MosqueTaxDetails,
+  sentBy: string,
+  resend: boolean
+): Promise<StatementResult> {
+  const statementRef = db
+    .collection("taxStatements")
+    .doc(`${financialYear.label}_${email.replace(/\//g, "_")}`);
+
+  const existing = await statementRef.get();
+  if (existing.exists && existing.data()?.email_sent && !resend) {
+    logger.info("⏭️ SKIP: Tax statement already sent", {
+      financialYear: financialYear.label,
+      email,
+    });
+    return "already_sent";
+  }
+
+  const summary = buildTaxStatement(docs, timezone, currency);
+  if (!summary || (summary.totalAmount <= 0 && summary.otherCurrencyTotals.length === 0)) {
+    return "empty";
+  }
+
+  if (summary.otherCurrencyTotals.length > 0) {
+    logger.info("Tax statement lists donations in other currencies separately", {
+      financialYear: financialYear.label,
+      email,
+      statementCurrency: currency,
+      otherCurrencyDonations: summary.otherCurrencyTotals.reduce((n, t) => n + t.donationCount, 0),
+      currencies: summary.otherCurrencyTotals.map((t) => t.currency),
+    });
+  }
+
+  const emailData = await annualTaxStatementEmail({
+    donorName: summary.donorName,
+    financialYear: financialYear.label,
+    periodStart: financialYear.periodStart,
+    periodEnd: financialYear.periodEnd,
+    currency: summary.currency,
+    totalAmount: summary.totalAmount,
+    donations: summary.donations,
+    adjustments: summary.adjustments,
+    otherCurrencyTotals: summary.otherCurrencyTotals,
+    abn: taxDetails.abn,
+    dgrEndorsed: taxDetails.dgrEndorsed,
+  });
+
+  const emailSent = await sendEmail({
+    to: email,
+    subject: emailData.subject,
+    html: emailData.html,
+  });
+
+  await statementRef.set(
+    {
+      financial_year: financialYear.label,
+      donor_email: email,
+      donor_name: summary.donorName,
+      currency: summary.currency,
+      total_amount: summary.totalAmount,
+      donation_count: summary.donations.length,
+      donation_ids: summary.donationIds,
+      adjustments: summary.adjustments,
+      other_currency_totals: summary.otherCurrencyTotals,
+      email_sent: emailSent,
+      sent_at: emailSent ? admin.firestore.FieldValue.serverTimestamp() : null,
+      sent_by: sentBy,
+      send_count: admin.firestore.FieldValue.increment(emailSent ? 1 : 0),
+      updated_at: admin.firestore.FieldValue.serverTimestamp(),
+    },
+    { merge: true }
+  );
+
+  logger.info(emailSent ? "✅ Tax statement sent" : "❌ Tax statement email failed", {
+    financialYear: financialYear.label,
+    email,
+    totalAmount: summary.totalAmount,
+    donationCount: summary.donations.length,
+  });
+
+  return emailSent ? "sent" : "failed";
+}
+
+/**
+ * Excludes anonymous donations, which have no donor to send a statement to
+ */
+function isStatementRecipient(email: string | null | undefined): email is string {
+  return (
+    isValidEmail(email) &&
+    normalizeEmail(email) !== "anonymous@donation.com"
+  );
+}
+
+// ============================================================================
+// FUNCTION 1: Send Tax Statement (Donor or Admin Requested)
+// ============================================================================
+
+export const sendTaxStatement = onCall(
+  {
+    region: "australia-southeast1",
+    cors: true,
+    secrets: ["RESEND_API_KEY"],
+  },
+  async (request) => {
+    const auth = requireAuth(request);
+    const data = (request.data || {}) as SendTaxStatementRequest;
+    const isAdmin = callerHasPermission(auth, Permission.EXPORT_DONATIONS);
+
+    // Donors may only request their own statement, for their verified email
+    let email: string;
+    if (data.email && normalizeEmail(data.email) !== normalizeEmail(auth.token.email || "")) {
+      if (!isAdmin) {
+        throw new HttpsError(
+          "permission-denied",
+          "You do not have permission to send statements for other donors"
+        );
+      }
+      if (!isValidEmail(data.email)) {
+        throw new HttpsError("invalid-argument", "Invalid email format");
+      }
+      email = normalizeEmail(data.email);
+    } else {
+      email = requireVerifiedEmail(request);
+    }
+
+    if (data.resend && !isAdmin) {
+      throw new HttpsError(
+        "permission-denied",
+        "Only admins can resend a statement"
+      );
+    }
+
+    try {
+      const timezone = await getMosqueTimezone();
+      const endYear = data.financialYear ?? getLastCompletedFinancialYear(timezone);
+
+      if (!Number.isInteger(endYear) || endYear < 2000 || endYear > 2100) {
+        throw new HttpsError("invalid-argument", "Invalid financial year");
+      }
+
+      const financialYear = getFinancialYear(endYear, timezone);
+
+      const donationsSnapshot = await db
+        .collection("donations")
+        .where("donor_email", "==", email)
+        .where("created_at", ">=", admin.firestore.Timestamp.fromDate(financialYear.start))
+        .where("created_at", "<", admin.firestore.Timestamp.fromDate(financialYear.end))
+        .orderBy("created_at", "desc")
+        .get();
+
+      const result = await sendStatementForDonor(
+        financialYear,
+        email,
+        donationsSnapshot.docs,
+        timezone,
+        await getStatementCurrency(),
+        await getMosqueTaxDetails(),
+        auth.uid,
+        data.resend === true
+      );
+
+      if (result === "empty") {
+        throw new HttpsError(
+          "not-found",
+          `No donations found for financial year ${financialYear.label}`
+        );
+      }
+
+      return {
+        success: result !== "failed",
+        status: result,
+        financialYear: financialYear.label,
+      };
+    } catch (error: any) {
+      logger.error("Error sending tax statement", error);
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      throw new HttpsError("internal", "Failed to send tax statement");
+    }
+  }
+);
+
+// ============================================================================
+// FUNCTION 2: Send Annual Tax Statements (Scheduled)
+// Runs on 1 July and sends statements for the financial year just ended
+// ============================================================================
+
+export const sendAnnualTaxStatements = onSchedule(
+  {
+    schedule: "0 9 1 7 *", // 9am on 1 July
+    timeZone: "Australia/Sydney",
+    region: "australia-southeast1",
+    timeoutSeconds: 540,
+    secrets: ["RESEND_API_KEY"],
+  },
+  async () => {
+    try {
+      const timezone = await getMosqueTimezone();
+      const financialYear = getFinancialYear(
+        getLastCompletedFinancialYear(timezone),
+        timezone
+      );
+
+      logger.info("🧾 Sending annual tax statements", {
+        financialYear: financialYear.label,
+        start: financialYear.start.toISOString(),
+        end: financialYear.end.toISOString(),
+      });
+
+      const donationsSnapshot = await db
+        .collection("donations")
+        .where("created_at", ">=", admin.firestore.Timestamp.fromDate(financialYear.start))
+        .where("created_at", "<", admin.firestore.Timestamp.fromDate(financialYear.end))
+        .get();
+
+      // Group donations by donor email
+      const byDonor = new Map<string, FirebaseFirestore.QueryDocumentSnapshot[]>();
+      donationsSnapshot.forEach((doc) => {
+        const donorEmail = doc.data().donor_email;
+        if (!isStatementRecipient(donorEmail)) {
+          return;
+        }
+        const key = normalizeEmail(donorEmail);
+        byDonor.set(key, [...(byDonor.get(key) || []), doc]);
+      });
+
+      const taxDetails = await getMosqueTaxDetails();
+      const currency = await getStatementCurrency();
+      const counts: Record<StatementResult, number> = {
+        sent: 0,
+        already_sent: 0,
+        empty: 0,
+        failed: 0,
+      };
+
+      for (const [email, docs] of byDonor) {
+        try {
+          const result = await sendStatementForDonor(
+            financialYear,
+            email,
+            docs,
+            timezone,
+            currency,
+            taxDetails,
+            "scheduler",
+            false
+          );
+          counts[result] += 1;
+        } catch (error) {
+          counts.failed += 1;
+          logger.error("Error sending tax statement to donor", { email, error });
+        }
+      }
+
+      logger.info("✅ Annual tax statements complete", {
+        financialYear: financialYear.label,
+        donors: byDonor.size,
+        ...counts,
+      });
+    } catch (error: any) {
+      logger.error("❌ Error sending annual tax statements:", error);
+    }
+  }
+);
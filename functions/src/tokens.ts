@@ -1,6 +1,17 @@
 import {onCall, HttpsError, CallableRequest} from "firebase-functions/v2/https";
 import * as admin from "firebase-admin";
 import {logger} from "firebase-functions";
+import {
+  NOTIFICATION_CATEGORIES,
+  NotificationCategory,
+  PRAYER_REMINDER_OFFSETS,
+  PrayerReminderPreferences,
+  REMINDER_PRAYERS,
+  getCategoryPreferences,
+  getPrayerReminderPreferences,
+  isNotificationCategory,
+  isReminderPrayer,
+} from "./utils/notificationTargeting";
 
 // ============================================================================
 // Type Definitions
@@ -16,7 +27,10 @@ interface RegisterFcmTokenRequest {
 
 interface SetNotificationPreferenceRequest {
   deviceId: string;
-  enabled: boolean;
+  enabled?: boolean; // master switch
+  categories?: Partial<Record<NotificationCategory, boolean>>; // only listed categories change
+  eventCategoryIds?: string[] | null; // eventCategories doc IDs; null = all event categories
+  prayerReminders?: Partial<PrayerReminderPreferences>; // only listed fields change
   appVersion?: string; // optional lightweight version sync
 }
 
@@ -108,6 +122,111 @@ function validateBoolean(value: unknown, fieldName: string): boolean {
   return value;
 }
 
+/**
+ * Validates a partial category preference map: known categories with boolean values
+ */
+function validateCategories(
+  categories: unknown
+): Partial<Record<NotificationCategory, boolean>> {
+  if (typeof categories !== "object" || categories === null || Array.isArray(categories)) {
+    throw new HttpsError("invalid-argument", "categories must be an object");
+  }
+
+  const result: Partial<Record<NotificationCategory, boolean>> = {};
+  for (const [category, value] of Object.entries(categories)) {
+    if (!isNotificationCategory(category)) {
+      throw new HttpsError(
+        "invalid-argument",
+        `Unknown category '${category}' (expected ${NOTIFICATION_CATEGORIES.join(", ")})`
+      );
+    }
+    result[category] = validateBoolean(value, `categories.${category}`);
+  }
+
+  return result;
+}
+
+/**
+ * Validates event category IDs against the eventCategories collection.
+ * null clears the filter (all event categories).
+ */
+async function validateEventCategoryIds(eventCategoryIds: unknown): Promise<string[] | null> {
+  if (eventCategoryIds === null) {
+    return null;
+  }
+
+  if (!Array.isArray(eventCategoryIds) ||
+    eventCategoryIds.some((id) => typeof id !== "string" || id.length === 0 || id.includes("/"))) {
+    throw new HttpsError("invalid-argument", "eventCategoryIds must be an array of IDs or null");
+  }
+
+  if (eventCategoryIds.length > 50) {
+    throw new HttpsError("invalid-argument", "Too many event categories (max 50)");
+  }
+
+  const uniqueIds = [...new Set(eventCategoryIds as string[])];
+  if (uniqueIds.length === 0) {
+    return [];
+  }
+
+  const db = admin.firestore();
+  const docs = await db.getAll(...uniqueIds.map((id) => db.collection("eventCategories").doc(id)));
+  const unknownIds = docs.filter((doc) => !doc.exists).map((doc) => doc.id);
+  if (unknownIds.length > 0) {
+    throw new HttpsError("invalid-argument", `Unknown event categories: ${unknownIds.join(", ")}`);
+  }
+
+  return uniqueIds;
+}
+
+/**
+ * Validates a partial prayer reminder preference: prayers, offsetMinutes and jumuah
+ */
+function validatePrayerReminders(
+  prayerReminders: unknown
+): Partial<PrayerReminderPreferences> {
+  if (typeof prayerReminders !== "object" || prayerReminders === null ||
+    Array.isArray(prayerReminders)) {
+    throw new HttpsError("invalid-argument", "prayerReminders must be an object");
+  }
+
+  const {prayers, offsetMinutes, jumuah} = prayerReminders as Record<string, unknown>;
+  const result: Partial<PrayerReminderPreferences> = {};
+
+  if (prayers !== undefined) {
+    if (!Array.isArray(prayers) || !prayers.every(isReminderPrayer)) {
+      throw new HttpsError(
+        "invalid-argument",
+        `prayerReminders.prayers must only contain ${REMINDER_PRAYERS.join(", ")}`
+      );
+    }
+    result.prayers = [...new Set(prayers)];
+  }
+
+  if (offsetMinutes !== undefined) {
+    if (!(PRAYER_REMINDER_OFFSETS as readonly unknown[]).includes(offsetMinutes)) {
+      throw new HttpsError(
+        "invalid-argument",
+        `prayerReminders.offsetMinutes must be one of ${PRAYER_REMINDER_OFFSETS.join(", ")}`
+      );
+    }
+    result.offsetMinutes = offsetMinutes as number;
+  }
+
+  if (jumuah !== undefined) {
+    result.jumuah = validateBoolean(jumuah, "prayerReminders.jumuah");
+  }
+
+  if (Object.keys(result).length === 0) {
+    throw new HttpsError(
+      "invalid-argument",
+      "prayerReminders must include prayers, offsetMinutes or jumuah"
+    );
+  }
+
+  return result;
+}
+
 // ============================================================================
 // Rate Limiting Helper (simple per-device check)
 // ============================================================================
@@ -214,7 +333,9 @@ export const registerFcmToken = onCall(
 );
 
 /**
- * Set notification preference for a device.
+ * Set notification preferences for a device: the master switch, per-category
+ * opt-ins, which event categories to receive and prayer reminders.
+ * Omitted fields are unchanged.
  * 
  * TODO: Set enforceAppCheck to true after App Check is registered in Firebase Console
  */
@@ -224,22 +345,49 @@ export const setNotificationPreference = onCall(
     region: "australia-southeast1",
   },
   async (request: CallableRequest<SetNotificationPreferenceRequest>) => {
-  const {deviceId, enabled, appVersion} = request.data;
+  const {deviceId, enabled, categories, eventCategoryIds, prayerReminders, appVersion} =
+    request.data;
 
     try {
       const validDeviceId = validateDeviceId(deviceId);
-      const validEnabled = validateBoolean(enabled, "enabled");
+      const validEnabled = enabled !== undefined ? validateBoolean(enabled, "enabled") : undefined;
+      const validCategories = categories !== undefined ? validateCategories(categories) : undefined;
+      const validEventCategoryIds = eventCategoryIds !== undefined
+        ? await validateEventCategoryIds(eventCategoryIds)
+        : undefined;
+      const validPrayerReminders = prayerReminders !== undefined
+        ? validatePrayerReminders(prayerReminders)
+        : undefined;
       const validAppVersion = typeof appVersion === "string" && appVersion.length > 0
         ? validateAppVersion(appVersion)
         : null;
 
+      if (validEnabled === undefined && validCategories === undefined &&
+        validEventCategoryIds === undefined && validPrayerReminders === undefined) {
+        throw new HttpsError(
+          "invalid-argument",
+          "Provide enabled, categories, eventCategoryIds or prayerReminders"
+        );
+      }
+
       const tokenRef = admin.firestore().collection("fcmTokens").doc(validDeviceId);
 
       const updateData: Record<string, any> = {
-        notificationsEnabled: validEnabled,
         lastSeen: admin.firestore.FieldValue.serverTimestamp(),
         updatedAt: admin.firestore.FieldValue.serverTimestamp(),
       };
+      if (validEnabled !== undefined) {
+        updateData.notificationsEnabled = validEnabled;
+      }
+      for (const [category, value] of Object.entries(validCategories || {})) {
+        updateData[`categories.${category}`] = value;
+      }
+      if (validEventCategoryIds !== undefined) {
+        updateData.eventCategoryIds = validEventCategoryIds;
+      }
+      for (const [field, value] of Object.entries(validPrayerReminders || {})) {
+        updateData[`prayerReminders.${field}`] = value;
+      }
       if (validAppVersion) {
         updateData.appVersion = validAppVersion;
       }
@@ -249,6 +397,9 @@ export const setNotificationPreference = onCall(
       logger.info("Notification preference updated", {
         deviceId: validDeviceId,
         enabled: validEnabled,
+        categories: validCategories,
+        eventCategoryIds: validEventCategoryIds,
+        prayerReminders: validPrayerReminders,
         appVersion: validAppVersion || undefined,
       });
 
@@ -292,6 +443,9 @@ export const getNotificationPreference = onCall(
           ok: true,
           exists: false,
           notificationsEnabled: null,
+          categories: null,
+          eventCategoryIds: null,
+          prayerReminders: null,
         };
       }
 
@@ -301,6 +455,9 @@ export const getNotificationPreference = onCall(
         ok: true,
         exists: true,
         notificationsEnabled: data?.notificationsEnabled ?? false,
+        categories: getCategoryPreferences(data),
+        eventCategoryIds: Array.isArray(data?.eventCategoryIds) ? data?.eventCategoryIds : null,
+        prayerReminders: getPrayerReminderPreferences(data),
       };
     } catch (error) {
       if (error instanceof HttpsError) {
@@ -0,0 +1,135 @@
+/**
+ * Shared Authorization Helpers for Callable Functions
+ * Resolves the caller's permissions from custom claims (including legacy
+ * admin claims) and enforces them with consistent HttpsErrors.
+ */
+
+import { HttpsError, CallableRequest } from "firebase-functions/v2/https";
+import {
+  Permission,
+  RoleId,
+  getPermissionsFromRoles,
+  hasPermission,
+  hasAnyPermission,
+  migrateLegacyAdmin,
+} from "./roles";
+
+type AuthData = NonNullable<CallableRequest["auth"]>;
+
+// ============================================================================
+// CLAIM RESOLUTION
+// ============================================================================
+
+type Claims = { [key: string]: any };
+
+/**
+ * Check if a set of custom claims belongs to a Super Admin (new role claims or
+ * legacy superAdmin claim)
+ */
+function claimsAreSuperAdmin(claims: Claims): boolean {
+  const roles = Array.isArray(claims.roles) ? (claims.roles as RoleId[]) : [];
+  return (
+    claims.isSuperAdmin === true ||
+    claims.superAdmin === true ||
+    roles.includes(RoleId.SUPER_ADMIN)
+  );
+}
+
+/**
+ * Get the permissions carried by a set of custom claims.
+ * Accounts that only carry the legacy admin/superAdmin claims get
+ * permissions derived from their migrated roles (same as adminManagement.ts).
+ */
+function getClaimPermissions(claims: Claims): Permission[] {
+  const permissions = (claims.permissions as Permission[]) || [];
+
+  if (permissions.length === 0 && (claims.superAdmin === true || claims.admin === true)) {
+    return getPermissionsFromRoles(migrateLegacyAdmin(claims));
+  }
+
+  return permissions;
+}
+
+/**
+ * Check if the caller is a Super Admin (new role claims or legacy superAdmin claim)
+ */
+export function isCallerSuperAdmin(auth: AuthData): boolean {
+  return claimsAreSuperAdmin(auth.token);
+}
+
+/**
+ * Get the caller's permissions from custom claims
+ */
+export function getCallerPermissions(auth: AuthData): Permission[] {
+  return getClaimPermissions(auth.token);
+}
+
+/**
+ * Check if the caller holds a permission (Super Admins always do)
+ */
+export function callerHasPermission(auth: AuthData, permission: Permission): boolean {
+  return isCallerSuperAdmin(auth) || hasPermission(getCallerPermissions(auth), permission);
+}
+
+/**
+ * Check if another user (e.g. from admin.auth().getUser()) holds at least one
+ * of the given permissions
+ */
+export function userHasAnyPermission(
+  customClaims: Claims | undefined,
+  required: Permission[]
+): boolean {
+  const claims = customClaims || {};
+  return claimsAreSuperAdmin(claims) || hasAnyPermission(getClaimPermissions(claims), required);
+}
+
+// ============================================================================
+// ENFORCEMENT
+// ============================================================================
+
+/**
+ * Require an authenticated caller
+ * @returns The caller's auth data
+ */
+export function requireAuth(request: CallableRequest): AuthData {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated");
+  }
+  return request.auth;
+}
+
+/**
+ * Require an authenticated caller holding at least one of the given permissions
+ * @returns The caller's auth data
+ */
+export function requirePermission(
+  request: CallableRequest,
+  required: Permission | Permission[],
+  message = "You do not have permission to perform this action"
+): AuthData {
+  const auth = requireAuth(request);
+  const requiredList = Array.isArray(required) ? required : [required];
+
+  if (!isCallerSuperAdmin(auth) && !hasAnyPermission(getCallerPermissions(auth), requiredList)) {
+    throw new HttpsError("permission-denied", message);
+  }
+
+  return auth;
+}
+
+/**
+ * Require an authenticated caller with a verified email address
+ * @returns The caller's normalized (lowercase, trimmed) email
+ */
+export function requireVerifiedEmail(request: CallableRequest): string {
+  const auth = requireAuth(request);
+
+  if (!auth.token.email || auth.token.email_verified !== true) {
+    throw new HttpsError(
+      "failed-precondition",
+      "A verified email address is required"
+    );
+  }
+
+  return auth.token.email.toLowerCase().trim();
+}
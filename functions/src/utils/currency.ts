@@ -0,0 +1,112 @@
+/**
+ * Donation Currency Settings
+ * Reads the allowed currencies and per-currency minimums from
+ * donationSettings/config and validates donor-requested currencies.
+ *
+ * donationSettings/config:
+ *   default_currency: "AUD"
+ *   currencies: [{ code: "AUD", minimum_amount: 1 }, { code: "USD", minimum_amount: 5 }]
+ *   minimum_amount: 1 // legacy - used when `currencies` isn't set
+ *
+ * Minimums are in major units (dollars); amounts everywhere else are in the
+ * currency's smallest unit (cents).
+ */
+
+import { HttpsError } from "firebase-functions/v2/https";
+import { formatAmount, getCurrencyDecimals } from "../emails/index.js";
+
+export const DEFAULT_CURRENCY = "AUD";
+
+export interface CurrencyOption {
+  code: string; // Uppercase ISO code, e.g. "AUD"
+  minimumAmount: number; // Smallest unit (cents)
+}
+
+/**
+ * Convert a major-unit amount (dollars) to the currency's smallest unit (cents)
+ */
+export function toMinorUnits(amount: number, currency: string): number {
+  return Math.round(amount * Math.pow(10, getCurrencyDecimals(currency)));
+}
+
+/**
+ * Convert a smallest-unit amount (cents) to major units (dollars)
+ */
+export function toMajorUnits(amount: number, currency: string): number {
+  return amount / Math.pow(10, getCurrencyDecimals(currency));
+}
+
+/**
+ * Normalize a currency code from Stripe or Firestore (Stripe uses lowercase)
+ */
+export function normalizeCurrency(currency?: string | null): string {
+  return (currency || DEFAULT_CURRENCY).toUpperCase();
+}
+
+/**
+ * Get the mosque's default donation currency
+ */
+export function getDefaultCurrency(settings?: FirebaseFirestore.DocumentData): string {
+  const allowed = getAllowedCurrencies(settings);
+  const configured = normalizeCurrency(settings?.default_currency);
+  return allowed.some((option) => option.code === configured) ? configured : allowed[0].code;
+}
+
+/**
+ * Get the allowed donation currencies from donationSettings/config.
+ * Falls back to AUD with the legacy `minimum_amount` when none are configured.
+ */
+export function getAllowedCurrencies(settings?: FirebaseFirestore.DocumentData): CurrencyOption[] {
+  const legacyMinimum = settings?.minimum_amount ?? 1;
+  const configured = Array.isArray(settings?.currencies) ? settings!.currencies : [];
+
+  const options: CurrencyOption[] = configured
+    .filter((entry: any) => typeof entry?.code === "string" && /^[A-Za-z]{3}$/.test(entry.code))
+    .map((entry: any) => {
+      const code = normalizeCurrency(entry.code);
+      return {
+        code,
+        minimumAmount: toMinorUnits(entry.minimum_amount ?? legacyMinimum, code),
+      };
+    });
+
+  if (options.length === 0) {
+    return [
+      { code: DEFAULT_CURRENCY, minimumAmount: toMinorUnits(legacyMinimum, DEFAULT_CURRENCY) },
+    ];
+  }
+
+  return options;
+}
+
+/**
+ * Validate a requested donation currency and amount against donation settings
+ * @returns The allowed currency option (defaults to the mosque's default currency)
+ */
+export function resolveDonationCurrency(
+  settings: FirebaseFirestore.DocumentData | undefined,
+  requestedCurrency: string | undefined,
+  amount: number
+): CurrencyOption {
+  const allowed = getAllowedCurrencies(settings);
+  const code = requestedCurrency
+    ? normalizeCurrency(requestedCurrency)
+    : getDefaultCurrency(settings);
+  const option = allowed.find((entry) => entry.code === code);
+
+  if (!option) {
+    throw new HttpsError(
+      "invalid-argument",
+      `Currency ${code} is not accepted. Allowed: ${allowed.map((entry) => entry.code).join(", ")}`
+    );
+  }
+
+  if (!Number.isInteger(amount) || amount < option.minimumAmount) {
+    throw new HttpsError(
+      "invalid-argument",
+      `Minimum donation is ${formatAmount(option.minimumAmount, option.code)}`
+    );
+  }
+
+  return option;
+}
@@ -32,6 +32,24 @@ import {
   getSubscriptionCancelledEmail,
   getRefundConfirmationEmail,
   getDisputeAlertEmail,
+  getAnnualTaxStatementEmail,
+  getDedicationNotificationEmail,
+  getWebhookFailureAlertEmail,
+  getDisputeEvidenceReminderEmail,
+  getAdminAlertEmail,
+  getRecurringLapsedEmail,
+  getSubscriptionPausedEmail,
+  getRamadanGivingSummaryEmail,
+  type AnnualTaxStatementData,
+  type WebhookFailureAlertData,
+  type DisputeEvidenceReminderData,
+  type AdminAlertData,
+  type DunningStage,
+  type RecurringLapsedData,
+  type SubscriptionPausedData,
+  type RamadanGivingSummaryData,
+  type DedicationNotificationData,
+  type DedicationType,
   isValidEmail,
   normalizeEmail,
   DEFAULT_EMAIL_CONFIG,
@@ -50,6 +68,8 @@ export interface OneTimeDonationData {
   date: string;
   donationType: string;
   campaignName?: string;
+  coveredFee?: number;
+  dedication?: { type: DedicationType; honoreeName: string };
   cardLast4?: string;
   cardBrand?: string;
 }
@@ -77,6 +97,7 @@ export interface MonthlyReceiptData {
   frequency: string;
   donationType: string;
   campaignName?: string;
+  coveredFee?: number;
   nextPaymentDate: string;
   /**
    * @deprecated Portal URLs expire quickly. Do not embed in emails.
@@ -91,6 +112,8 @@ export interface PaymentFailedData {
   frequency: string;
   attemptCount: number;
   nextRetryDate?: string;
+  stage?: DunningStage;
+  failureReason?: string;
   /**
    * @deprecated Portal URLs expire quickly. Do not embed in emails.
    */
@@ -126,11 +149,17 @@ export interface DisputeAlertEmailParams {
   disputeId: string;
 }
 
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+}
+
 export interface SendEmailParams {
   to: string;
   subject: string;
   html: string;
   from?: string;
+  attachments?: EmailAttachment[];
 }
 
 // ============================================================================
@@ -139,7 +168,7 @@ export interface SendEmailParams {
 
 /**
  * Sends an email with raw HTML content (backwards compatible)
- * @param params Email parameters including recipient, subject, and HTML content
+ * @param params Email parameters including recipient, subject, HTML content and optional attachments
  * @returns true if email was sent successfully, false otherwise
  */
 export async function sendEmail(params: SendEmailParams): Promise<boolean> {
@@ -160,6 +189,7 @@ export async function sendEmail(params: SendEmailParams): Promise<boolean> {
       logger.info("(EMULATOR) Skipping real email send, simulating success", {
         to: normalizedTo,
         subject: params.subject,
+        attachments: params.attachments?.map((a) => a.filename),
       });
       return true;
     }
@@ -176,6 +206,7 @@ export async function sendEmail(params: SendEmailParams): Promise<boolean> {
       to: normalizedTo,
       subject: params.subject,
       html: params.html,
+      attachments: params.attachments,
     });
 
     if (result.error) {
@@ -257,6 +288,7 @@ export async function monthlyRecurringReceipt(data: MonthlyReceiptData): Promise
     donationType: data.donationType,
     campaignName: data.campaignName,
     nextPaymentDate: data.nextPaymentDate,
+    coveredFee: data.coveredFee,
   });
   const html = await render(email.component);
   return {
@@ -280,6 +312,51 @@ export async function paymentFailedEmail(data: PaymentFailedData): Promise<{
   };
 }
 
+/**
+ * Subscription paused / resumed confirmation email
+ */
+export async function subscriptionPausedEmail(data: SubscriptionPausedData): Promise<{
+  subject: string;
+  html: string;
+}> {
+  const email = getSubscriptionPausedEmail(data);
+  const html = await render(email.component);
+  return {
+    subject: email.subject,
+    html,
+  };
+}
+
+/**
+ * Recurring donation lapsed (win-back) email
+ */
+export async function recurringLapsedEmail(data: RecurringLapsedData): Promise<{
+  subject: string;
+  html: string;
+}> {
+  const email = getRecurringLapsedEmail(data);
+  const html = await render(email.component);
+  return {
+    subject: email.subject,
+    html,
+  };
+}
+
+/**
+ * Ramadan last ten nights giving summary email
+ */
+export async function ramadanGivingSummaryEmail(data: RamadanGivingSummaryData): Promise<{
+  subject: string;
+  html: string;
+}> {
+  const email = getRamadanGivingSummaryEmail(data);
+  const html = await render(email.component);
+  return {
+    subject: email.subject,
+    html,
+  };
+}
+
 /**
  * Subscription cancelled email
  */
@@ -332,3 +409,78 @@ export async function disputeAlertEmail(params: DisputeAlertEmailParams): Promis
   });
   return await render(email.component);
 }
+
+/**
+ * Annual tax-deductible donation statement email
+ */
+export async function annualTaxStatementEmail(data: AnnualTaxStatementData): Promise<{
+  subject: string;
+  html: string;
+}> {
+  const email = getAnnualTaxStatementEmail(data);
+  const html = await render(email.component);
+  return {
+    subject: email.subject,
+    html,
+  };
+}
+
+/**
+ * Notification to the recipient of a dedicated ("in memory of" / "on behalf of") donation
+ */
+export async function dedicationNotificationEmail(data: DedicationNotificationData): Promise<{
+  subject: string;
+  html: string;
+}> {
+  const email = getDedicationNotificationEmail(data);
+  const html = await render(email.component);
+  return {
+    subject: email.subject,
+    html,
+  };
+}
+
+/**
+ * Webhook failure alert email (for admins)
+ */
+export async function webhookFailureAlertEmail(data: WebhookFailureAlertData): Promise<{
+  subject: string;
+  html: string;
+}> {
+  const email = getWebhookFailureAlertEmail(data);
+  const html = await render(email.component);
+  return {
+    subject: email.subject,
+    html,
+  };
+}
+
+/**
+ * Dispute evidence deadline reminder email (for admins)
+ */
+export async function disputeEvidenceReminderEmail(data: DisputeEvidenceReminderData): Promise<{
+  subject: string;
+  html: string;
+}> {
+  const email = getDisputeEvidenceReminderEmail(data);
+  const html = await render(email.component);
+  return {
+    subject: email.subject,
+    html,
+  };
+}
+
+/**
+ * Generic admin alert email (for alert types without a dedicated template)
+ */
+export async function adminAlertEmail(data: AdminAlertData): Promise<{
+  subject: string;
+  html: string;
+}> {
+  const email = getAdminAlertEmail(data);
+  const html = await render(email.component);
+  return {
+    subject: email.subject,
+    html,
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Donor-Covered Processing Fees
+ * When a donor chooses to cover fees, the charged amount is grossed up so the
+ * mosque still receives the intended gift after Stripe's processing fee.
+ *
+ * donationSettings/config:
+ *   processing_fee: { percent: 1.75, fixed_amount: 0.30 }
+ *   currencies: [{ code: "USD", minimum_amount: 5, processing_fee: { percent: 2.9, fixed_amount: 0.30 } }]
+ *
+ * `fixed_amount` is in major units (dollars), like `minimum_amount`.
+ */
+
+import { normalizeCurrency, toMinorUnits } from "./currency";
+
+export interface ProcessingFeeSettings {
+  percent: number; // e.g. 1.75 for 1.75%
+  fixedAmount: number; // Smallest unit (cents)
+}
+
+export interface CoveredFeeBreakdown {
+  grossAmount: number; // Amount charged to the donor (cents)
+  giftAmount: number; // Intended gift (cents)
+  feeAmount: number; // Processing fee covered by the donor (cents)
+}
+
+// Stripe's standard Australian domestic card rate
+const DEFAULT_FEE_PERCENT = 1.75;
+const DEFAULT_FEE_FIXED = 0.3;
+
+/**
+ * Get the processing fee settings for a currency from donationSettings/config.
+ * A currency's own `processing_fee` overrides the top-level one.
+ */
+export function getProcessingFeeSettings(
+  settings: FirebaseFirestore.DocumentData | undefined,
+  currency: string
+): ProcessingFeeSettings {
+  const code = normalizeCurrency(currency);
+  const currencyEntry = Array.isArray(settings?.currencies)
+    ? settings!.currencies.find((entry: any) => normalizeCurrency(entry?.code) === code)
+    : undefined;
+  const fee = currencyEntry?.processing_fee || settings?.processing_fee || {};
+
+  const percent = typeof fee.percent === "number" && fee.percent >= 0 && fee.percent < 100
+    ? fee.percent
+    : DEFAULT_FEE_PERCENT;
+  const fixed = typeof fee.fixed_amount === "number" && fee.fixed_amount >= 0
+    ? fee.fixed_amount
+    : DEFAULT_FEE_FIXED;
+
+  return { percent, fixedAmount: toMinorUnits(fixed, code) };
+}
+
+/**
+ * Gross up a gift so that, after the processing fee is deducted from the
+ * charged amount, the mosque receives at least the intended gift
+ */
+export function calculateCoveredFee(
+  giftAmount: number,
+  fee: ProcessingFeeSettings
+): CoveredFeeBreakdown {
+  const grossAmount = Math.ceil((giftAmount + fee.fixedAmount) / (1 - fee.percent / 100));
+  return {
+    grossAmount,
+    giftAmount,
+    feeAmount: grossAmount - giftAmount,
+  };
+}
+
+/**
+ * Stripe metadata describing a donor-covered fee (read back by the webhooks)
+ */
+export function buildCoveredFeeMetadata(breakdown: CoveredFeeBreakdown | null): Record<string, string> {
+  return {
+    cover_fees: breakdown ? "true" : "false",
+    gift_amount: breakdown ? String(breakdown.giftAmount) : "",
+    fee_amount: breakdown ? String(breakdown.feeAmount) : "",
+  };
+}
+
+/**
+ * Split a charged amount into gift and covered fee using Stripe metadata.
+ * Donations without `cover_fees` are entirely gift.
+ */
+export function splitCoveredFee(
+  metadata: Record<string, string | null | undefined>,
+  chargedAmount: number
+): CoveredFeeBreakdown {
+  const feeAmount = metadata.cover_fees === "true"
+    ? Math.min(Math.max(parseInt(metadata.fee_amount || "0", 10) || 0, 0), chargedAmount)
+    : 0;
+
+  return {
+    grossAmount: chargedAmount,
+    giftAmount: chargedAmount - feeAmount,
+    feeAmount,
+  };
+}
@@ -0,0 +1,392 @@
+// ============================================================================
+// UTILITY: FCM Delivery Engine
+// Location: functions/src/utils/notificationDelivery.ts
+// ============================================================================
+// sendEachForMulticast accepts at most 500 tokens, so every sender goes
+// through sendMulticast(). Recipients are split into 500-token chunks and sent
+// a few chunks at a time; transient FCM errors are retried with backoff, and
+// the responses are passed to cleanupInvalidTokens (except whole-request
+// failures, which say nothing about individual tokens).
+//
+// Audiences above QUEUE_THRESHOLD_TOKENS are written to a Firestore job queue
+// and sent by processNotificationJobs.ts, which continues across invocations:
+//
+// notificationJobs/{jobId}:
+//   status: "pending" | "processing" | "completed"
+//   label: string                      // Sender, for logs
+//   log_id: string|null                // notificationLogs doc to add counts to
+//   message: MulticastMessage without tokens
+//   total_tokens, total_chunks, completed_chunks
+//   success_count, failure_count
+//   lease_until: Timestamp|null        // Held by the invocation currently sending
+// notificationJobs/{jobId}/chunks/{index}:
+//   tokens, device_ids, status: "pending" | "sent", success_count, failure_count
+// notificationJobs/{jobId}/runs/{runId}: creating one starts an invocation
+
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import { cleanupInvalidTokens } from "./tokenCleanup";
+
+export const FCM_MULTICAST_LIMIT = 500;
+
+// Chunks in flight at once
+const CHUNK_CONCURRENCY = 4;
+
+// Retries per chunk after the first attempt
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+
+// Larger audiences are queued rather than sent inline by the trigger
+export const QUEUE_THRESHOLD_TOKENS = 10 * FCM_MULTICAST_LIMIT;
+
+// Firestore batches are capped at 500 writes
+const BATCH_WRITE_LIMIT = 400;
+
+// FCM errors worth retrying (per token, or thrown for the whole request)
+const TRANSIENT_ERROR_CODES = new Set([
+  "messaging/internal-error",
+  "messaging/server-unavailable",
+  "messaging/message-rate-exceeded",
+  "messaging/quota-exceeded",
+  "messaging/unknown-error",
+  "app/network-error",
+  "app/network-timeout",
+]);
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type MulticastTemplate = Omit<admin.messaging.MulticastMessage, "tokens">;
+
+// requestFailed: the whole FCM request failed, not this token
+type ChunkResponse = admin.messaging.SendResponse & { requestFailed?: boolean };
+
+export interface DeliveryOptions {
+  label?: string; // Sender name for logs and queued jobs
+  logId?: string; // notificationLogs doc - queued jobs add their counts to it
+}
+
+export interface DeliveryResult {
+  successCount: number;
+  failureCount: number;
+  totalTokens: number;
+  queued: boolean; // true when handed to the job queue (counts are then 0)
+  jobId?: string;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function chunkArray<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isTransientError(error: any): boolean {
+  return !!error?.code && TRANSIENT_ERROR_CODES.has(error.code);
+}
+
+/**
+ * Run `fn` over items with at most `limit` calls in flight, keeping result order
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  });
+
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Send one chunk (<= 500 tokens). Tokens that fail transiently are re-sent with
+ * exponential backoff; the returned responses line up with `tokens`.
+ */
+async function sendChunkWithRetry(
+  template: MulticastTemplate,
+  tokens: string[]
+): Promise<ChunkResponse[]> {
+  const responses: ChunkResponse[] = new Array(tokens.length);
+  let pending = tokens.map((_, index) => index);
+
+  for (let attempt = 0; pending.length > 0; attempt++) {
+    const canRetry = attempt < MAX_RETRIES;
+
+    try {
+      const response = await admin.messaging().sendEachForMulticast({
+        ...template,
+        tokens: pending.map((index) => tokens[index]),
+      });
+
+      const retry: number[] = [];
+      response.responses.forEach((result, i) => {
+        responses[pending[i]] = result;
+        if (!result.success && isTransientError(result.error)) {
+          retry.push(pending[i]);
+        }
+      });
+      pending = retry;
+    } catch (error: any) {
+      if (!isTransientError(error) || !canRetry) {
+        // Whole request failed - count every remaining token as failed
+        logger.error("❌ FCM request failed for chunk", {
+          code: error?.code,
+          error: error?.message,
+          tokens: pending.length,
+        });
+        pending.forEach((index) => {
+          responses[index] = { success: false, error, requestFailed: true };
+        });
+        return responses;
+      }
+    }
+
+    if (pending.length === 0 || !canRetry) {
+      break;
+    }
+
+    const delayMs = BASE_BACKOFF_MS * 2 ** attempt + Math.floor(Math.random() * 250);
+    logger.warn("⏳ Retrying FCM chunk after transient errors", {
+      attempt: attempt + 1,
+      tokens: pending.length,
+      delayMs,
+    });
+    await sleep(delayMs);
+  }
+
+  return responses;
+}
+
+/**
+ * Send a set of chunks concurrently and return per-chunk responses
+ */
+async function sendChunks(
+  template: MulticastTemplate,
+  tokenChunks: string[][]
+): Promise<ChunkResponse[][]> {
+  return mapWithConcurrency(tokenChunks, CHUNK_CONCURRENCY, (chunk) =>
+    sendChunkWithRetry(template, chunk)
+  );
+}
+
+/**
+ * Remove dead tokens. Whole-request failures (e.g. an invalid payload) would
+ * otherwise look like invalid-argument on every token and delete them all.
+ */
+async function cleanupChunkTokens(
+  tokens: string[],
+  responses: ChunkResponse[],
+  deviceIds: string[]
+): Promise<void> {
+  const indexes = responses
+    .map((_, index) => index)
+    .filter((index) => !responses[index].requestFailed);
+
+  await cleanupInvalidTokens(
+    indexes.map((index) => tokens[index]),
+    indexes.map((index) => responses[index]),
+    indexes.map((index) => deviceIds[index])
+  );
+}
+
+// ============================================================================
+// SEND
+// ============================================================================
+
+/**
+ * Deliver a multicast message to any number of tokens.
+ * `deviceIds` must line up with `message.tokens` (used for token cleanup).
+ */
+export async function sendMulticast(
+  message: admin.messaging.MulticastMessage,
+  deviceIds: string[],
+  options: DeliveryOptions = {}
+): Promise<DeliveryResult> {
+  const { tokens, ...template } = message;
+
+  if (tokens.length > QUEUE_THRESHOLD_TOKENS) {
+    return enqueueNotificationJob(template, tokens, deviceIds, options);
+  }
+
+  const tokenChunks = chunkArray(tokens, FCM_MULTICAST_LIMIT);
+  const responses = (await sendChunks(template, tokenChunks)).flat();
+
+  await cleanupChunkTokens(tokens, responses, deviceIds);
+
+  const successCount = responses.filter((response) => response.success).length;
+
+  return {
+    successCount,
+    failureCount: responses.length - successCount,
+    totalTokens: tokens.length,
+    queued: false,
+  };
+}
+
+// ============================================================================
+// JOB QUEUE
+// ============================================================================
+
+/**
+ * Write the recipients to notificationJobs in chunks and start the first run
+ */
+async function enqueueNotificationJob(
+  template: MulticastTemplate,
+  tokens: string[],
+  deviceIds: string[],
+  options: DeliveryOptions
+): Promise<DeliveryResult> {
+  const db = admin.firestore();
+  const jobRef = db.collection("notificationJobs").doc();
+  const tokenChunks = chunkArray(tokens, FCM_MULTICAST_LIMIT);
+  const deviceIdChunks = chunkArray(deviceIds, FCM_MULTICAST_LIMIT);
+
+  // Chunks first - the run document below starts processing
+  for (let start = 0; start < tokenChunks.length; start += BATCH_WRITE_LIMIT) {
+    const batch = db.batch();
+    tokenChunks.slice(start, start + BATCH_WRITE_LIMIT).forEach((chunk, offset) => {
+      const index = start + offset;
+      batch.set(jobRef.collection("chunks").doc(String(index).padStart(5, "0")), {
+        index,
+        tokens: chunk,
+        device_ids: deviceIdChunks[index] || [],
+        status: "pending",
+      });
+    });
+    await batch.commit();
+  }
+
+  await jobRef.set({
+    id: jobRef.id,
+    status: "pending",
+    label: options.label || "notification",
+    log_id: options.logId || null,
+    message: template,
+    total_tokens: tokens.length,
+    total_chunks: tokenChunks.length,
+    completed_chunks: 0,
+    success_count: 0,
+    failure_count: 0,
+    lease_until: null,
+    created_at: admin.firestore.FieldValue.serverTimestamp(),
+    updated_at: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  await startNotificationJobRun(jobRef.id);
+
+  logger.info("📬 Notification queued for chunked delivery", {
+    jobId: jobRef.id,
+    label: options.label,
+    totalTokens: tokens.length,
+    chunks: tokenChunks.length,
+  });
+
+  return {
+    successCount: 0,
+    failureCount: 0,
+    totalTokens: tokens.length,
+    queued: true,
+    jobId: jobRef.id,
+  };
+}
+
+/**
+ * Trigger another invocation of the job worker
+ */
+export async function startNotificationJobRun(jobId: string): Promise<void> {
+  await admin.firestore()
+    .collection("notificationJobs")
+    .doc(jobId)
+    .collection("runs")
+    .add({ created_at: admin.firestore.FieldValue.serverTimestamp() });
+}
+
+/**
+ * Send pending chunks of a queued job until `deadline`.
+ * A chunk interrupted mid-send may be re-sent by the next run.
+ *
+ * @returns true when every chunk has been sent
+ */
+export async function processNotificationJobChunks(
+  jobRef: FirebaseFirestore.DocumentReference,
+  job: FirebaseFirestore.DocumentData,
+  deadline: number
+): Promise<boolean> {
+  const db = admin.firestore();
+  const template = job.message as MulticastTemplate;
+
+  while (Date.now() < deadline) {
+    const snapshot = await jobRef
+      .collection("chunks")
+      .where("status", "==", "pending")
+      .limit(CHUNK_CONCURRENCY)
+      .get();
+
+    if (snapshot.empty) {
+      return true;
+    }
+
+    const chunkResponses = await sendChunks(
+      template,
+      snapshot.docs.map((doc) => doc.data().tokens as string[])
+    );
+
+    for (let i = 0; i < snapshot.docs.length; i++) {
+      const chunkDoc = snapshot.docs[i];
+      const chunk = chunkDoc.data();
+      const responses = chunkResponses[i];
+      const successCount = responses.filter((response) => response.success).length;
+      const failureCount = responses.length - successCount;
+
+      await cleanupChunkTokens(chunk.tokens, responses, chunk.device_ids || []);
+
+      const batch = db.batch();
+      batch.update(chunkDoc.ref, {
+        status: "sent",
+        success_count: successCount,
+        failure_count: failureCount,
+        sent_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      batch.update(jobRef, {
+        completed_chunks: admin.firestore.FieldValue.increment(1),
+        success_count: admin.firestore.FieldValue.increment(successCount),
+        failure_count: admin.firestore.FieldValue.increment(failureCount),
+        updated_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      if (job.log_id) {
+        batch.update(db.collection("notificationLogs").doc(job.log_id), {
+          successCount: admin.firestore.FieldValue.increment(successCount),
+          failureCount: admin.firestore.FieldValue.increment(failureCount),
+        });
+      }
+      await batch.commit();
+    }
+  }
+
+  const remaining = await jobRef
+    .collection("chunks")
+    .where("status", "==", "pending")
+    .limit(1)
+    .get();
+
+  return remaining.empty;
+}
@@ -0,0 +1,153 @@
+// ============================================================================
+// UTILITY: Notification Targeting
+// Location: functions/src/utils/notificationTargeting.ts
+// ============================================================================
+// Every broadcast sender picks its recipients here instead of calling
+// getActiveTokens directly, so per-device category preferences are respected.
+//
+// fcmTokens/{deviceId} preference fields:
+//   notificationsEnabled: boolean               // Master switch
+//   categories: { prayer, events, campaigns, general }   // Missing = true
+//   eventCategoryIds: string[] | null           // eventCategories doc IDs; null = all
+//   prayerReminders: { prayers, offsetMinutes, jumuah }   // Missing = no reminders (opt-in)
+//
+// events/{eventId}:
+//   category_id: string | null                  // eventCategories doc ID (like campaign_id on donations)
+
+import { getActiveTokens } from "./tokenCleanup";
+
+export const NOTIFICATION_CATEGORIES = ["prayer", "events", "campaigns", "general"] as const;
+
+export type NotificationCategory = typeof NOTIFICATION_CATEGORIES[number];
+
+export const REMINDER_PRAYERS = ["fajr", "dhuhr", "asr", "maghrib", "isha"] as const;
+
+export type ReminderPrayer = typeof REMINDER_PRAYERS[number];
+
+// Minutes before iqama - multiples of the reminder scheduler's 5 minute interval
+export const PRAYER_REMINDER_OFFSETS = [5, 10, 15, 20, 30, 45, 60] as const;
+
+export const DEFAULT_PRAYER_REMINDER_OFFSET = 15;
+
+export interface PrayerReminderPreferences {
+  prayers: ReminderPrayer[]; // Prayers to be reminded about
+  offsetMinutes: number; // Minutes before iqama (one of PRAYER_REMINDER_OFFSETS)
+  jumuah: boolean; // Friday reminder before Jumuah
+}
+
+export interface NotificationTarget {
+  category: NotificationCategory;
+  eventCategoryId?: string | null; // Only for "events"
+}
+
+const DEFAULT_MAX_AGE_DAYS = 90;
+
+export function isNotificationCategory(value: unknown): value is NotificationCategory {
+  return typeof value === "string" &&
+    (NOTIFICATION_CATEGORIES as readonly string[]).includes(value);
+}
+
+/**
+ * Category preferences for a device, with unset categories defaulting to on
+ * (devices registered before categories existed keep receiving everything)
+ */
+export function getCategoryPreferences(
+  tokenData: FirebaseFirestore.DocumentData | undefined
+): Record<NotificationCategory, boolean> {
+  const stored = tokenData?.categories || {};
+  return Object.fromEntries(
+    NOTIFICATION_CATEGORIES.map((category) => [category, stored[category] !== false])
+  ) as Record<NotificationCategory, boolean>;
+}
+
+export function isReminderPrayer(value: unknown): value is ReminderPrayer {
+  return typeof value === "string" &&
+    (REMINDER_PRAYERS as readonly string[]).includes(value);
+}
+
+/**
+ * Prayer reminder preferences for a device. Reminders are opt-in, so a device
+ * that never set them gets none.
+ */
+export function getPrayerReminderPreferences(
+  tokenData: FirebaseFirestore.DocumentData | undefined
+): PrayerReminderPreferences {
+  const stored = tokenData?.prayerReminders || {};
+  const offsetMinutes = (PRAYER_REMINDER_OFFSETS as readonly number[]).includes(stored.offsetMinutes)
+    ? stored.offsetMinutes
+    : DEFAULT_PRAYER_REMINDER_OFFSET;
+
+  return {
+    prayers: Array.isArray(stored.prayers) ? stored.prayers.filter(isReminderPrayer) : [],
+    offsetMinutes,
+    jumuah: stored.jumuah === true,
+  };
+}
+
+/**
+ * Whether a device wants a notification, given its master switch has already been checked
+ */
+export function deviceWantsNotification(
+  tokenData: FirebaseFirestore.DocumentData,
+  target: NotificationTarget
+): boolean {
+  if (!getCategoryPreferences(tokenData)[target.category]) {
+    return false;
+  }
+
+  // Events without a category go to everyone who wants events
+  if (target.category === "events" && target.eventCategoryId) {
+    const eventCategoryIds = tokenData.eventCategoryIds;
+    if (Array.isArray(eventCategoryIds) && !eventCategoryIds.includes(target.eventCategoryId)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * The eventCategories doc ID an event belongs to (events.category_id)
+ */
+export function getEventCategoryId(eventData: FirebaseFirestore.DocumentData): string | null {
+  const categoryId = eventData.category_id;
+  return typeof categoryId === "string" && categoryId.length > 0 ? categoryId : null;
+}
+
+/**
+ * Active tokens (notifications enabled, seen recently) that opted into the target
+ *
+ * @returns Object containing tokens and their corresponding device IDs
+ */
+export async function getTargetedTokens(
+  target: NotificationTarget,
+  maxAgeDays: number = DEFAULT_MAX_AGE_DAYS
+): Promise<{
+  tokens: string[];
+  deviceIds: string[];
+}> {
+  return getActiveTokens(maxAgeDays, (tokenData) => deviceWantsNotification(tokenData, target));
+}
+
+/**
+ * Active tokens that want the given prayer reminder: prayer category on, the
+ * prayer (or Jumuah) chosen and a matching offset
+ */
+export async function getPrayerReminderTokens(
+  prayer: ReminderPrayer | "jumuah",
+  offsetMinutes: number,
+  maxAgeDays: number = DEFAULT_MAX_AGE_DAYS
+): Promise<{
+  tokens: string[];
+  deviceIds: string[];
+}> {
+  return getActiveTokens(maxAgeDays, (tokenData) => {
+    if (!deviceWantsNotification(tokenData, { category: "prayer" })) {
+      return false;
+    }
+
+    const preferences = getPrayerReminderPreferences(tokenData);
+    const wantsPrayer = prayer === "jumuah" ? preferences.jumuah : preferences.prayers.includes(prayer);
+    return wantsPrayer && preferences.offsetMinutes === offsetMinutes;
+  });
+}
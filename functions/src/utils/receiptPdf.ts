@@ -0,0 +1,158 @@
+// ============================================================================
+// UTILITY: Donation Receipt PDF Generation
+// Location: functions/src/utils/receiptPdf.ts
+// ============================================================================
+// Renders a printable A4 receipt with pdf-lib. Uses the standard PDF fonts so
+// no font files need to be bundled with the functions.
+
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from "pdf-lib";
+import { formatAmount } from "../emails/index.js";
+
+export interface ReceiptPdfData {
+  mosqueName: string;
+  receiptNumber: string;
+  date: string;
+  donorName: string;
+  donorEmail?: string;
+  amount: number; // cents
+  currency: string;
+  donationType: string;
+  campaignName?: string;
+  paymentMethod?: string;
+  recurringFrequency?: string;
+  abn?: string;
+  dgrEndorsed?: boolean;
+  refundedAmount?: number; // cents
+  coveredFee?: number; // cents - processing fee paid by the donor, included in amount
+  dedication?: { label: string; honoreeName: string }; // e.g. "In Memory Of"
+  supportEmail?: string;
+}
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+
+const COLORS = {
+  primary: rgb(0.118, 0.227, 0.541), // #1e3a8a
+  text: rgb(0.122, 0.161, 0.216), // #1f2937
+  muted: rgb(0.42, 0.447, 0.502), // #6b7280
+  border: rgb(0.898, 0.906, 0.922), // #e5e7eb
+};
+
+/**
+ * Standard PDF fonts only support WinAnsi (Latin-1 plus the euro sign) - replace anything else
+ */
+function sanitize(text: string): string {
+  return text.replace(/[^\x20-\x7E\xA0-\xFF\u20AC]/g, "?");
+}
+
+/**
+ * Generate a donation receipt PDF
+ * @returns PDF file contents
+ */
+export async function generateReceiptPdf(data: ReceiptPdfData): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Donation Receipt ${data.receiptNumber}`);
+  pdf.setAuthor(data.mosqueName);
+
+  const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const drawText = (
+    text: string,
+    options: { x?: number; size?: number; font?: PDFFont; color?: ReturnType<typeof rgb> } = {}
+  ) => {
+    page.drawText(sanitize(text), {
+      x: options.x ?? MARGIN,
+      y,
+      size: options.size ?? 11,
+      font: options.font ?? font,
+      color: options.color ?? COLORS.text,
+    });
+  };
+
+  // Header
+  drawText(data.mosqueName, { size: 20, font: bold, color: COLORS.primary });
+  y -= 18;
+  if (data.abn) {
+    drawText(`ABN ${data.abn}`, { color: COLORS.muted });
+    y -= 14;
+  }
+  if (data.supportEmail) {
+    drawText(data.supportEmail, { color: COLORS.muted });
+    y -= 14;
+  }
+
+  y -= 20;
+  drawText(data.dgrEndorsed ? "Tax Deductible Donation Receipt" : "Donation Receipt", {
+    size: 16,
+    font: bold,
+  });
+  y -= 12;
+  drawDivider(page, y);
+  y -= 24;
+
+  // Details table
+  const rows: Array<[string, string]> = [
+    ["Receipt Number", data.receiptNumber],
+    ["Date", data.date],
+    ["Received From", data.donorName],
+  ];
+  if (data.donorEmail) rows.push(["Email", data.donorEmail]);
+  rows.push(["Donation Type", data.donationType]);
+  if (data.campaignName) rows.push(["Campaign", data.campaignName]);
+  if (data.dedication) rows.push([data.dedication.label, data.dedication.honoreeName]);
+  if (data.recurringFrequency) rows.push(["Frequency", data.recurringFrequency]);
+  if (data.paymentMethod) rows.push(["Payment Method", data.paymentMethod]);
+  if (data.coveredFee && data.coveredFee > 0) {
+    rows.push(["Gift Amount", formatAmount(data.amount - data.coveredFee, data.currency)]);
+    rows.push(["Processing Fee Covered", formatAmount(data.coveredFee, data.currency)]);
+    rows.push(["Total Paid", formatAmount(data.amount, data.currency)]);
+  } else {
+    rows.push(["Amount", formatAmount(data.amount, data.currency)]);
+  }
+  if (data.refundedAmount && data.refundedAmount > 0) {
+    rows.push(["Refunded", `-${formatAmount(data.refundedAmount, data.currency)}`]);
+    rows.push([
+      "Net Amount",
+      formatAmount(Math.max(data.amount - data.refundedAmount, 0), data.currency),
+    ]);
+  }
+
+  for (const [label, value] of rows) {
+    drawText(label, { color: COLORS.muted });
+    drawText(value, { x: 220, font: bold });
+    y -= 8;
+    drawDivider(page, y);
+    y -= 18;
+  }
+
+  // Footer notes
+  y -= 10;
+  if (data.dgrEndorsed) {
+    drawText(
+      `${data.mosqueName} is endorsed as a Deductible Gift Recipient (DGR).`,
+      { size: 10 }
+    );
+    y -= 14;
+    drawText("Donations of $2 or more are tax deductible. No goods or services were provided.", {
+      size: 10,
+    });
+    y -= 14;
+  }
+  drawText("Please keep this receipt for your tax records.", { size: 10, color: COLORS.muted });
+
+  return Buffer.from(await pdf.save());
+}
+
+function drawDivider(page: PDFPage, y: number) {
+  page.drawLine({
+    start: { x: MARGIN, y },
+    end: { x: PAGE_WIDTH - MARGIN, y },
+    thickness: 1,
+    color: COLORS.border,
+  });
+}
@@ -25,6 +25,12 @@ export enum Permission {
   VIEW_DONATION_ANALYTICS = 'VIEW_DONATION_ANALYTICS',
   EDIT_DONATION_SETTINGS = 'EDIT_DONATION_SETTINGS',
   EXPORT_DONATIONS = 'EXPORT_DONATIONS',
+  REFUND_DONATIONS = 'REFUND_DONATIONS',
+  MANAGE_ZAKAT = 'MANAGE_ZAKAT',
+  MANAGE_WEBHOOK_EVENTS = 'MANAGE_WEBHOOK_EVENTS',
+  RECONCILE_DONATIONS = 'RECONCILE_DONATIONS',
+  MANAGE_DISPUTES = 'MANAGE_DISPUTES',
+  MANAGE_ALERTS = 'MANAGE_ALERTS',
 
   // Campaigns
   VIEW_CAMPAIGNS = 'VIEW_CAMPAIGNS',
@@ -90,6 +96,12 @@ export const ROLE_PERMISSIONS: Record<RoleId, Permission[]> = {
     Permission.VIEW_DONATION_ANALYTICS,
     Permission.EDIT_DONATION_SETTINGS,
     Permission.EXPORT_DONATIONS,
+    Permission.REFUND_DONATIONS,
+    Permission.MANAGE_ZAKAT,
+    Permission.MANAGE_WEBHOOK_EVENTS,
+    Permission.RECONCILE_DONATIONS,
+    Permission.MANAGE_DISPUTES,
+    Permission.MANAGE_ALERTS,
     // Campaigns
     Permission.VIEW_CAMPAIGNS,
     Permission.CREATE_CAMPAIGNS,
@@ -133,6 +145,9 @@ export const ROLE_PERMISSIONS: Record<RoleId, Permission[]> = {
     Permission.VIEW_DONATION_ANALYTICS,
     Permission.EDIT_DONATION_SETTINGS,
     Permission.EXPORT_DONATIONS,
+    Permission.REFUND_DONATIONS,
+    Permission.MANAGE_ZAKAT,
+    Permission.MANAGE_DISPUTES,
     Permission.VIEW_CAMPAIGNS,
     Permission.CREATE_CAMPAIGNS,
     Permission.EDIT_CAMPAIGNS,
@@ -0,0 +1,139 @@
+// ============================================================================
+// UTILITY: Mosque Timezone Helpers
+// Location: functions/src/utils/timezone.ts
+// ============================================================================
+
+import * as admin from "firebase-admin";
+import { logger } from "firebase-functions";
+
+// Cache for mosque timezone setting
+let cachedMosqueTimezone: string | null = null;
+
+/**
+ * Get mosque timezone from Firestore settings (with caching)
+ * Falls back to Australia/Sydney if not configured
+ */
+export async function getMosqueTimezone(): Promise<string> {
+  if (cachedMosqueTimezone) {
+    return cachedMosqueTimezone;
+  }
+
+  try {
+    const settingsDoc = await admin
+      .firestore()
+      .collection("mosqueSettings")
+      .doc("info")
+      .get();
+    const timezone = settingsDoc.data()?.timezone;
+
+    if (timezone && typeof timezone === "string") {
+      cachedMosqueTimezone = timezone;
+      return timezone;
+    }
+  } catch (error) {
+    logger.warn("Could not fetch mosque timezone, using default", error);
+  }
+
+  // Default fallback
+  cachedMosqueTimezone = "Australia/Sydney";
+  return cachedMosqueTimezone;
+}
+
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Break a Date into calendar parts as seen on a wall clock in the given timezone
+ */
+export function getZonedDateParts(date: Date, timeZone: string): ZonedDateParts {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+    weekday: "short",
+    hour12: false,
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || "0";
+
+  let hour = parseInt(get("hour"));
+  // Handle edge case where formatToParts returns 24 for midnight
+  if (hour === 24) hour = 0;
+
+  return {
+    year: parseInt(get("year")),
+    month: parseInt(get("month")),
+    day: parseInt(get("day")),
+    hour,
+    minute: parseInt(get("minute")),
+    second: parseInt(get("second")),
+    weekday: WEEKDAYS.indexOf(get("weekday")),
+  };
+}
+
+/**
+ * Offset (ms) between wall-clock time in the timezone and UTC at the given instant
+ */
+function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const p = getZonedDateParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock time in the given timezone to the matching UTC instant.
+ * Out-of-range values roll over (e.g. day 32 becomes the 1st of next month).
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = getTimeZoneOffsetMs(new Date(guess), timeZone);
+  let result = guess - offset;
+
+  // Re-check once in case the guess and the result straddle a DST change
+  const correctedOffset = getTimeZoneOffsetMs(new Date(result), timeZone);
+  if (correctedOffset !== offset) {
+    result = guess - correctedOffset;
+  }
+
+  return new Date(result);
+}
+
+/**
+ * Format a Date as YYYY-MM-DD in the given timezone
+ */
+export function toZonedDateString(date: Date, timeZone: string): string {
+  const p = getZonedDateParts(date, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`;
+}
+
+/**
+ * Format a Date for display in emails (e.g. "1 July 2024") in the given timezone
+ */
+export function formatDisplayDate(date: Date, timeZone: string): string {
+  return date.toLocaleDateString("en-AU", {
+    timeZone,
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+}
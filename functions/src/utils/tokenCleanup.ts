@@ -6,6 +6,9 @@
 import { logger } from "firebase-functions";
 import * as admin from "firebase-admin";
 
+// Firestore batches are capped at 500 writes
+const BATCH_WRITE_LIMIT = 400;
+
 /**
  * Process FCM send responses and clean up invalid tokens
  * 
@@ -19,8 +22,7 @@ export async function cleanupInvalidTokens(
   responses: any[],
   deviceIds?: string[]
 ): Promise<void> {
-  const batch = admin.firestore().batch();
-  let cleanupCount = 0;
+  const refsToDelete: FirebaseFirestore.DocumentReference[] = [];
 
   for (let i = 0; i < responses.length; i++) {
     const response = responses[i];
@@ -46,8 +48,7 @@ export async function cleanupInvalidTokens(
             .collection("fcmTokens")
             .doc(deviceIds[i]);
           
-          batch.delete(docRef);
-          cleanupCount++;
+          refsToDelete.push(docRef);
         } else {
           // Otherwise, query by token (less efficient but works)
           const snapshot = await admin.firestore()
@@ -58,8 +59,7 @@ export async function cleanupInvalidTokens(
 
           if (!snapshot.empty) {
             snapshot.forEach((doc) => {
-              batch.delete(doc.ref);
-              cleanupCount++;
+              refsToDelete.push(doc.ref);
             });
           }
         }
@@ -67,9 +67,15 @@ export async function cleanupInvalidTokens(
     }
   }
 
-  if (cleanupCount > 0) {
+  // A large broadcast can have more dead tokens than one batch allows
+  for (let start = 0; start < refsToDelete.length; start += BATCH_WRITE_LIMIT) {
+    const batch = admin.firestore().batch();
+    refsToDelete.slice(start, start + BATCH_WRITE_LIMIT).forEach((ref) => batch.delete(ref));
     await batch.commit();
-    logger.info(`🧹 Cleaned up ${cleanupCount} invalid tokens`);
+  }
+
+  if (refsToDelete.length > 0) {
+    logger.info(`🧹 Cleaned up ${refsToDelete.length} invalid tokens`);
   }
 }
 
@@ -77,9 +83,13 @@ export async function cleanupInvalidTokens(
  * Get active FCM tokens (with notifications enabled and valid tokens)
  * 
  * @param maxAgeDays - Optional: Only return tokens seen within this many days
+ * @param filter - Optional: Keep only devices whose token document passes (see notificationTargeting.ts)
  * @returns Object containing tokens and their corresponding device IDs
  */
-export async function getActiveTokens(maxAgeDays?: number): Promise<{
+export async function getActiveTokens(
+  maxAgeDays?: number,
+  filter?: (tokenData: FirebaseFirestore.DocumentData) => boolean
+): Promise<{
   tokens: string[];
   deviceIds: string[];
 }> {
@@ -102,7 +112,7 @@ export async function getActiveTokens(maxAgeDays?: number): Promise<{
 
   snapshot.forEach((doc) => {
     const tokenData = doc.data();
-    if (tokenData.fcmToken) {
+    if (tokenData.fcmToken && (!filter || filter(tokenData))) {
       tokens.push(tokenData.fcmToken);
       deviceIds.push(doc.id);
     }
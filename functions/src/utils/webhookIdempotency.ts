@@ -17,9 +17,13 @@ export interface WebhookEventRecord {
   processing_started_at: admin.firestore.Timestamp | null;
   processed_at: admin.firestore.Timestamp | null;
   error_message: string | null;
+  last_error?: string | null; // Previous attempt's error, kept when a retry starts
   attempt_count: number;
   created_at: admin.firestore.Timestamp;
   updated_at: admin.firestore.Timestamp;
+  last_replayed_at?: admin.firestore.Timestamp; // Set by replayWebhookEvents
+  last_replayed_by?: string;
+  alert_sent_at?: admin.firestore.Timestamp; // Set by sweepFailedWebhookEvents
 }
 
 /**
@@ -84,12 +88,15 @@ export async function markEventStarted(
     const eventDoc = await eventRef.get();
 
     if (eventDoc.exists) {
-      // Retry - increment attempt count
-      const currentAttempts = (eventDoc.data() as WebhookEventRecord)
-        .attempt_count;
+      // Retry - increment attempt count and clear the previous failure so the
+      // event reads as processing (not failed) while this attempt runs
+      const previous = eventDoc.data() as WebhookEventRecord;
+      const currentAttempts = previous.attempt_count;
       await eventRef.update({
         processing_started_at: admin.firestore.FieldValue.serverTimestamp(),
         attempt_count: currentAttempts + 1,
+        error_message: null,
+        last_error: previous.error_message || previous.last_error || null,
         updated_at: admin.firestore.FieldValue.serverTimestamp(),
       });
 
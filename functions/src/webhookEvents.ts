@@ -0,0 +1,296 @@
+// ============================================================================
+// CLOUD FUNCTIONS: STRIPE WEBHOOK EVENT REPLAY & DEAD-LETTER ALERTS
+// Location: mosque_app_functions/src/webhookEvents.ts
+// ============================================================================
+// Works with the stripe_webhook_events records written by
+// utils/webhookIdempotency.ts:
+//   failed - processing threw (error_message set), Stripe may still retry
+//   stuck  - processing started but never completed or failed (e.g. timeout)
+// A retry clears error_message (keeping it as last_error) when it starts, so
+// an in-flight retry reads as processing rather than failed.
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import Stripe from "stripe";
+import { Permission } from "./utils/roles";
+import { requirePermission } from "./utils/authorization";
+import { timestampToString } from "./utils/messagingHelpers";
+import { webhookFailureAlertEmail } from "./utils/emailTemplates";
+import { sendAdminAlert } from "./alerts";
+import { processStripeEvent } from "./webhooks";
+import type { WebhookFailureAlertEvent } from "./emails/index.js";
+
+const db = admin.firestore();
+
+// Events still "processing" after this long are treated as stuck
+const STUCK_AFTER_MS = 15 * 60 * 1000;
+
+// Alert admins when events stay failed/stuck this long
+const ALERT_THRESHOLD_HOURS = 2;
+
+const MAX_REPLAY_EVENTS = 20;
+
+type WebhookEventStatus = "failed" | "stuck" | "processing";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Classify an unprocessed webhook event record
+ */
+function getEventStatus(
+  data: FirebaseFirestore.DocumentData,
+  now: number
+): WebhookEventStatus {
+  if (data.error_message) {
+    return "failed";
+  }
+
+  const startedAt = data.processing_started_at?.toMillis?.() || 0;
+  return now - startedAt >= STUCK_AFTER_MS ? "stuck" : "processing";
+}
+
+async function getUnprocessedEvents() {
+  return db
+    .collection("stripe_webhook_events")
+    .where("processed", "==", false)
+    .get();
+}
+
+// ============================================================================
+// FUNCTION 1: List Failed / Stuck Webhook Events (Admin Dashboard)
+// ============================================================================
+
+export const listWebhookEvents = onCall(
+  {
+    region: "australia-southeast1",
+    cors: true,
+  },
+  async (request) => {
+    requirePermission(
+      request,
+      Permission.MANAGE_WEBHOOK_EVENTS,
+      "You do not have permission to view webhook events"
+    );
+
+    const { status } = (request.data || {}) as { status?: "failed" | "stuck" };
+
+    if (status !== undefined && status !== "failed" && status !== "stuck") {
+      throw new HttpsError("invalid-argument", "Status must be failed or stuck");
+    }
+
+    try {
+      const snapshot = await getUnprocessedEvents();
+      const now = Date.now();
+
+      const events = snapshot.docs
+        .map((doc) => {
+          const data = doc.data();
+          return {
+            id: doc.id,
+            eventType: data.event_type,
+            status: getEventStatus(data, now),
+            attemptCount: data.attempt_count || 0,
+            errorMessage: data.error_message || data.last_error || null,
+            processingStartedAt: data.processing_started_at?.toDate()?.toISOString() ?? null,
+            createdAt: data.created_at?.toDate()?.toISOString() ?? null,
+            lastReplayedAt: data.last_replayed_at?.toDate()?.toISOString() ?? null,
+            alertSentAt: data.alert_sent_at?.toDate()?.toISOString() ?? null,
+          };
+        })
+        // Events currently being processed aren't actionable
+        .filter((event) => event.status !== "processing")
+        .filter((event) => !status || event.status === status)
+        .sort((a, b) => (b.createdAt || "").localeCompare(a.createdAt || ""));
+
+      return { events };
+    } catch (error: any) {
+      logger.error("❌ Error listing webhook events:", error);
+      throw new HttpsError("internal", "Failed to list webhook events");
+    }
+  }
+);
+
+// ============================================================================
+// FUNCTION 2: Replay Webhook Events (Admin Dashboard)
+// ============================================================================
+// Re-fetches each event from Stripe (never trusts client-supplied payloads) and
+// runs it through the same dispatch as handleStripeWebhook. Completed events
+// are skipped by the idempotency check, so replays are safe to repeat.
+
+export const replayWebhookEvents = onCall(
+  {
+    region: "australia-southeast1",
+    cors: true,
+    timeoutSeconds: 300,
+    secrets: ["STRIPE_SECRET_KEY", "RESEND_API_KEY"],
+  },
+  async (request) => {
+    const auth = requirePermission(
+      request,
+      Permission.MANAGE_WEBHOOK_EVENTS,
+      "You do not have permission to replay webhook events"
+    );
+
+    const { eventIds } = (request.data || {}) as { eventIds?: string[] };
+
+    if (!Array.isArray(eventIds) || eventIds.length === 0 ||
+      !eventIds.every((id) => typeof id === "string" && id.startsWith("evt_"))) {
+      throw new HttpsError("invalid-argument", "eventIds must be a list of Stripe event IDs");
+    }
+
+    if (eventIds.length > MAX_REPLAY_EVENTS) {
+      throw new HttpsError(
+        "invalid-argument",
+        `At most ${MAX_REPLAY_EVENTS} events can be replayed at once`
+      );
+    }
+
+    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "", {
+      apiVersion: "2023-10-16",
+    });
+
+    const results: Array<{ eventId: string; result: string; error?: string }> = [];
+
+    // Sequential - events for the same donation must not race each other
+    for (const eventId of Array.from(new Set(eventIds))) {
+      const record = await db.collection("stripe_webhook_events").doc(eventId).get();
+      const recordData = record.data();
+
+      // Don't replay an event a webhook delivery is processing right now
+      if (recordData && !recordData.processed &&
+        getEventStatus(recordData, Date.now()) === "processing") {
+        results.push({ eventId, result: "in_progress" });
+        continue;
+      }
+
+      let event: Stripe.Event;
+      try {
+        event = await stripe.events.retrieve(eventId);
+      } catch (error: any) {
+        // Stripe only keeps events for 30 days
+        logger.warn("Stripe event not found for replay", { eventId, error: error.message });
+        results.push({ eventId, result: "not_found", error: error.message });
+        continue;
+      }
+
+      if (record.exists) {
+        await record.ref.update({
+          last_replayed_at: admin.firestore.FieldValue.serverTimestamp(),
+          last_replayed_by: auth.uid,
+        });
+      }
+
+      try {
+        const result = await processStripeEvent(event, stripe);
+        results.push({ eventId, result });
+      } catch (error: any) {
+        results.push({ eventId, result: "failed", error: error.message });
+      }
+    }
+
+    await db.collection("adminLogs").add({
+      action: "webhook_events_replayed",
+      results,
+      performedBy: auth.uid,
+      performedByEmail: auth.token.email || "unknown",
+      timestamp: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    logger.info("🔁 Webhook events replayed", {
+      performedBy: auth.uid,
+      results,
+    });
+
+    return {
+      success: results.every((r) => r.result !== "failed" && r.result !== "not_found"),
+      results,
+    };
+  }
+);
+
+// ============================================================================
+// SCHEDULED FUNCTION: Alert on Failed / Stuck Webhook Events
+// ============================================================================
+
+export const sweepFailedWebhookEvents = onSchedule({
+  schedule: "0 * * * *", // Every hour
+  timeZone: "Australia/Sydney",
+  region: "australia-southeast1",
+  secrets: ["RESEND_API_KEY"],
+}, async () => {
+  try {
+    logger.info("🔍 Sweeping failed webhook events...");
+
+    const snapshot = await getUnprocessedEvents();
+    const now = Date.now();
+    const thresholdMs = ALERT_THRESHOLD_HOURS * 60 * 60 * 1000;
+
+    // Each event is alerted on once
+    const overdue = snapshot.docs.filter((doc) => {
+      const data = doc.data();
+      const createdAt = data.created_at?.toMillis?.() || now;
+      return !data.alert_sent_at &&
+        now - createdAt >= thresholdMs &&
+        getEventStatus(data, now) !== "processing";
+    });
+
+    if (overdue.length === 0) {
+      logger.info("No webhook events need alerting");
+      return;
+    }
+
+    const events: WebhookFailureAlertEvent[] = await Promise.all(
+      overdue.map(async (doc) => {
+        const data = doc.data();
+        return {
+          eventId: doc.id,
+          eventType: data.event_type,
+          status: getEventStatus(data, now) as "failed" | "stuck",
+          attemptCount: data.attempt_count || 0,
+          errorMessage: data.error_message || data.last_error || undefined,
+          firstSeen: await timestampToString(data.created_at),
+        };
+      })
+    );
+
+    // Send urgent admin alert (email uses the dedicated webhook failure template)
+    const emailData = await webhookFailureAlertEmail({
+      events,
+      thresholdHours: ALERT_THRESHOLD_HOURS,
+    });
+
+    const sent = await sendAdminAlert({
+      type: "webhook_failure",
+      title: `${events.length} Stripe webhook event${events.length === 1 ? "" : "s"} failed`,
+      message: `Webhook events have not been processed for more than ${ALERT_THRESHOLD_HOURS} hours. Replay them from the admin dashboard once fixed.`,
+      details: events.map((e) => ({ label: e.eventType, value: `${e.eventId} (${e.status})` })),
+      email: emailData,
+      data: { eventIds: events.map((e) => e.eventId).join(",") },
+    });
+
+    if (!sent) {
+      // Leave alert_sent_at unset so the next sweep tries again
+      logger.error("❌ Failed to send webhook failure alert", { count: events.length });
+      return;
+    }
+
+    const batch = db.batch();
+    overdue.forEach((doc) => {
+      batch.update(doc.ref, {
+        alert_sent_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+    await batch.commit();
+
+    logger.error("🚨 ADMIN ALERT: Webhook events failed", {
+      count: events.length,
+      eventIds: events.map((e) => e.eventId),
+    });
+  } catch (error: any) {
+    logger.error("❌ Error sweeping failed webhook events:", error);
+  }
+});
@@ -10,6 +10,30 @@ import { logger } from "firebase-functions";
 import * as admin from "firebase-admin";
 import Stripe from "stripe";
 import { generateReceiptNumber } from "./donations";
+import { buildDonationReceiptPdf } from "./receipts";
+import { getDefaultCurrency, normalizeCurrency } from "./utils/currency";
+import { splitCoveredFee } from "./utils/fees";
+import { formatDisplayDate, getMosqueTimezone } from "./utils/timezone";
+import {
+  type DonationFund,
+  recordZakatReceived,
+  recordZakatRefund,
+  recordZakatRefundReversal,
+} from "./zakat";
+import { sendAdminAlert } from "./alerts";
+import { getDunningSettings, getDunningStage } from "./dunning";
+import { activateRamadanSchedule, linkRamadanDonation } from "./ramadanGiving";
+import { releasePendingRefund } from "./refunds";
+import {
+  applyDisputeSubscriptionPolicy,
+  recordDispute,
+  resumeDisputePausedSubscription,
+} from "./disputes";
+import {
+  getNewCampaignMilestones,
+  sendCampaignMilestoneNotification,
+} from "./notifications/campaignMilestones";
+import { formatAmount, type DedicationType } from "./emails/index.js";
 import {
   checkEventProcessed,
   markEventStarted,
@@ -22,9 +46,13 @@ import {
   monthlyRecurringReceipt,
   paymentFailedEmail,
   subscriptionCancelledEmail,
+  recurringLapsedEmail,
+  subscriptionPausedEmail,
   refundConfirmationEmail,
   disputeAlertEmail,
+  dedicationNotificationEmail,
   sendEmail,
+  type EmailAttachment,
 } from "./utils/emailTemplates";
 
 const db = admin.firestore();
@@ -79,27 +107,6 @@ function isAnonymousDonation(
   return false;
 }
 
-// Get mosque timezone from settings (with cache)
-let cachedMosqueTimezone: string | null = null;
-const getMosqueTimezone = async (): Promise<string> => {
-  if (cachedMosqueTimezone) return cachedMosqueTimezone;
-  
-  try {
-    const settingsDoc = await db.collection('mosqueSettings').doc('info').get();
-    const timezone = settingsDoc.data()?.timezone;
-    if (timezone && typeof timezone === 'string') {
-      cachedMosqueTimezone = timezone;
-      return timezone;
-    }
-  } catch (error) {
-    logger.warn('Could not fetch mosque timezone, using default', error);
-  }
-  
-  // Default fallback
-  cachedMosqueTimezone = 'Australia/Sydney';
-  return cachedMosqueTimezone;
-};
-
 // Get current date string in mosque timezone (YYYY-MM-DD format)
 const getMosqueDateString = async (): Promise<string> => {
   const timezone = await getMosqueTimezone();
@@ -159,6 +166,127 @@ const calculateNextPaymentDate = async (frequency: string): Promise<string> => {
   return `${y}-${m}-${d}`;
 };
 
+// Donor-covered fee fields - `amount` stays the gross charge, `gift_amount` is the intended gift
+const getCoveredFeeFields = (
+  metadata: Record<string, string | null | undefined>,
+  chargedAmount: number
+) => {
+  const breakdown = splitCoveredFee(metadata, chargedAmount);
+  return {
+    cover_fees: breakdown.feeAmount > 0,
+    gift_amount: breakdown.giftAmount,
+    covered_fee_amount: breakdown.feeAmount,
+  };
+};
+
+// Zakat is tracked separately from general donations (set by createPaymentIntent/createSubscription)
+const getDonationFund = (metadata: Record<string, string | null | undefined>): DonationFund =>
+  metadata.fund === "zakat" ? "zakat" : "general";
+
+// ============================================================================
+// HELPER: Dedication ("In Memory Of" / "On Behalf Of")
+// ============================================================================
+
+const getDedicationType = (
+  metadata: Record<string, string | null | undefined>
+): DedicationType | null => {
+  const type = metadata.dedication_type;
+  return (type === "in_memory_of" || type === "on_behalf_of") && metadata.dedication_honoree_name
+    ? type
+    : null;
+};
+
+// Dedication fields stored on the donation record (set by createPaymentIntent metadata)
+const getDedicationFields = (metadata: Record<string, string | null | undefined>) => {
+  const type = getDedicationType(metadata);
+  if (!type) {
+    return { dedication: null };
+  }
+
+  return {
+    dedication: {
+      type,
+      honoree_name: metadata.dedication_honoree_name,
+      recipient_email: metadata.dedication_recipient_email || null,
+      message: metadata.dedication_message || null,
+    },
+    dedication_email_sent: false,
+  };
+};
+
+const getReceiptDedication = (metadata: Record<string, string | null | undefined>) => {
+  const type = getDedicationType(metadata);
+  return type ? { type, honoreeName: metadata.dedication_honoree_name as string } : undefined;
+};
+
+/**
+ * Notifies the dedication recipient (if any). Failures are logged, never thrown,
+ * so they can't cause the payment webhook to be retried.
+ */
+async function sendDedicationNotification(
+  donationRef: FirebaseFirestore.DocumentReference,
+  metadata: Record<string, string | null | undefined>,
+  donorName: string | undefined
+) {
+  const type = getDedicationType(metadata);
+  const recipientEmail = metadata.dedication_recipient_email;
+
+  if (!type || !recipientEmail) {
+    return;
+  }
+
+  try {
+    const emailData = await dedicationNotificationEmail({
+      dedicationType: type,
+      honoreeName: metadata.dedication_honoree_name as string,
+      donorName,
+      donationType: metadata.donation_type_label || "General Donation",
+      date: await getMosqueDateString(),
+      message: metadata.dedication_message || undefined,
+    });
+
+    const emailSent = await sendEmail({
+      to: recipientEmail,
+      subject: emailData.subject,
+      html: emailData.html,
+    });
+
+    await donationRef.update({
+      dedication_email_sent: emailSent,
+      dedication_email_sent_at: emailSent
+        ? admin.firestore.FieldValue.serverTimestamp()
+        : null,
+    });
+
+    logger.info("✅ Dedication notification sent", {
+      donationId: donationRef.id,
+      email: recipientEmail,
+      emailSent,
+    });
+  } catch (error: any) {
+    logger.error("Failed to send dedication notification", {
+      donationId: donationRef.id,
+      error: error.message,
+    });
+  }
+}
+
+// Build the PDF receipt attachment - a PDF failure should never block the receipt email
+const getReceiptAttachments = async (
+  donationId: string
+): Promise<EmailAttachment[] | undefined> => {
+  try {
+    const pdf = await buildDonationReceiptPdf(donationId);
+    return pdf ? [pdf] : undefined;
+  } catch (error: any) {
+    logger.warn("Could not generate receipt PDF, sending email without it", {
+      donationId,
+      error: error.message,
+    });
+    return undefined;
+  }
+};
+
 // ============================================================================
 // WEBHOOK HANDLER
 // ============================================================================
@@ -204,143 +332,220 @@ export const handleStripeWebhook = onRequest(
 
     logger.info("Webhook received", { type: event.type, id: event.id });
 
-    // Quickly ignore noisy/unhandled event types to avoid unnecessary work in emulator
-    const handledEventTypes = new Set([
-      "checkout.session.completed",
-      "payment_intent.succeeded",
-      "payment_intent.payment_failed",
-      "customer.subscription.created",
-      "customer.subscription.updated",
-      "invoice.payment_succeeded",
-      "invoice.payment_failed",
-      "customer.subscription.deleted",
-      "charge.refunded",
-      "charge.dispute.created",
-    ]);
-
-    if (!handledEventTypes.has(event.type)) {
-      logger.info("Ignoring unhandled event type (no-op)", { type: event.type });
-      res.json({ received: true, ignored: true });
-      return;
+    try {
+      const result = await processStripeEvent(event, stripe);
+
+      if (result === "ignored") {
+        res.json({ received: true, ignored: true });
+      } else if (result === "already_processed") {
+        res.json({ received: true, skipped: "already_processed" });
+      } else {
+        res.json({ received: true });
+      }
+    } catch (error: any) {
+      // Return 500 to tell Stripe to retry
+      // Stripe will retry failed webhooks automatically
+      res.status(500).send("Webhook processing failed");
     }
+  }
+);
 
-    // ============================================================================
-    // IDEMPOTENCY CHECK - Prevent duplicate processing
-    // ============================================================================
-    const { isProcessed } = await checkEventProcessed(event.id);
+// ============================================================================
+// EVENT DISPATCH (shared by handleStripeWebhook and replayWebhookEvents)
+// ============================================================================
 
-    if (isProcessed) {
-      logger.info("✅ Event already processed - skipping", {
-        eventId: event.id,
-        eventType: event.type,
-      });
-      res.json({ received: true, skipped: "already_processed" });
-      return;
-    }
+// Quickly ignore noisy/unhandled event types to avoid unnecessary work in emulator
+const handledEventTypes = new Set([
+  "checkout.session.completed",
+  "payment_intent.succeeded",
+  "payment_intent.payment_failed",
+  "customer.subscription.created",
+  "customer.subscription.updated",
+  "invoice.payment_succeeded",
+  "invoice.payment_failed",
+  "customer.subscription.deleted",
+  "charge.refunded",
+  "charge.refund.updated",
+  "charge.dispute.created",
+  "charge.dispute.updated",
+  "charge.dispute.closed",
+  "charge.succeeded",
+  "charge.updated",
+  "payout.paid",
+  "payout.failed",
+  "setup_intent.succeeded",
+]);
+
+export type ProcessStripeEventResult = "processed" | "already_processed" | "ignored";
 
-    // Mark event as started (creates tracking record)
-    await markEventStarted(event.id, event.type);
+/**
+ * Runs a verified Stripe event through the handlers with idempotency tracking.
+ * Failures are recorded on stripe_webhook_events and rethrown.
+ */
+export async function processStripeEvent(
+  event: Stripe.Event,
+  stripe: Stripe
+): Promise<ProcessStripeEventResult> {
+  if (!handledEventTypes.has(event.type)) {
+    logger.info("Ignoring unhandled event type (no-op)", { type: event.type });
+    return "ignored";
+  }
 
-    try {
-      switch (event.type) {
-        // Checkout session completed (PRIMARY event for one-time & subscription setup)
-        case "checkout.session.completed":
-          await handleCheckoutSessionCompleted(
-            event.data.object as Stripe.Checkout.Session,
-            stripe
-          );
-          break;
-
-        // One-time payment succeeded
-        case "payment_intent.succeeded":
-          await handlePaymentIntentSucceeded(
-            event.data.object as Stripe.PaymentIntent,
-            stripe
-          );
-          break;
-
-        // One-time payment failed
-        case "payment_intent.payment_failed":
-          await handlePaymentIntentFailed(
-            event.data.object as Stripe.PaymentIntent
-          );
-          break;
-
-        // Subscription created (recurring donation started)
-        case "customer.subscription.created":
-          await handleSubscriptionCreated(
-            event.data.object as Stripe.Subscription
-          );
-          break;
-
-        // Subscription updated (amount/frequency/payment method changed)
-        case "customer.subscription.updated":
-          await handleSubscriptionUpdated(
-            event.data.object as Stripe.Subscription,
-            stripe
-          );
-          break;
-
-        // Subscription payment succeeded (recurring payment)
-        case "invoice.payment_succeeded":
-          await handleInvoicePaymentSucceeded(
-            event.data.object as Stripe.Invoice,
-            stripe
-          );
-          break;
-
-        // Subscription payment failed
-        case "invoice.payment_failed":
-          await handleInvoicePaymentFailed(event.data.object as Stripe.Invoice);
-          break;
-
-        // Subscription cancelled
-        case "customer.subscription.deleted":
-          await handleSubscriptionDeleted(
-            event.data.object as Stripe.Subscription
-          );
-          break;
-
-        // Charge refunded
-        case "charge.refunded":
-          await handleChargeRefunded(
-            event.data.object as Stripe.Charge,
-            stripe
-          );
-          break;
-
-        // Dispute created
-        case "charge.dispute.created":
-          await handleDisputeCreated(
-            event.data.object as Stripe.Dispute,
-            stripe
-          );
-          break;
-
-        default:
-          logger.info("Unhandled webhook event type", { type: event.type });
-      }
+  // ============================================================================
+  // IDEMPOTENCY CHECK - Prevent duplicate processing
+  // ============================================================================
+  const { isProcessed } = await checkEventProcessed(event.id);
 
-      // Mark event as successfully completed
-      await markEventCompleted(event.id);
+  if (isProcessed) {
+    logger.info("✅ Event already processed - skipping", {
+      eventId: event.id,
+      eventType: event.type,
+    });
+    return "already_processed";
+  }
 
-      res.json({ received: true });
-    } catch (error: any) {
-      logger.error("Error processing webhook", {
-        eventId: event.id,
-        eventType: event.type,
-        error: error.message,
-      });
+  // Mark event as started (creates tracking record)
+  await markEventStarted(event.id, event.type);
 
-      // Mark event as failed for retry tracking
-      await markEventFailed(event.id, error.message);
+  try {
+    switch (event.type) {
+      // Checkout session completed (PRIMARY event for one-time & subscription setup)
+      case "checkout.session.completed":
+        await handleCheckoutSessionCompleted(
+          event.data.object as Stripe.Checkout.Session,
+          stripe
+        );
+        break;
 
-      // Return 500 to tell Stripe to retry
-      // Stripe will retry failed webhooks automatically
-      res.status(500).send("Webhook processing failed");
+      // One-time payment succeeded
+      case "payment_intent.succeeded":
+        await handlePaymentIntentSucceeded(
+          event.data.object as Stripe.PaymentIntent,
+          stripe
+        );
+        break;
+
+      // One-time payment failed
+      case "payment_intent.payment_failed":
+        await handlePaymentIntentFailed(
+          event.data.object as Stripe.PaymentIntent
+        );
+        break;
+
+      // Subscription created (recurring donation started)
+      case "customer.subscription.created":
+        await handleSubscriptionCreated(
+          event.data.object as Stripe.Subscription
+        );
+        break;
+
+      // Subscription updated (amount/frequency/payment method changed)
+      case "customer.subscription.updated":
+        await handleSubscriptionUpdated(
+          event.data.object as Stripe.Subscription,
+          stripe
+        );
+        break;
+
+      // Subscription payment succeeded (recurring payment)
+      case "invoice.payment_succeeded":
+        await handleInvoicePaymentSucceeded(
+          event.data.object as Stripe.Invoice,
+          stripe
+        );
+        break;
+
+      // Subscription payment failed
+      case "invoice.payment_failed":
+        await handleInvoicePaymentFailed(event.data.object as Stripe.Invoice);
+        break;
+
+      // Subscription cancelled
+      case "customer.subscription.deleted":
+        await handleSubscriptionDeleted(
+          event.data.object as Stripe.Subscription
+        );
+        break;
+
+      // Charge refunded
+      case "charge.refunded":
+        await handleChargeRefunded(
+          event.data.object as Stripe.Charge,
+          stripe
+        );
+        break;
+
+      // Refund status changed (failed/canceled after Stripe accepted it)
+      case "charge.refund.updated":
+        await handleChargeRefundUpdated(event.data.object as Stripe.Refund, stripe);
+        break;
+
+      // Dispute created
+      case "charge.dispute.created":
+        await handleDisputeCreated(
+          event.data.object as Stripe.Dispute,
+          stripe
+        );
+        break;
+
+      // Dispute status / evidence changed
+      case "charge.dispute.updated":
+        await handleDisputeUpdated(event.data.object as Stripe.Dispute);
+        break;
+
+      // Dispute won or lost
+      case "charge.dispute.closed":
+        await handleDisputeClosed(
+          event.data.object as Stripe.Dispute,
+          stripe
+        );
+        break;
+
+      // Charge settled - record the Stripe fee ahead of the payout
+      case "charge.succeeded":
+      case "charge.updated":
+        await handleChargeBalanceTransaction(
+          event.data.object as Stripe.Charge,
+          stripe
+        );
+        break;
+
+      // Payout deposited - record fees/net per donation
+      case "payout.paid":
+        await handlePayoutPaid(event.data.object as Stripe.Payout, stripe);
+        break;
+
+      // Payout failed
+      case "payout.failed":
+        await handlePayoutFailed(event.data.object as Stripe.Payout);
+        break;
+
+      // Card saved for a Ramadan last-ten-nights schedule
+      case "setup_intent.succeeded":
+        await activateRamadanSchedule(event.data.object as Stripe.SetupIntent);
+        break;
+
+      default:
+        logger.info("Unhandled webhook event type", { type: event.type });
     }
+
+    // Mark event as successfully completed
+    await markEventCompleted(event.id);
+
+    return "processed";
+  } catch (error: any) {
+    logger.error("Error processing webhook", {
+      eventId: event.id,
+      eventType: event.type,
+      error: error.message,
+    });
+
+    // Mark event as failed for retry tracking
+    await markEventFailed(event.id, error.message);
+
+    throw error;
   }
-);
+}
 
 // ============================================================================
 // HANDLER: Checkout Session Completed (PRIMARY event for donations)
@@ -430,10 +635,13 @@ async function handleCheckoutOneTime(
       donor_name: customerName,
       donor_email: customerEmail,
       donor_phone: metadata.donor_phone || null,
+      donor_uid: metadata.donor_uid || null,
 
       // Payment info
   amount: session.amount_total || 0,
   currency: (session.currency || "aud").toUpperCase(),
+      ...getCoveredFeeFields(metadata, session.amount_total || 0),
+      ...getDedicationFields(metadata),
 
       // Stripe details
       stripe_payment_intent_id: paymentIntentId,
@@ -451,6 +659,7 @@ async function handleCheckoutOneTime(
   donation_type_id: metadata.donation_type_id || null,
   donation_type_label: metadata.donation_type_label || "General Donation",
       campaign_id: metadata.campaign_id || null,
+      fund: getDonationFund(metadata),
       is_recurring: false,
 
       // Metadata
@@ -475,7 +684,15 @@ async function handleCheckoutOneTime(
 
     // Update campaign total if applicable
     if (metadata.campaign_id && session.amount_total) {
-      await updateCampaignTotal(metadata.campaign_id, session.amount_total);
+      await updateCampaignTotal(metadata.campaign_id, session.amount_total, session.currency);
+    }
+
+    if (getDonationFund(metadata) === "zakat") {
+      await recordZakatReceived(
+        donationRef.id,
+        splitCoveredFee(metadata, session.amount_total || 0).giftAmount,
+        normalizeCurrency(session.currency)
+      );
     }
 
     // Send receipt email if email provided and not anonymous
@@ -491,18 +708,21 @@ async function handleCheckoutOneTime(
         donorName: customerName,
         amount: session.amount_total || 0,
         currency: session.currency || "aud",
+        coveredFee: splitCoveredFee(metadata, session.amount_total || 0).feeAmount,
         receiptNumber,
         date: await getMosqueDateString(),
         donationType: metadata.donation_type_label || "General Donation",
         campaignName: metadata.campaign_name,
         cardLast4: paymentMethod?.card?.last4,
         cardBrand: paymentMethod?.card?.brand,
+        dedication: getReceiptDedication(metadata),
       });
 
       const emailSent = await sendEmail({
         to: customerEmail,
         subject: emailData.subject,
         html: emailData.html,
+        attachments: await getReceiptAttachments(donationRef.id),
       });
 
       // Update donation record with email status
@@ -517,6 +737,12 @@ async function handleCheckoutOneTime(
         donationId: donationRef.id,
       });
     }
+
+    await sendDedicationNotification(
+      donationRef,
+      metadata,
+      isAnonymous ? undefined : customerName
+    );
   } catch (error) {
     logger.error("Error handling checkout one-time donation", error);
     throw error;
@@ -607,10 +833,17 @@ async function handleCheckoutSubscription(
 // HANDLER: Payment Intent Succeeded (One-Time Donation)
 // ============================================================================
 
-async function handlePaymentIntentSucceeded(
+/**
+ * Records a one-time donation for a succeeded payment intent unless it's a
+ * subscription payment or already recorded. Also used by the nightly
+ * reconciliation to backfill donations the webhooks missed.
+ * @returns The new donation ID, or null if skipped
+ */
+export async function recordPaymentIntentDonation(
   paymentIntent: Stripe.PaymentIntent,
-  stripe: Stripe
-) {
+  stripe: Stripe,
+  options: { backfill?: boolean } = {}
+): Promise<string | null> {
   try {
     const metadata = paymentIntent.metadata;
 
@@ -634,7 +867,7 @@ async function handlePaymentIntentSucceeded(
         invoice: paymentIntent.invoice,
         is_recurring: metadata.is_recurring,
       });
-      return;
+      return null;
     }
 
     // 1b. Additional check: Skip if latest_charge is attached to an invoice (subscription payment)
@@ -651,7 +884,7 @@ async function handlePaymentIntentSucceeded(
             paymentIntentId: paymentIntent.id,
             invoiceId: charge.invoice,
           });
-          return;
+          return null;
         }
       } catch (e: any) {
         logger.warn("Could not verify charge for subscription check", { 
@@ -673,7 +906,7 @@ async function handlePaymentIntentSucceeded(
         paymentIntentId: paymentIntent.id,
         donationId: existingDonation.docs[0].id,
       });
-      return;
+      return null;
     }
 
     // ============================================================================
@@ -724,10 +957,13 @@ async function handlePaymentIntentSucceeded(
       donor_name: donorName,
       donor_email: donorEmail,
       donor_phone: metadata.donor_phone || null,
+      donor_uid: metadata.donor_uid || null,
 
       // Payment info
       amount: paymentIntent.amount,
       currency: paymentIntent.currency.toUpperCase(),
+      ...getCoveredFeeFields(metadata, paymentIntent.amount),
+      ...getDedicationFields(metadata),
 
       // Stripe details
       stripe_payment_intent_id: paymentIntent.id,
@@ -747,15 +983,28 @@ async function handlePaymentIntentSucceeded(
   donation_type_id: metadata.donation_type_id || null,
   donation_type_label: metadata.donation_type_label || "General Donation",
       campaign_id: metadata.campaign_id || null,
+      fund: getDonationFund(metadata),
       is_recurring: false,
 
       // Metadata
       donor_message: metadata.donor_message || null,
 
+      // Nightly charge from a Ramadan last-ten-nights schedule (ramadanGiving.ts)
+      ...(metadata.ramadan_schedule_id ? {
+        ramadan_schedule_id: metadata.ramadan_schedule_id,
+        ramadan_night: parseInt(metadata.ramadan_night, 10) || null,
+      } : {}),
+
       // Email tracking
       receipt_email_sent: false,
       receipt_sent_at: null,
 
+      // Set when created by the nightly reconciliation instead of a webhook
+      ...(options.backfill ? {
+        backfilled: true,
+        backfilled_at: admin.firestore.FieldValue.serverTimestamp(),
+      } : {}),
+
       // Timestamps
       date: admin.firestore.FieldValue.serverTimestamp(),
       created_at: admin.firestore.FieldValue.serverTimestamp(),
@@ -769,9 +1018,23 @@ async function handlePaymentIntentSucceeded(
       amount: paymentIntent.amount,
     });
 
+    await linkRamadanDonation(metadata, donationRef.id, receiptNumber);
+
     // Update campaign total if applicable
     if (metadata.campaign_id) {
-      await updateCampaignTotal(metadata.campaign_id, paymentIntent.amount);
+      await updateCampaignTotal(
+        metadata.campaign_id,
+        paymentIntent.amount,
+        paymentIntent.currency
+      );
+    }
+
+    if (getDonationFund(metadata) === "zakat") {
+      await recordZakatReceived(
+        donationRef.id,
+        splitCoveredFee(metadata, paymentIntent.amount).giftAmount,
+        normalizeCurrency(paymentIntent.currency)
+      );
     }
 
     // Send receipt email if email provided and not anonymous
@@ -787,18 +1050,21 @@ async function handlePaymentIntentSucceeded(
         donorName,
         amount: paymentIntent.amount,
         currency: paymentIntent.currency,
+        coveredFee: splitCoveredFee(metadata, paymentIntent.amount).feeAmount,
         receiptNumber,
         date: await getMosqueDateString(),
         donationType: metadata.donation_type_label || "General Donation",
         campaignName: metadata.campaign_name,
         cardLast4: paymentMethod?.card?.last4,
         cardBrand: paymentMethod?.card?.brand,
+        dedication: getReceiptDedication(metadata),
       });
 
       const emailSent = await sendEmail({
         to: donorEmail,
         subject: emailData.subject,
         html: emailData.html,
+        attachments: await getReceiptAttachments(donationRef.id),
       });
 
       // Update donation record with email status
@@ -813,12 +1079,27 @@ async function handlePaymentIntentSucceeded(
         donationId: donationRef.id,
       });
     }
+
+    await sendDedicationNotification(
+      donationRef,
+      metadata,
+      isAnonymous ? undefined : donorName
+    );
+
+    return donationRef.id;
   } catch (error) {
     logger.error("Error handling payment intent succeeded", error);
     throw error;
   }
 }
 
+async function handlePaymentIntentSucceeded(
+  paymentIntent: Stripe.PaymentIntent,
+  stripe: Stripe
+) {
+  await recordPaymentIntentDonation(paymentIntent, stripe);
+}
+
 // ============================================================================
 // HANDLER: Payment Intent Failed
 // ============================================================================
@@ -857,10 +1138,12 @@ async function handleSubscriptionCreated(subscription: Stripe.Subscription) {
         // Donor info
         donor_name: metadata.donor_name || "Anonymous",
         donor_email: metadata.donor_email || null,
+        donor_uid: metadata.donor_uid || null,
 
         // Subscription details
         amount: subscription.items.data[0].price.unit_amount || 0,
         currency: (subscription.currency || "aud").toUpperCase(),
+        ...getCoveredFeeFields(metadata, subscription.items.data[0].price.unit_amount || 0),
         frequency: metadata.frequency || "monthly",
 
         // Status
@@ -871,6 +1154,7 @@ async function handleSubscriptionCreated(subscription: Stripe.Subscription) {
         donation_type_id: metadata.donation_type_id || null,
         donation_type_label: metadata.donation_type_label || "General Donation",
         campaign_id: metadata.campaign_id || null,
+        fund: getDonationFund(metadata),
 
         // Timestamps
         created_at: admin.firestore.FieldValue.serverTimestamp(),
@@ -1014,10 +1298,12 @@ async function handleInvoicePaymentSucceeded(
   donor_name: metadata.donor_name || "Anonymous",
   donor_email: metadata.donor_email || null,
   donor_phone: metadata.donor_phone || null,
+  donor_uid: metadata.donor_uid || null,
 
       // Payment info
   amount: invoice.amount_paid,
   currency: (invoice.currency || "aud").toUpperCase(),
+      ...getCoveredFeeFields(metadata, invoice.amount_paid),
 
       // Stripe details
       stripe_payment_intent_id: paymentIntentId,
@@ -1038,6 +1324,7 @@ async function handleInvoicePaymentSucceeded(
   donation_type_id: metadata.donation_type_id || null,
   donation_type_label: metadata.donation_type_label || "General Donation",
   campaign_id: metadata.campaign_id || null,
+  fund: getDonationFund(metadata),
   is_recurring: true,
   recurring_frequency: metadata.frequency || "monthly",
 
@@ -1058,11 +1345,25 @@ async function handleInvoicePaymentSucceeded(
         next_payment_date: await calculateNextPaymentDate(
           metadata.frequency || "monthly"
         ),
+        // Payment recovered - clear dunning state
+        past_due: false,
+        attempts: 0,
+        next_retry_at: null,
+        final_retry_at: null,
+        dunning_stage: null,
       });
 
     // Update campaign total if applicable
     if (metadata.campaign_id) {
-      await updateCampaignTotal(metadata.campaign_id, invoice.amount_paid);
+      await updateCampaignTotal(metadata.campaign_id, invoice.amount_paid, invoice.currency);
+    }
+
+    if (getDonationFund(metadata) === "zakat") {
+      await recordZakatReceived(
+        donationRef.id,
+        splitCoveredFee(metadata, invoice.amount_paid).giftAmount,
+        normalizeCurrency(invoice.currency)
+      );
     }
 
     logger.info("Recurring donation payment recorded", {
@@ -1101,6 +1402,7 @@ async function handleInvoicePaymentSucceeded(
             donorName: metadata.donor_name || "Anonymous",
             amount: invoice.amount_paid,
             currency: invoice.currency || "aud",
+            coveredFee: splitCoveredFee(metadata, invoice.amount_paid).feeAmount,
             receiptNumber,
             date: await getMosqueDateString(),
             frequency: metadata.frequency || "monthly",
@@ -1114,6 +1416,7 @@ async function handleInvoicePaymentSucceeded(
             to: metadata.donor_email,
             subject: emailData.subject,
             html: emailData.html,
+            attachments: await getReceiptAttachments(donationRef.id),
           });
 
           await donationRef.update({
@@ -1175,19 +1478,64 @@ async function handleInvoicePaymentFailed(invoice: Stripe.Invoice) {
     // NOTE: Portal sessions are no longer created here as URLs expire too quickly
     // Users should update payment through the app
 
+    const settings = await getDunningSettings();
+    const nextRetryAt = invoice.next_payment_attempt
+      ? new Date(invoice.next_payment_attempt * 1000)
+      : null;
+    const stage = getDunningStage(attemptCount, nextRetryAt, settings);
+    const isFinalRetryNext = !!nextRetryAt && attemptCount + 1 >= settings.maxAttempts;
+    const failureReason = await getInvoiceFailureReason(invoice, stripe);
+
     // Get next retry date if available
-    const nextRetry = invoice.next_payment_attempt
-      ? new Date(invoice.next_payment_attempt * 1000).toLocaleDateString("en-AU")
+    const nextRetry = nextRetryAt
+      ? formatDisplayDate(nextRetryAt, await getMosqueTimezone())
       : undefined;
 
-    // Send payment failure notification email using template
+    // Update Firestore subscription status with failure details
+    const subscriptionQuery = await admin
+      .firestore()
+      .collection("recurringDonations")
+      .where("stripe_subscription_id", "==", invoice.subscription)
+      .limit(1)
+      .get();
+
+    const recurringData = subscriptionQuery.empty ? null : subscriptionQuery.docs[0].data();
+
+    if (!subscriptionQuery.empty) {
+      await subscriptionQuery.docs[0].ref.update({
+        status: "past_due",
+        past_due: true,
+        attempts: attemptCount,
+        last_failure_reason: failureReason,
+        last_failure_at: admin.firestore.FieldValue.serverTimestamp(),
+        next_retry_at: nextRetryAt ? admin.firestore.Timestamp.fromDate(nextRetryAt) : null,
+        final_retry_at: isFinalRetryNext ? admin.firestore.Timestamp.fromDate(nextRetryAt!) : null,
+        final_warning_sent_at: stage === "final_warning"
+          ? admin.firestore.FieldValue.serverTimestamp()
+          : null,
+        dunning_stage: stage,
+        // Legacy fields read by the admin dashboard
+        last_payment_error: admin.firestore.FieldValue.serverTimestamp(),
+        payment_attempt_count: attemptCount,
+        payment_error_message: failureReason,
+      });
+      logger.info("Updated subscription with failure details", {
+        subscriptionId: invoice.subscription,
+        attemptCount,
+        stage,
+      });
+    }
+
+    // Send payment failure notification email, escalating with the dunning stage
     const emailData = await paymentFailedEmail({
       donorName: (customer as Stripe.Customer).name || "Donor",
       amount: invoice.amount_due,
       currency: invoice.currency || "aud",
-      frequency: "recurring",
+      frequency: recurringData?.frequency || "recurring",
       attemptCount,
       nextRetryDate: nextRetry,
+      stage,
+      failureReason,
     });
 
     await sendEmail({
@@ -1200,27 +1548,24 @@ async function handleInvoicePaymentFailed(invoice: Stripe.Invoice) {
       email: customerEmail,
       invoiceId: invoice.id,
       attemptCount,
-      urgency: isUrgent ? "URGENT" : "standard",
+      stage,
     });
 
-    // Update Firestore subscription status with failure details
-    const subscriptionQuery = await admin
-      .firestore()
-      .collection("recurringDonations")
-      .where("stripe_subscription_id", "==", invoice.subscription)
-      .limit(1)
-      .get();
-
-    if (!subscriptionQuery.empty) {
-      await subscriptionQuery.docs[0].ref.update({
-        status: "past_due",
-        last_payment_error: admin.firestore.FieldValue.serverTimestamp(),
-        payment_attempt_count: attemptCount,
-        payment_error_message: invoice.last_finalization_error?.message || "Payment failed",
-      });
-      logger.info("Updated subscription with failure details", {
-        subscriptionId: invoice.subscription,
-        attemptCount,
+    if (isUrgent) {
+      const amount = formatAmount(invoice.amount_due, invoice.currency || "aud");
+      await sendAdminAlert({
+        type: "payment_failure_repeated",
+        title: `Recurring donation failed ${attemptCount} times`,
+        message: `A ${amount} recurring donation has failed ${attemptCount} payment attempts.`,
+        details: [
+          { label: "Donor", value: `${(customer as Stripe.Customer).name || "Donor"} (${customerEmail})` },
+          { label: "Amount", value: amount },
+          { label: "Attempts", value: String(attemptCount) },
+          { label: "Reason", value: failureReason },
+          { label: "Next Retry", value: nextRetry || "No further retries" },
+          { label: "Subscription ID", value: String(invoice.subscription || "N/A") },
+        ],
+        data: { invoiceId: invoice.id, subscriptionId: String(invoice.subscription || "") },
       });
     }
   } catch (error: any) {
@@ -1228,6 +1573,35 @@ async function handleInvoicePaymentFailed(invoice: Stripe.Invoice) {
   }
 }
 
+/**
+ * The decline message for a failed invoice payment (e.g. "Your card has
+ * insufficient funds."), from the invoice's payment intent
+ */
+async function getInvoiceFailureReason(
+  invoice: Stripe.Invoice,
+  stripe: Stripe
+): Promise<string> {
+  const paymentIntentId = typeof invoice.payment_intent === "string"
+    ? invoice.payment_intent
+    : invoice.payment_intent?.id;
+
+  if (paymentIntentId) {
+    try {
+      const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+      if (paymentIntent.last_payment_error?.message) {
+        return paymentIntent.last_payment_error.message;
+      }
+    } catch (error: any) {
+      logger.warn("Could not retrieve payment intent for failure reason", {
+        paymentIntentId,
+        error: error.message,
+      });
+    }
+  }
+
+  return invoice.last_finalization_error?.message || "Payment failed";
+}
+
 // ============================================================================
 // HANDLER: Subscription Deleted/Cancelled
 // ============================================================================
@@ -1240,13 +1614,24 @@ async function handleSubscriptionDeleted(subscription: Stripe.Subscription) {
     const recurringDoc = await db.collection("recurringDonations").doc(subscription.id).get();
     const recurringData = recurringDoc.data();
 
+    // Stripe cancels after the final retry fails - that's a lapse, not a donor cancellation
+    const lapsed = subscription.cancellation_details?.reason === "payment_failed";
+
     // Update recurring donation status
     await db.collection("recurringDonations").doc(subscription.id).update({
-      status: "cancelled",
+      status: lapsed ? "lapsed" : "cancelled",
       cancelled_at: admin.firestore.FieldValue.serverTimestamp(),
+      ...(lapsed
+        ? {
+          lapsed_at: admin.firestore.FieldValue.serverTimestamp(),
+          past_due: false,
+          next_retry_at: null,
+          final_retry_at: null,
+        }
+        : {}),
     });
 
-    logger.info("Recurring donation cancelled", {
+    logger.info(lapsed ? "Recurring donation lapsed" : "Recurring donation cancelled", {
       subscriptionId: subscription.id,
     });
 
@@ -1265,7 +1650,7 @@ async function handleSubscriptionDeleted(subscription: Stripe.Subscription) {
         totalDonated += doc.data().amount || 0;
       });
 
-      const emailData = await subscriptionCancelledEmail({
+      const cancelledData = {
         donorName: metadata.donor_name || recurringData?.donor_name || "Donor",
         amount: subscription.items.data[0]?.price?.unit_amount || recurringData?.amount || 0,
         currency: subscription.currency || "aud",
@@ -1273,7 +1658,13 @@ async function handleSubscriptionDeleted(subscription: Stripe.Subscription) {
         donationType: metadata.donation_type_label || recurringData?.donation_type_label || "General Donation",
         totalDonated: totalDonated > 0 ? totalDonated : undefined,
         startDate: recurringData?.created_at?.toDate?.()?.toLocaleDateString("en-AU"),
-      });
+      };
+
+      // Lapsed donors get a win-back email instead of a cancellation confirmation
+      const sendWinback = lapsed && (await getDunningSettings()).winbackEmail;
+      const emailData = sendWinback
+        ? await recurringLapsedEmail(cancelledData)
+        : await subscriptionCancelledEmail(cancelledData);
 
       await sendEmail({
         to: donorEmail,
@@ -1281,7 +1672,7 @@ async function handleSubscriptionDeleted(subscription: Stripe.Subscription) {
         html: emailData.html,
       });
 
-      logger.info("✅ Subscription cancelled email sent", {
+      logger.info(sendWinback ? "✅ Win-back email sent" : "✅ Subscription cancelled email sent", {
         subscriptionId: subscription.id,
         email: donorEmail,
       });
@@ -1322,12 +1713,22 @@ async function handleSubscriptionUpdated(
     const newAmount = subscription.items.data[0].price.unit_amount || 0;
     const newFrequency = metadata.frequency || "monthly";
 
+    // Stripe keeps a paused subscription "active" with pause_collection set
+    const pauseCollection = subscription.pause_collection;
+    const isPaused = !!pauseCollection && subscription.status === "active";
+    const newStatus = isPaused ? "paused" : subscription.status;
+
+    // Pause state we last emailed the donor about - pauseSubscription writes the
+    // status directly, so this (not status) decides whether to send the email
+    const pauseKey = isPaused ? `paused:${pauseCollection?.resumes_at || ""}` : "active";
+
     // Detect what changed
     const amountChanged = currentData?.amount !== newAmount;
     const frequencyChanged = currentData?.frequency !== newFrequency;
-    const statusChanged = currentData?.status !== subscription.status;
+    const statusChanged = currentData?.status !== newStatus;
+    const pauseChanged = (currentData?.pause_notified_key || "active") !== pauseKey;
 
-    if (!amountChanged && !frequencyChanged && !statusChanged) {
+    if (!amountChanged && !frequencyChanged && !statusChanged && !pauseChanged) {
       logger.info("⏭️ SKIP: No meaningful subscription changes", {
         subscriptionId: subscription.id,
       });
@@ -1338,9 +1739,23 @@ async function handleSubscriptionUpdated(
     await recurringRef.update({
       amount: newAmount,
       currency: (subscription.currency || "aud").toUpperCase(),
+      ...getCoveredFeeFields(metadata, newAmount),
       frequency: newFrequency,
-      status: subscription.status,
+      status: newStatus,
       next_payment_date: await calculateNextPaymentDate(newFrequency),
+      ...(pauseChanged
+        ? {
+          paused: isPaused,
+          pause_resumes_at: pauseCollection?.resumes_at
+            ? admin.firestore.Timestamp.fromMillis(pauseCollection.resumes_at * 1000)
+            : null,
+          pause_notified_key: pauseKey,
+          ...(isPaused && !currentData?.paused_at
+            ? { paused_at: admin.firestore.FieldValue.serverTimestamp() }
+            : {}),
+          ...(!isPaused ? { resumed_at: admin.firestore.FieldValue.serverTimestamp() } : {}),
+        }
+        : {}),
       updated_at: admin.firestore.FieldValue.serverTimestamp(),
     });
 
@@ -1348,8 +1763,36 @@ async function handleSubscriptionUpdated(
       subscriptionId: subscription.id,
       amountChanged,
       frequencyChanged,
+      pauseChanged,
     });
 
+    // Pause / resume confirmation (not for dispute holds - see disputes.ts)
+    const donorEmail = metadata.donor_email || currentData?.donor_email;
+    if (pauseChanged && donorEmail && !metadata.paused_by_dispute_id && !currentData?.paused_by_dispute_id) {
+      const emailData = await subscriptionPausedEmail({
+        donorName: metadata.donor_name || currentData?.donor_name || "Donor",
+        amount: newAmount,
+        currency: subscription.currency || "aud",
+        frequency: newFrequency,
+        donationType: metadata.donation_type_label || currentData?.donation_type_label || "General Donation",
+        resumed: !isPaused,
+        resumeDate: pauseCollection?.resumes_at
+          ? formatDisplayDate(new Date(pauseCollection.resumes_at * 1000), await getMosqueTimezone())
+          : undefined,
+      });
+
+      await sendEmail({
+        to: donorEmail,
+        subject: emailData.subject,
+        html: emailData.html,
+      });
+
+      logger.info(isPaused ? "✅ Subscription paused email sent" : "✅ Subscription resumed email sent", {
+        subscriptionId: subscription.id,
+        email: donorEmail,
+      });
+    }
+
     // Send confirmation email if meaningful change
     if ((amountChanged || frequencyChanged) && metadata.donor_email) {
       // NOTE: Portal sessions are no longer created here as URLs expire too quickly
@@ -1358,7 +1801,7 @@ async function handleSubscriptionUpdated(
       const changesList = [];
       if (amountChanged) {
         changesList.push(
-          `Amount: $${(currentData?.amount / 100).toFixed(2)} → $${(newAmount / 100).toFixed(2)}`
+          `Amount: ${formatAmount(currentData?.amount || 0, currentData?.currency || subscription.currency)} → ${formatAmount(newAmount, subscription.currency)}`
         );
       }
       if (frequencyChanged) {
@@ -1379,6 +1822,7 @@ async function handleSubscriptionUpdated(
         nextPaymentDate,
         newAmount: amountChanged ? newAmount : undefined,
         newFrequency: frequencyChanged ? newFrequency : undefined,
+        currency: subscription.currency,
       });
 
       const html = await render(emailTemplate.component);
@@ -1400,10 +1844,65 @@ async function handleSubscriptionUpdated(
   }
 }
 
+// ============================================================================
+// HELPER: Apply Refunded Total Change
+// ============================================================================
+
+/**
+ * Moves the campaign total and zakat ledger by a change in a donation's refunded
+ * total - down for new refunds (charge.refunded), back up when a counted refund
+ * later fails (charge.refund.updated, which passes its refund ID)
+ */
+async function applyRefundedTotalChange(
+  donationId: string,
+  donationData: FirebaseFirestore.DocumentData,
+  previouslyRefunded: number,
+  refundedTotal: number,
+  currency: string,
+  ledger: { reversals?: number; failedRefundId?: string }
+) {
+  const delta = refundedTotal - previouslyRefunded;
+
+  if (donationData.campaign_id) {
+    await updateCampaignTotal(donationData.campaign_id, -delta, currency);
+  }
+
+  // Only the gift portion was added to the zakat fund - refunds draw that down first
+  if (donationData.fund === "zakat") {
+    const giftAmount = donationData.gift_amount ?? donationData.amount;
+    const zakatDelta =
+      Math.min(refundedTotal, giftAmount) - Math.min(previouslyRefunded, giftAmount);
+
+    if (zakatDelta > 0) {
+      await recordZakatRefund(
+        donationId,
+        zakatDelta,
+        refundedTotal,
+        normalizeCurrency(currency),
+        ledger.reversals
+      );
+    } else if (zakatDelta < 0 && ledger.failedRefundId) {
+      await recordZakatRefundReversal(
+        donationId,
+        ledger.failedRefundId,
+        -zakatDelta,
+        normalizeCurrency(currency)
+      );
+    }
+  }
+}
+
 // ============================================================================
 // HANDLER: Charge Refunded
 // ============================================================================
 
+// Donor-facing labels for reasons set by issueRefund (refunds.ts)
+const REFUND_REASON_LABELS: Record<string, string> = {
+  duplicate: "Duplicate payment",
+  fraudulent: "Fraudulent payment",
+  requested_by_customer: "Requested by donor",
+};
+
 async function handleChargeRefunded(charge: Stripe.Charge, stripe: Stripe) {
   try {
     logger.info("💰 Processing charge.refunded", {
@@ -1429,34 +1928,73 @@ async function handleChargeRefunded(charge: Stripe.Charge, stripe: Stripe) {
     const donationDoc = donationQuery.docs[0];
     const donationData = donationDoc.data();
 
-    // Update donation status
-    await donationDoc.ref.update({
-      payment_status: "refunded",
-      refund_amount: charge.amount_refunded,
-      refunded_at: admin.firestore.FieldValue.serverTimestamp(),
-      updated_at: admin.firestore.FieldValue.serverTimestamp(),
+    // Refunds making up amount_refunded - if one later fails, charge.refund.updated
+    // needs to know it was counted here
+    const refunds = await stripe.refunds.list({ charge: charge.id, limit: 100 });
+    const countedRefundIds = refunds.data
+      .filter((refund) => refund.status !== "failed" && refund.status !== "canceled")
+      .map((refund) => refund.id);
+
+    // charge.amount_refunded is cumulative - only reconcile the newly refunded portion
+    const { refundDelta, reversals } = await db.runTransaction(async (transaction) => {
+      const current = await transaction.get(donationDoc.ref);
+      const currentData = current.data() || {};
+      const previouslyRefunded = currentData.refund_amount || 0;
+      const delta = charge.amount_refunded - previouslyRefunded;
+
+      if (delta <= 0) {
+        return { refundDelta: 0, reversals: 0 };
+      }
+
+      const pending = Math.max((currentData.pending_refund_amount || 0) - delta, 0);
+
+      transaction.update(donationDoc.ref, {
+        payment_status: charge.refunded ? "refunded" : "partially_refunded",
+        refund_amount: charge.amount_refunded,
+        pending_refund_amount: pending,
+        refund_status: pending > 0 ? "pending" : "succeeded",
+        ...(countedRefundIds.length > 0
+          ? { counted_refund_ids: admin.firestore.FieldValue.arrayUnion(...countedRefundIds) }
+          : {}),
+        refunded_at: admin.firestore.FieldValue.serverTimestamp(),
+        updated_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      return { refundDelta: delta, reversals: currentData.refund_reversals || 0 };
     });
 
-    logger.info("✅ Donation marked as refunded", {
+    if (refundDelta <= 0) {
+      logger.info("⏭️ SKIP: Refund already reconciled", {
+        donationId: donationDoc.id,
+        amountRefunded: charge.amount_refunded,
+      });
+      return;
+    }
+
+    logger.info("✅ Donation refund reconciled", {
       donationId: donationDoc.id,
-      amount: charge.amount_refunded,
+      refunded: refundDelta,
+      totalRefunded: charge.amount_refunded,
+      fullyRefunded: charge.refunded,
     });
 
-    // Reverse campaign total if applicable
-    if (donationData.campaign_id && charge.amount_refunded) {
-      await updateCampaignTotal(
-        donationData.campaign_id,
-        -charge.amount_refunded
-      );
-    }
+    await applyRefundedTotalChange(
+      donationDoc.id,
+      donationData,
+      charge.amount_refunded - refundDelta,
+      charge.amount_refunded,
+      charge.currency,
+      { reversals }
+    );
 
     // Send refund confirmation email
     if (donationData.donor_email) {
       const emailData = await refundConfirmationEmail({
         donorName: donationData.donor_name || "Donor",
-        amount: charge.amount_refunded,
+        amount: refundDelta,
         currency: charge.currency || "aud",
         receiptNumber: donationData.receipt_number,
+        refundReason: REFUND_REASON_LABELS[donationData.refund_reason],
         originalDate: donationData.date?.toString() || "N/A",
       });
 
@@ -1536,15 +2074,23 @@ async function handleDisputeCreated(
         paymentIntentId,
         attempts: maxAttempts,
       });
+      // Still track the dispute so the evidence deadline isn't missed
+      await recordDispute(dispute);
       return;
     }
 
     const donationDoc = donationQuery.docs[0];
     const donationData = donationDoc.data();
 
-    // Mark donation as disputed
+    await recordDispute(dispute, donationDoc);
+
+    // Mark donation as disputed (keeping the prior status to restore if the dispute is won)
     await donationDoc.ref.update({
       payment_status: "disputed",
+      pre_dispute_payment_status: donationData.payment_status === "disputed"
+        ? donationData.pre_dispute_payment_status || "succeeded"
+        : donationData.payment_status || "succeeded",
+      dispute_status: dispute.status,
       dispute_id: dispute.id,
       dispute_reason: dispute.reason,
       dispute_amount: dispute.amount,
@@ -1557,9 +2103,8 @@ async function handleDisputeCreated(
       disputeId: dispute.id,
     });
 
-    // Send urgent admin email notification
-    const adminEmail = "donations@alansar.app"; // TODO: Use a dedicated admin email
-    const disputeAmount = (dispute.amount / 100).toFixed(2);
+    // Send urgent admin alert (email uses the dedicated dispute template)
+    const disputeAmount = formatAmount(dispute.amount, dispute.currency);
     const disputeDueDate = dispute.evidence_details.due_by 
       ? new Date(dispute.evidence_details.due_by * 1000).toLocaleDateString("en-AU")
       : "Unknown";
@@ -1574,16 +2119,15 @@ async function handleDisputeCreated(
       disputeId: dispute.id,
     });
 
-    await sendEmail({
-      from: "Al Ansar Alerts <donations@alansar.app>",
-      to: adminEmail,
-      subject: `🚨 URGENT: Dispute Created - $${disputeAmount} AUD`,
-      html: disputeHtml,
-    });
-
-    logger.info("✅ Admin dispute alert email sent", {
-      disputeId: dispute.id,
-      adminEmail,
+    await sendAdminAlert({
+      type: "dispute",
+      title: `Dispute Created - ${disputeAmount}`,
+      message: `A ${dispute.reason} dispute was filed for receipt ${donationData.receipt_number}. Respond by ${disputeDueDate}.`,
+      email: {
+        subject: `🚨 URGENT: Dispute Created - ${disputeAmount}`,
+        html: disputeHtml,
+      },
+      data: { disputeId: dispute.id, donationId: donationDoc.id },
     });
 
     // Log for monitoring
@@ -1596,16 +2140,13 @@ async function handleDisputeCreated(
       receiptNumber: donationData.receipt_number,
     });
 
-    // Optional: Pause subscription if this was a recurring donation
+    // Pause the subscription if this was a recurring donation (per policy)
     if (donationData.stripe_subscription_id) {
-      logger.warn("⚠️ Subscription related to dispute - consider manual review", {
-        subscriptionId: donationData.stripe_subscription_id,
-        disputeId: dispute.id,
-      });
-      // Uncomment to auto-pause:
-      // await stripe.subscriptions.update(donationData.stripe_subscription_id, {
-      //   pause_collection: { behavior: 'mark_uncollectible' }
-      // });
+      await applyDisputeSubscriptionPolicy(
+        dispute,
+        donationData.stripe_subscription_id,
+        stripe
+      );
     }
   } catch (error) {
     logger.error("Error handling dispute created", error);
@@ -1613,35 +2154,571 @@ async function handleDisputeCreated(
   }
 }
 
+// ============================================================================
+// HANDLER: Dispute Updated
+// ============================================================================
+
+async function handleDisputeUpdated(dispute: Stripe.Dispute) {
+  try {
+    logger.info("🔄 Processing charge.dispute.updated", {
+      disputeId: dispute.id,
+      status: dispute.status,
+    });
+
+    const donationId = await recordDispute(dispute);
+
+    if (donationId) {
+      await db.collection("donations").doc(donationId).update({
+        dispute_status: dispute.status,
+        updated_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+  } catch (error) {
+    logger.error("Error handling dispute updated", error);
+    throw error;
+  }
+}
+
+// ============================================================================
+// HANDLER: Dispute Closed
+// ============================================================================
+// Won disputes (and closed inquiries) restore the donation's prior status.
+// Lost disputes stay "disputed", which excludes them from tax statements.
+
+async function handleDisputeClosed(
+  dispute: Stripe.Dispute,
+  stripe: Stripe
+) {
+  try {
+    logger.info("🔄 Processing charge.dispute.closed", {
+      disputeId: dispute.id,
+      status: dispute.status,
+    });
+
+    const donationId = await recordDispute(dispute);
+    const won = dispute.status === "won" || dispute.status === "warning_closed";
+
+    if (donationId) {
+      const donationRef = db.collection("donations").doc(donationId);
+      const donationData = (await donationRef.get()).data();
+
+      await donationRef.update({
+        ...(won && donationData?.payment_status === "disputed"
+          ? { payment_status: donationData.pre_dispute_payment_status || "succeeded" }
+          : {}),
+        dispute_status: dispute.status,
+        dispute_closed_at: admin.firestore.FieldValue.serverTimestamp(),
+        updated_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+
+    if (won) {
+      await resumeDisputePausedSubscription(dispute, stripe);
+    }
+
+    logger.info("✅ Dispute closed", {
+      disputeId: dispute.id,
+      donationId,
+      outcome: dispute.status,
+    });
+  } catch (error) {
+    logger.error("Error handling dispute closed", error);
+    throw error;
+  }
+}
+
+// ============================================================================
+// HANDLER: Refund Updated (late refund failures)
+// ============================================================================
+// issueRefund reserves pending_refund_amount until charge.refunded settles it.
+// A refund can fail or be cancelled either before charge.refunded counted it
+// (only its own reservation is released) or after (counted_refund_ids) - then
+// refund_amount, payment_status, the campaign total and zakat ledger are put back.
+
+async function handleChargeRefundUpdated(refund: Stripe.Refund, stripe: Stripe) {
+  try {
+    if (refund.status !== "failed" && refund.status !== "canceled") {
+      return;
+    }
+
+    const errorMessage = refund.failure_reason
+      ? `Refund ${refund.status}: ${refund.failure_reason}`
+      : `Refund ${refund.status}`;
+
+    // Dashboard refunds carry the donation ID; refunds made in Stripe directly
+    // are matched by payment intent (they may have been counted by charge.refunded)
+    let donationRef: FirebaseFirestore.DocumentReference | null = null;
+    const donationId = refund.metadata?.donation_id;
+    if (donationId) {
+      donationRef = db.collection("donations").doc(donationId);
+      if (!(await donationRef.get()).exists) {
+        donationRef = null;
+      }
+    } else if (refund.payment_intent) {
+      const paymentIntentId = typeof refund.payment_intent === "string"
+        ? refund.payment_intent
+        : refund.payment_intent.id;
+      const donationQuery = await db
+        .collection("donations")
+        .where("stripe_payment_intent_id", "==", paymentIntentId)
+        .limit(1)
+        .get();
+      donationRef = donationQuery.empty ? null : donationQuery.docs[0].ref;
+    }
+
+    if (!donationRef) {
+      logger.warn("Donation not found for failed refund", { refundId: refund.id, donationId });
+      return;
+    }
+
+    const ref = donationRef;
+    const reversed = await db.runTransaction(async (transaction) => {
+      const donationDoc = await transaction.get(ref);
+      const donation = donationDoc.data() || {};
+
+      if ((donation.failed_refund_ids || []).includes(refund.id) ||
+        !(donation.counted_refund_ids || []).includes(refund.id)) {
+        return null;
+      }
+
+      const previouslyRefunded = donation.refund_amount || 0;
+      const refundedTotal = Math.max(previouslyRefunded - refund.amount, 0);
+      const pending = donation.pending_refund_amount || 0;
+
+      transaction.update(ref, {
+        payment_status: refundedTotal > 0 ? "partially_refunded" : "succeeded",
+        refund_amount: refundedTotal,
+        refund_status: pending > 0 ? "pending" : "failed",
+        refund_error: errorMessage,
+        refund_reversals: admin.firestore.FieldValue.increment(1),
+        failed_refund_ids: admin.firestore.FieldValue.arrayUnion(refund.id),
+        counted_refund_ids: admin.firestore.FieldValue.arrayRemove(refund.id),
+        updated_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      return { donation, previouslyRefunded, refundedTotal };
+    });
+
+    if (reversed) {
+      await applyRefundedTotalChange(
+        ref.id,
+        reversed.donation,
+        reversed.previouslyRefunded,
+        reversed.refundedTotal,
+        refund.currency,
+        { failedRefundId: refund.id }
+      );
+
+      logger.warn("⚠️ Refund failed after it was settled - refund reversed", {
+        refundId: refund.id,
+        donationId: ref.id,
+        amount: refund.amount,
+        status: refund.status,
+        failureReason: refund.failure_reason,
+      });
+      return;
+    }
+
+    // Not counted yet - only issueRefund reservations need releasing
+    if (!donationId) {
+      logger.info("⏭️ SKIP: Refund not issued from the dashboard", { refundId: refund.id });
+      return;
+    }
+
+    const released = await releasePendingRefund(ref, refund.amount, errorMessage, refund.id);
+
+    if (released) {
+      logger.warn("⚠️ Refund failed - reservation released", {
+        refundId: refund.id,
+        donationId,
+        amount: refund.amount,
+        status: refund.status,
+        failureReason: refund.failure_reason,
+      });
+    }
+  } catch (error) {
+    logger.error("Error handling refund update", error);
+    throw error;
+  }
+}
+
+// ============================================================================
+// HANDLER: Charge Balance Transaction (fees before payout)
+// ============================================================================
+// charge.succeeded / charge.updated carry the balance transaction once Stripe
+// has settled the charge, so fees show up in analytics before the payout.
+// Donations not written yet are picked up by handlePayoutPaid.
+
+async function handleChargeBalanceTransaction(charge: Stripe.Charge, stripe: Stripe) {
+  try {
+    if (!charge.balance_transaction || !charge.payment_intent) {
+      return;
+    }
+
+    const paymentIntentId = typeof charge.payment_intent === "string"
+      ? charge.payment_intent
+      : charge.payment_intent.id;
+
+    const donationQuery = await db
+      .collection("donations")
+      .where("stripe_payment_intent_id", "==", paymentIntentId)
+      .limit(1)
+      .get();
+
+    if (donationQuery.empty) {
+      logger.info("No donation yet for charge - fees recorded on payout", {
+        chargeId: charge.id,
+        paymentIntentId,
+      });
+      return;
+    }
+
+    const balanceTransactionId = typeof charge.balance_transaction === "string"
+      ? charge.balance_transaction
+      : charge.balance_transaction.id;
+    const donationDoc = donationQuery.docs[0];
+
+    if (donationDoc.data().balance_transaction_id === balanceTransactionId) {
+      return;
+    }
+
+    const txn = typeof charge.balance_transaction === "string"
+      ? await stripe.balanceTransactions.retrieve(balanceTransactionId)
+      : charge.balance_transaction;
+
+    await donationDoc.ref.update({
+      stripe_fee: txn.fee,
+      stripe_net: txn.net,
+      settlement_amount: txn.amount,
+      settlement_currency: txn.currency.toUpperCase(),
+      balance_transaction_id: txn.id,
+      updated_at: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    logger.info("✅ Stripe fee recorded", {
+      donationId: donationDoc.id,
+      fee: txn.fee,
+      net: txn.net,
+    });
+  } catch (error) {
+    logger.error("Error handling charge balance transaction", error);
+    throw error;
+  }
+}
+
+// ============================================================================
+// HANDLER: Payout Paid (bank deposit ledger)
+// ============================================================================
+// Lists the balance transactions that make up the deposit, records the Stripe
+// fee and net amount on each donation, and writes payouts/{payoutId} with one
+// payouts/{payoutId}/items/{balanceTransactionId} doc per transaction.
+// Pages are processed as they arrive (bulk donation lookups, one batch per
+// page) so large payouts stay within the webhook timeout.
+// NOTE: Filtering balance transactions by payout only works for automatic payouts.
+
+// Firestore "in" queries accept at most 30 values
+const IN_QUERY_LIMIT = 30;
+
+async function handlePayoutPaid(payout: Stripe.Payout, stripe: Stripe) {
+  try {
+    logger.info("🏦 Processing payout.paid", {
+      payoutId: payout.id,
+      amount: payout.amount,
+      currency: payout.currency,
+    });
+
+    const payoutRef = db.collection("payouts").doc(payout.id);
+    const paidOutAt = admin.firestore.Timestamp.fromMillis(payout.arrival_date * 1000);
+    let transactionCount = 0;
+    let gross = 0;
+    let fees = 0;
+    let donationCount = 0;
+    let unmatchedCount = 0;
+
+    let page = await stripe.balanceTransactions.list({
+      payout: payout.id,
+      expand: ["data.source"],
+      limit: 100,
+    });
+
+    for (;;) {
+      // The payout itself appears as a balance transaction - skip it
+      const transactions = page.data.filter((txn) => txn.type !== "payout");
+
+      const paymentIntentIds = await Promise.all(
+        transactions.map((txn) => getBalanceTransactionPaymentIntent(
+          txn.source as Stripe.Charge | Stripe.Refund | Stripe.Dispute | null,
+          stripe
+        ))
+      );
+      const donations = await getDonationsByPaymentIntent(
+        paymentIntentIds.filter((id): id is string => !!id)
+      );
+
+      const batch = db.batch();
+
+      transactions.forEach((txn, index) => {
+        const paymentIntentId = paymentIntentIds[index];
+        const donationDoc = paymentIntentId ? donations.get(paymentIntentId) : undefined;
+
+        // Charges carry the processing fee for the donation
+        if (donationDoc && (txn.type === "charge" || txn.type === "payment")) {
+          batch.update(donationDoc.ref, {
+            stripe_fee: txn.fee,
+            stripe_net: txn.net,
+            settlement_amount: txn.amount,
+            settlement_currency: txn.currency.toUpperCase(),
+            balance_transaction_id: txn.id,
+            payout_id: payout.id,
+            paid_out_at: paidOutAt,
+            updated_at: admin.firestore.FieldValue.serverTimestamp(),
+          });
+          donationCount++;
+        }
+        if (!donationDoc) {
+          unmatchedCount++;
+        }
+
+        gross += txn.amount;
+        fees += txn.fee;
+        transactionCount++;
+
+        batch.set(payoutRef.collection("items").doc(txn.id), {
+          balance_transaction_id: txn.id,
+          type: txn.type,
+          amount: txn.amount,
+          fee: txn.fee,
+          net: txn.net,
+          donation_id: donationDoc?.id || null,
+          receipt_number: donationDoc?.data().receipt_number || null,
+          payment_intent_id: paymentIntentId,
+          description: txn.description || null,
+          created: admin.firestore.Timestamp.fromMillis(txn.created * 1000),
+        });
+      });
+
+      await batch.commit();
+
+      if (!page.has_more || page.data.length === 0) {
+        break;
+      }
+      page = await stripe.balanceTransactions.list({
+        payout: payout.id,
+        expand: ["data.source"],
+        limit: 100,
+        starting_after: page.data[page.data.length - 1].id,
+      });
+    }
+
+    // merge keeps created_at from the first delivery of this event
+    const existing = await payoutRef.get();
+    await payoutRef.set({
+      id: payout.id,
+      amount: payout.amount,
+      currency: payout.currency.toUpperCase(),
+      status: payout.status,
+      arrival_date: paidOutAt,
+      gross,
+      fees,
+      net: gross - fees,
+      transaction_count: transactionCount,
+      donation_count: donationCount,
+      unmatched_count: unmatchedCount,
+      updated_at: admin.firestore.FieldValue.serverTimestamp(),
+      ...(existing.exists ? {} : { created_at: admin.firestore.FieldValue.serverTimestamp() }),
+    }, { merge: true });
+
+    logger.info("✅ Payout recorded", {
+      payoutId: payout.id,
+      transactions: transactionCount,
+      donationCount,
+      unmatchedCount,
+      gross,
+      fees,
+      net: gross - fees,
+    });
+  } catch (error) {
+    logger.error("Error handling payout paid", error);
+    throw error;
+  }
+}
+
+/**
+ * Look up donations for many payment intents with batched "in" queries
+ */
+async function getDonationsByPaymentIntent(
+  paymentIntentIds: string[]
+): Promise<Map<string, FirebaseFirestore.QueryDocumentSnapshot>> {
+  const uniqueIds = [...new Set(paymentIntentIds)];
+  const donations = new Map<string, FirebaseFirestore.QueryDocumentSnapshot>();
+
+  for (let start = 0; start < uniqueIds.length; start += IN_QUERY_LIMIT) {
+    const snapshot = await db
+      .collection("donations")
+      .where("stripe_payment_intent_id", "in", uniqueIds.slice(start, start + IN_QUERY_LIMIT))
+      .get();
+
+    snapshot.docs.forEach((doc) => {
+      const paymentIntentId = doc.data().stripe_payment_intent_id;
+      if (!donations.has(paymentIntentId)) {
+        donations.set(paymentIntentId, doc);
+      }
+    });
+  }
+
+  return donations;
+}
+
+// ============================================================================
+// HANDLER: Payout Failed
+// ============================================================================
+
+async function handlePayoutFailed(payout: Stripe.Payout) {
+  try {
+    logger.warn("⚠️ Payout failed", {
+      payoutId: payout.id,
+      amount: payout.amount,
+      failureCode: payout.failure_code,
+    });
+
+    await db.collection("payouts").doc(payout.id).set(
+      {
+        id: payout.id,
+        amount: payout.amount,
+        currency: payout.currency.toUpperCase(),
+        status: payout.status,
+        failure_code: payout.failure_code || null,
+        failure_message: payout.failure_message || null,
+        updated_at: admin.firestore.FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+  } catch (error) {
+    logger.error("Error handling payout failed", error);
+    throw error;
+  }
+}
+
+// Payment intent behind a balance transaction source (charge, refund or dispute)
+const getBalanceTransactionPaymentIntent = async (
+  source: Stripe.Charge | Stripe.Refund | Stripe.Dispute | null,
+  stripe: Stripe
+): Promise<string | null> => {
+  if (!source) return null;
+
+  let paymentIntent = source.payment_intent;
+
+  // Older disputes may only reference the charge
+  if (!paymentIntent && source.object === "dispute" && source.charge) {
+    const charge = typeof source.charge === "string"
+      ? await stripe.charges.retrieve(source.charge)
+      : source.charge;
+    paymentIntent = charge.payment_intent;
+  }
+
+  if (!paymentIntent) return null;
+  return typeof paymentIntent === "string" ? paymentIntent : paymentIntent.id;
+};
+
 // ============================================================================
 // HELPER: Update Campaign Total
 // ============================================================================
 
-async function updateCampaignTotal(campaignId: string, amount: number) {
+async function updateCampaignTotal(
+  campaignId: string,
+  amount: number,
+  currency: string | null
+) {
   try {
     const campaignRef = db.collection("campaigns").doc(campaignId);
+    const donationCurrency = normalizeCurrency(currency);
 
-    await db.runTransaction(async (transaction) => {
+    const milestoneResult = await db.runTransaction(async (transaction) => {
       const campaignDoc = await transaction.get(campaignRef);
 
       if (!campaignDoc.exists) {
         logger.warn("Campaign not found", { campaignId });
-        return;
+        return null;
       }
 
-      const currentAmount = campaignDoc.data()?.current_amount || 0;
-      const newAmount = currentAmount + amount;
-
-      transaction.update(campaignRef, {
-        current_amount: newAmount,
+      const campaignData = campaignDoc.data() || {};
+      let reachedMilestone: {
+        campaignData: FirebaseFirestore.DocumentData;
+        milestone: number;
+        currentAmount: number;
+      } | null = null;
+      const updates: Record<string, any> = {
+        [`current_amount_by_currency.${donationCurrency}`]:
+          admin.firestore.FieldValue.increment(amount),
         updated_at: admin.firestore.FieldValue.serverTimestamp(),
-      });
+      };
+
+      // Campaigns without a currency are in the mosque's default currency
+      const campaignCurrency = campaignData.currency
+        ? normalizeCurrency(campaignData.currency)
+        : getDefaultCurrency(
+          (await transaction.get(db.collection("donationSettings").doc("config"))).data()
+        );
+
+      // current_amount (progress toward goal_amount) only counts the campaign's own currency
+      if (donationCurrency === campaignCurrency) {
+        const newAmount = (campaignData.current_amount || 0) + amount;
+        updates.current_amount = newAmount;
+
+        // Record milestones in the same transaction so each one fires exactly once
+        const newMilestones = getNewCampaignMilestones(campaignData, newAmount);
+        if (newMilestones.length > 0) {
+          updates.milestones_reached = admin.firestore.FieldValue.arrayUnion(...newMilestones);
+          newMilestones.forEach((milestone) => {
+            updates[`milestone_reached_at.${milestone}`] =
+              admin.firestore.FieldValue.serverTimestamp();
+          });
+
+          if (newMilestones.includes(100) && campaignData.auto_close_on_goal === true) {
+            updates.status = "completed";
+            updates.closed_at = admin.firestore.FieldValue.serverTimestamp();
+            updates.closed_reason = "goal_reached";
+          }
+
+          reachedMilestone = {
+            campaignData: { ...campaignData, currency: campaignCurrency },
+            milestone: Math.max(...newMilestones),
+            currentAmount: newAmount,
+          };
+        }
+      } else {
+        logger.info("Donation currency differs from campaign currency", {
+          campaignId,
+          donationCurrency,
+          campaignCurrency,
+        });
+      }
+
+      transaction.update(campaignRef, updates);
+      return reachedMilestone;
     });
 
     logger.info("Campaign total updated", {
       campaignId,
       addedAmount: amount,
+      currency: donationCurrency,
     });
+
+    // Notify outside the transaction - transactions can retry
+    if (milestoneResult) {
+      logger.info("🎯 Campaign milestone reached", {
+        campaignId,
+        milestone: milestoneResult.milestone,
+        currentAmount: milestoneResult.currentAmount,
+      });
+
+      await sendCampaignMilestoneNotification(
+        campaignId,
+        milestoneResult.campaignData,
+        milestoneResult.milestone,
+        milestoneResult.currentAmount
+      );
+    }
   } catch (error) {
     logger.error("Error updating campaign total", error);
     // Don't throw - campaign update failure shouldn't fail the donation
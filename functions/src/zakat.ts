@@ -0,0 +1,469 @@
+// ============================================================================
+// CLOUD FUNCTIONS: ZAKAT CALCULATOR & ZAKAT FUND LEDGER
+// Location: mosque_app_functions/src/zakat.ts
+// ============================================================================
+// Zakat must be tracked and disbursed separately from general donations.
+// Donations designated to the zakat fund (`fund: "zakat"`) are recorded in the
+// `zakatLedger` collection, with running balances per currency in
+// `zakatFund/{currency}`.
+//
+// donationSettings/config.zakat:
+//   enabled: true
+//   currency: "AUD"                  // Currency of the metal prices below
+//   nisab_basis: "silver" | "gold"   // Default silver
+//   gold_price_per_gram: 130.5       // Major units (dollars)
+//   silver_price_per_gram: 1.55
+//   gold_nisab_grams: 87.48          // Optional override
+//   silver_nisab_grams: 612.36       // Optional override
+//   rate_percent: 2.5                // Optional override
+//   donation_type_ids: ["zakat"]     // Donation types that are always zakat
+
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions";
+import * as admin from "firebase-admin";
+import { Permission } from "./utils/roles";
+import { requirePermission } from "./utils/authorization";
+import { formatAmount } from "./emails/index.js";
+import {
+  getDefaultCurrency,
+  normalizeCurrency,
+  toMinorUnits,
+} from "./utils/currency";
+
+const db = admin.firestore();
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DonationFund = "general" | "zakat";
+
+type NisabBasis = "gold" | "silver";
+
+interface ZakatSettings {
+  enabled: boolean;
+  currency: string;
+  nisabBasis: NisabBasis;
+  goldPricePerGram?: number; // cents
+  silverPricePerGram?: number; // cents
+  goldNisabGrams: number;
+  silverNisabGrams: number;
+  ratePercent: number;
+  donationTypeIds: string[];
+}
+
+interface CalculateZakatRequest {
+  cash?: number; // cents - cash in hand and bank accounts
+  gold_grams?: number;
+  silver_grams?: number;
+  business_assets?: number; // cents - stock, receivables
+  liabilities?: number; // cents - debts due now
+}
+
+interface RecordZakatDisbursementRequest {
+  amount: number; // cents
+  currency?: string;
+  recipient_reference: string; // Case number or anonymised reference - never a full name
+  category?: string; // e.g. "fuqara", "masakin", "gharimin"
+  description?: string;
+}
+
+export interface ZakatLedgerBalance {
+  currency: string;
+  received: number; // cents
+  refunded: number; // cents
+  disbursed: number; // cents
+  balance: number; // cents
+}
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+// Classical nisab weights (85g gold / 595g silver are also common - configurable)
+const DEFAULT_GOLD_NISAB_GRAMS = 87.48;
+const DEFAULT_SILVER_NISAB_GRAMS = 612.36;
+const DEFAULT_ZAKAT_RATE_PERCENT = 2.5;
+
+function getZakatSettings(settings?: FirebaseFirestore.DocumentData): ZakatSettings {
+  const zakat = settings?.zakat || {};
+  const currency = normalizeCurrency(zakat.currency || getDefaultCurrency(settings));
+  const price = (value: unknown) =>
+    typeof value === "number" && value > 0 ? toMinorUnits(value, currency) : undefined;
+
+  return {
+    enabled: zakat.enabled !== false,
+    currency,
+    nisabBasis: zakat.nisab_basis === "gold" ? "gold" : "silver",
+    goldPricePerGram: price(zakat.gold_price_per_gram),
+    silverPricePerGram: price(zakat.silver_price_per_gram),
+    goldNisabGrams: zakat.gold_nisab_grams || DEFAULT_GOLD_NISAB_GRAMS,
+    silverNisabGrams: zakat.silver_nisab_grams || DEFAULT_SILVER_NISAB_GRAMS,
+    ratePercent: zakat.rate_percent || DEFAULT_ZAKAT_RATE_PERCENT,
+    donationTypeIds: Array.isArray(zakat.donation_type_ids)
+      ? zakat.donation_type_ids
+      : ["zakat"],
+  };
+}
+
+// ============================================================================
+// HELPER: Resolve Donation Fund (used by createPaymentIntent / createSubscription)
+// ============================================================================
+
+/**
+ * Determines and validates the fund a donation is designated to.
+ * Zakat donation types are always zakat, zakat must be enabled, and zakat can
+ * only go to campaigns marked `zakat_eligible`.
+ */
+export async function resolveDonationFund(
+  settings: FirebaseFirestore.DocumentData | undefined,
+  requestedFund: string | undefined,
+  donationTypeId: string,
+  campaignId?: string
+): Promise<DonationFund> {
+  if (requestedFund !== undefined && requestedFund !== "general" && requestedFund !== "zakat") {
+    throw new HttpsError("invalid-argument", "Fund must be general or zakat");
+  }
+
+  const zakatSettings = getZakatSettings(settings);
+  const isZakatType = zakatSettings.donationTypeIds.includes(donationTypeId);
+
+  if (isZakatType && requestedFund === "general") {
+    throw new HttpsError(
+      "invalid-argument",
+      "Zakat donation types must be designated to the zakat fund"
+    );
+  }
+
+  const fund: DonationFund = isZakatType || requestedFund === "zakat" ? "zakat" : "general";
+
+  if (fund === "zakat") {
+    if (!zakatSettings.enabled) {
+      throw new HttpsError("failed-precondition", "Zakat donations are not currently accepted");
+    }
+
+    if (campaignId) {
+      const campaignDoc = await db.collection("campaigns").doc(campaignId).get();
+      if (campaignDoc.data()?.zakat_eligible !== true) {
+        throw new HttpsError(
+          "invalid-argument",
+          "This campaign is not eligible for zakat"
+        );
+      }
+    }
+  }
+
+  return fund;
+}
+
+// ============================================================================
+// HELPER: Ledger Entries (used by webhooks.ts)
+// ============================================================================
+
+/**
+ * Writes a ledger entry and updates the fund balance atomically.
+ * Entries have deterministic ids so webhook retries can't double count.
+ */
+async function writeLedgerEntry(
+  entryId: string,
+  entry: {
+    type: "received" | "refunded" | "disbursed";
+    amount: number;
+    currency: string;
+    [key: string]: unknown;
+  }
+): Promise<boolean> {
+  const entryRef = db.collection("zakatLedger").doc(entryId);
+  const currency = normalizeCurrency(entry.currency);
+  const balanceRef = db.collection("zakatFund").doc(currency);
+
+  return db.runTransaction(async (transaction) => {
+    const existing = await transaction.get(entryRef);
+    if (existing.exists) {
+      return false;
+    }
+
+    const signedAmount = entry.type === "received" ? entry.amount : -entry.amount;
+
+    transaction.set(entryRef, {
+      ...entry,
+      currency,
+      created_at: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    transaction.set(
+      balanceRef,
+      {
+        currency,
+        [entry.type]: admin.firestore.FieldValue.increment(entry.amount),
+        balance: admin.firestore.FieldValue.increment(signedAmount),
+        updated_at: admin.firestore.FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+
+    return true;
+  });
+}
+
+/**
+ * Records zakat received for a donation (gift amount, excluding donor-covered fees)
+ */
+export async function recordZakatReceived(
+  donationId: string,
+  amount: number,
+  currency: string
+) {
+  const recorded = await writeLedgerEntry(`received_${donationId}`, {
+    type: "received",
+    amount,
+    currency,
+    donation_id: donationId,
+  });
+
+  logger.info(recorded ? "🕌 Zakat received" : "⏭️ SKIP: Zakat already recorded", {
+    donationId,
+    amount,
+    currency,
+  });
+}
+
+/**
+ * Records a refund of a zakat donation. `refundedTotal` is the cumulative
+ * refunded amount so each partial refund gets its own entry; `reversals` (failed
+ * refunds reversed so far) keeps the key unique if a total is reached again.
+ */
+export async function recordZakatRefund(
+  donationId: string,
+  amount: number,
+  refundedTotal: number,
+  currency: string,
+  reversals = 0
+) {
+  const entryId = reversals > 0
+    ? `refunded_${donationId}_${refundedTotal}_r${reversals}`
+    : `refunded_${donationId}_${refundedTotal}`;
+
+  await writeLedgerEntry(entryId, {
+    type: "refunded",
+    amount,
+    currency,
+    donation_id: donationId,
+  });
+
+  logger.info("🕌 Zakat refund recorded", { donationId, amount, currency });
+}
+
+/**
+ * Puts back a zakat refund that Stripe later failed or cancelled. Recorded as a
+ * negative refund so `refunded` and `balance` both net it out.
+ */
+export async function recordZakatRefundReversal(
+  donationId: string,
+  refundId: string,
+  amount: number,
+  currency: string
+) {
+  await writeLedgerEntry(`refund_reversed_${donationId}_${refundId}`, {
+    type: "refunded",
+    amount: -amount,
+    currency,
+    donation_id: donationId,
+    refund_id: refundId,
+  });
+
+  logger.info("🕌 Zakat refund reversed", { donationId, refundId, amount, currency });
+}
+
+/**
+ * Zakat fund balances per currency
+ */
+export async function getZakatLedgerBalances(): Promise<ZakatLedgerBalance[]> {
+  const snapshot = await db.collection("zakatFund").get();
+
+  return snapshot.docs.map((doc) => {
+    const data = doc.data();
+    return {
+      currency: data.currency || doc.id,
+      received: data.received || 0,
+      refunded: data.refunded || 0,
+      disbursed: data.disbursed || 0,
+      balance: data.balance || 0,
+    };
+  });
+}
+
+// ============================================================================
+// FUNCTION 1: Calculate Zakat (public - mobile app calculator)
+// ============================================================================
+
+export const calculateZakat = onCall(
+  {
+    region: "australia-southeast1",
+    cors: true,
+  },
+  async (request) => {
+    const data = (request.data || {}) as CalculateZakatRequest;
+
+    const amountFields: Array<keyof CalculateZakatRequest> = [
+      "cash",
+      "gold_grams",
+      "silver_grams",
+      "business_assets",
+      "liabilities",
+    ];
+    for (const field of amountFields) {
+      const value = data[field];
+      if (value !== undefined && (typeof value !== "number" || !isFinite(value) || value < 0)) {
+        throw new HttpsError("invalid-argument", `${field} must be a non-negative number`);
+      }
+    }
+
+    const settingsDoc = await db.collection("donationSettings").doc("config").get();
+    const zakat = getZakatSettings(settingsDoc.data());
+
+    const nisabPrice = zakat.nisabBasis === "gold"
+      ? zakat.goldPricePerGram
+      : zakat.silverPricePerGram;
+
+    if (!nisabPrice) {
+      throw new HttpsError(
+        "failed-precondition",
+        "Zakat nisab prices have not been configured"
+      );
+    }
+
+    const goldGrams = data.gold_grams || 0;
+    const silverGrams = data.silver_grams || 0;
+
+    if ((goldGrams > 0 && !zakat.goldPricePerGram) || (silverGrams > 0 && !zakat.silverPricePerGram)) {
+      throw new HttpsError(
+        "failed-precondition",
+        "Gold and silver prices have not been configured"
+      );
+    }
+
+    const goldValue = Math.round(goldGrams * (zakat.goldPricePerGram || 0));
+    const silverValue = Math.round(silverGrams * (zakat.silverPricePerGram || 0));
+    const totalAssets =
+      Math.round(data.cash || 0) + goldValue + silverValue + Math.round(data.business_assets || 0);
+    const liabilities = Math.round(data.liabilities || 0);
+    const netWealth = Math.max(totalAssets - liabilities, 0);
+
+    const nisabGrams = zakat.nisabBasis === "gold" ? zakat.goldNisabGrams : zakat.silverNisabGrams;
+    const nisabThreshold = Math.round(nisabGrams * nisabPrice);
+    const meetsNisab = netWealth >= nisabThreshold;
+
+    return {
+      currency: zakat.currency,
+      nisab_basis: zakat.nisabBasis,
+      nisab_threshold: nisabThreshold,
+      rate_percent: zakat.ratePercent,
+      gold_value: goldValue,
+      silver_value: silverValue,
+      total_assets: totalAssets,
+      liabilities,
+      net_zakatable_wealth: netWealth,
+      meets_nisab: meetsNisab,
+      zakat_due: meetsNisab ? Math.round((netWealth * zakat.ratePercent) / 100) : 0,
+    };
+  }
+);
+
+// ============================================================================
+// FUNCTION 2: Record Zakat Disbursement (Admin Dashboard)
+// ============================================================================
+
+export const recordZakatDisbursement = onCall(
+  {
+    region: "australia-southeast1",
+    cors: true,
+  },
+  async (request) => {
+    const auth = requirePermission(
+      request,
+      Permission.MANAGE_ZAKAT,
+      "You do not have permission to disburse zakat"
+    );
+
+    const data = (request.data || {}) as RecordZakatDisbursementRequest;
+
+    if (!Number.isInteger(data.amount) || data.amount <= 0) {
+      throw new HttpsError("invalid-argument", "Amount must be a positive whole number of cents");
+    }
+
+    if (!data.recipient_reference || typeof data.recipient_reference !== "string" ||
+      data.recipient_reference.length > 100) {
+      throw new HttpsError("invalid-argument", "Recipient reference is required (max 100 characters)");
+    }
+
+    if (data.description !== undefined &&
+      (typeof data.description !== "string" || data.description.length > 500)) {
+      throw new HttpsError("invalid-argument", "Description must be at most 500 characters");
+    }
+
+    const settingsDoc = await db.collection("donationSettings").doc("config").get();
+    const currency = normalizeCurrency(data.currency || getDefaultCurrency(settingsDoc.data()));
+    const balanceRef = db.collection("zakatFund").doc(currency);
+    const entryRef = db.collection("zakatLedger").doc();
+
+    // Check the balance and write the entry in one transaction so the fund can't go negative
+    const balance = await db.runTransaction(async (transaction) => {
+      const balanceDoc = await transaction.get(balanceRef);
+      const available = balanceDoc.data()?.balance || 0;
+
+      if (data.amount > available) {
+        throw new HttpsError(
+          "failed-precondition",
+          `Disbursement exceeds the zakat fund balance of ${formatAmount(available, currency)}`
+        );
+      }
+
+      transaction.set(entryRef, {
+        type: "disbursed",
+        amount: data.amount,
+        currency,
+        recipient_reference: data.recipient_reference,
+        category: data.category || null,
+        description: data.description || null,
+        created_by: auth.uid,
+        created_at: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      transaction.set(
+        balanceRef,
+        {
+          currency,
+          disbursed: admin.firestore.FieldValue.increment(data.amount),
+          balance: admin.firestore.FieldValue.increment(-data.amount),
+          updated_at: admin.firestore.FieldValue.serverTimestamp(),
+        },
+        { merge: true }
+      );
+
+      return available - data.amount;
+    });
+
+    await db.collection("adminLogs").add({
+      action: "zakat_disbursed",
+      ledgerEntryId: entryRef.id,
+      amount: data.amount,
+      currency,
+      performedBy: auth.uid,
+      performedByEmail: auth.token.email || "unknown",
+      timestamp: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    logger.info("🕌 Zakat disbursed", {
+      entryId: entryRef.id,
+      amount: data.amount,
+      currency,
+      performedBy: auth.uid,
+    });
+
+    return {
+      success: true,
+      entryId: entryRef.id,
+      currency,
+      balance,
+    };
+  }
+);